@@ -0,0 +1,23 @@
+CREATE TABLE "transcription_session" (
+	"id" text PRIMARY KEY NOT NULL,
+	"socket_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"organization_id" text,
+	"status" text NOT NULL,
+	"audio_format" text NOT NULL,
+	"sample_rate" text NOT NULL,
+	"channels" text NOT NULL,
+	"bit_depth" text NOT NULL,
+	"transcribed_text" text DEFAULT '' NOT NULL,
+	"results" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"error_message" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_session" ADD CONSTRAINT "transcription_session_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transcription_session" ADD CONSTRAINT "transcription_session_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transcription_session_user_id_idx" ON "transcription_session" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "transcription_session_organization_id_idx" ON "transcription_session" USING btree ("organization_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "transcription_session" ADD COLUMN "target_languages" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "transcription_session" ADD COLUMN "translations" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
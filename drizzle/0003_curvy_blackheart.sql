@@ -0,0 +1,9 @@
+CREATE TABLE "transcription_speaker" (
+	"session_id" text NOT NULL,
+	"speaker_id" text NOT NULL,
+	"name" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "transcription_speaker_session_id_speaker_id_pk" PRIMARY KEY("session_id","speaker_id")
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_speaker" ADD CONSTRAINT "transcription_speaker_session_id_transcription_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."transcription_session"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
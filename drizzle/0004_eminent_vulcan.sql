@@ -0,0 +1,31 @@
+CREATE TABLE "call" (
+	"id" text PRIMARY KEY NOT NULL,
+	"created_by" text NOT NULL,
+	"organization_id" text,
+	"title" text,
+	"status" text NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "call_participant" (
+	"call_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"joined_at" timestamp NOT NULL,
+	"left_at" timestamp,
+	CONSTRAINT "call_participant_call_id_user_id_pk" PRIMARY KEY("call_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_session" ADD COLUMN "call_id" text;--> statement-breakpoint
+ALTER TABLE "call" ADD CONSTRAINT "call_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "call" ADD CONSTRAINT "call_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "call_participant" ADD CONSTRAINT "call_participant_call_id_call_id_fk" FOREIGN KEY ("call_id") REFERENCES "public"."call"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "call_participant" ADD CONSTRAINT "call_participant_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "call_created_by_idx" ON "call" USING btree ("created_by");--> statement-breakpoint
+CREATE INDEX "call_organization_id_idx" ON "call" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "call_participant_user_id_idx" ON "call_participant" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "transcription_session" ADD CONSTRAINT "transcription_session_call_id_call_id_fk" FOREIGN KEY ("call_id") REFERENCES "public"."call"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transcription_session_call_id_idx" ON "transcription_session" USING btree ("call_id");
\ No newline at end of file
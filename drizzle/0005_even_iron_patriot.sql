@@ -0,0 +1,21 @@
+CREATE TABLE "organization_usage" (
+	"organization_id" text NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"audio_ms" bigint DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "organization_usage_organization_id_period_start_pk" PRIMARY KEY("organization_id","period_start")
+);
+--> statement-breakpoint
+CREATE TABLE "user_usage" (
+	"user_id" text NOT NULL,
+	"organization_id" text DEFAULT '' NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"audio_ms" bigint DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_usage_user_id_organization_id_period_start_pk" PRIMARY KEY("user_id","organization_id","period_start")
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_session" ADD COLUMN "audio_duration_ms" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_usage" ADD CONSTRAINT "organization_usage_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_usage" ADD CONSTRAINT "user_usage_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_usage_organization_id_idx" ON "user_usage" USING btree ("organization_id","period_start");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transcription_session" ADD COLUMN "recording_key" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "transcription_session" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('simple', "transcribed_text")) STORED;--> statement-breakpoint
+CREATE INDEX "transcription_session_search_idx" ON "transcription_session" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "transcription_token" (
+	"session_id" text NOT NULL,
+	"seq" integer NOT NULL,
+	"text" text NOT NULL,
+	"confidence" double precision NOT NULL,
+	"start_ms" integer NOT NULL,
+	"end_ms" integer NOT NULL,
+	"speaker" text,
+	CONSTRAINT "transcription_token_session_id_seq_pk" PRIMARY KEY("session_id","seq")
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_token" ADD CONSTRAINT "transcription_token_session_id_transcription_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."transcription_session"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Move the tokens of existing sessions out of the JSONB results array
+INSERT INTO "transcription_token" ("session_id", "seq", "text", "confidence", "start_ms", "end_ms", "speaker")
+SELECT
+	s."id",
+	t."ord" - 1,
+	coalesce(t."token"->>'text', ''),
+	coalesce((t."token"->>'confidence')::double precision, 0),
+	round(coalesce((t."token"->>'start_ms')::numeric, 0))::integer,
+	round(coalesce((t."token"->>'end_ms')::numeric, 0))::integer,
+	t."token"->>'speaker'
+FROM "transcription_session" s
+CROSS JOIN LATERAL jsonb_array_elements(s."results") WITH ORDINALITY AS t("token", "ord");--> statement-breakpoint
+ALTER TABLE "transcription_session" DROP COLUMN "results";
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "transcription_summary" (
+	"session_id" text PRIMARY KEY NOT NULL,
+	"summary" text NOT NULL,
+	"action_items" jsonb NOT NULL,
+	"decisions" jsonb NOT NULL,
+	"provider" text NOT NULL,
+	"generated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_summary" ADD CONSTRAINT "transcription_summary_session_id_transcription_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."transcription_session"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
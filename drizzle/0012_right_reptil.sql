@@ -0,0 +1,13 @@
+CREATE TABLE "vocabulary_term" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"term" text NOT NULL,
+	"misspellings" jsonb NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vocabulary_term" ADD CONSTRAINT "vocabulary_term_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vocabulary_term" ADD CONSTRAINT "vocabulary_term_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "vocabulary_term_organization_id_idx" ON "vocabulary_term" USING btree ("organization_id");
\ No newline at end of file
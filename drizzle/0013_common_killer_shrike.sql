@@ -0,0 +1,3 @@
+ALTER TABLE "transcription_session" ADD COLUMN "language_hints" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "transcription_token" ADD COLUMN "language" text;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "language_hints" text;
\ No newline at end of file
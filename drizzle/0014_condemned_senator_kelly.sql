@@ -0,0 +1 @@
+ALTER TABLE "transcription_token" ADD COLUMN "segment" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
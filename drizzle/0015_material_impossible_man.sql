@@ -0,0 +1,13 @@
+CREATE TABLE "transcription_redaction" (
+	"session_id" text NOT NULL,
+	"seq" integer NOT NULL,
+	"entity" text NOT NULL,
+	"start_ms" integer NOT NULL,
+	"end_ms" integer NOT NULL,
+	"original_text" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "transcription_redaction_session_id_seq_pk" PRIMARY KEY("session_id","seq")
+);
+--> statement-breakpoint
+ALTER TABLE "transcription_token" ADD COLUMN "redacted" text;--> statement-breakpoint
+ALTER TABLE "transcription_redaction" ADD CONSTRAINT "transcription_redaction_session_id_transcription_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."transcription_session"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
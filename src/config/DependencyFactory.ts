@@ -1,14 +1,138 @@
+import { readFileSync } from "fs";
+import { hkdfSync, randomBytes, randomUUID } from "crypto";
+import type { Server as SocketIOServer } from "socket.io";
 import type { Database } from "../lib/db.js";
 import { LogtailLogger } from "../infrastructure/logging/LogtailLogger.js";
 import { DrizzleTranscriptionRepository } from "../infrastructure/database/DrizzleTranscriptionRepository.js";
-import { SonioxProvider } from "../infrastructure/transcription/SonioxProvider.js";
+import { DrizzleMembershipRepository } from "../infrastructure/database/DrizzleMembershipRepository.js";
+import { DrizzleOrganizationSettingsRepository } from "../infrastructure/database/DrizzleOrganizationSettingsRepository.js";
+import { DrizzleUserSettingsRepository } from "../infrastructure/database/DrizzleUserSettingsRepository.js";
+import { DrizzleCallRepository } from "../infrastructure/database/DrizzleCallRepository.js";
+import { DrizzleUsageRepository } from "../infrastructure/database/DrizzleUsageRepository.js";
+import { DrizzleJobRepository } from "../infrastructure/database/DrizzleJobRepository.js";
+import { DrizzleWebhookRepository } from "../infrastructure/database/DrizzleWebhookRepository.js";
+import { DrizzleSummaryRepository } from "../infrastructure/database/DrizzleSummaryRepository.js";
+import { DrizzleVocabularyRepository } from "../infrastructure/database/DrizzleVocabularyRepository.js";
+import { RuleBasedSummarizationProvider } from "../infrastructure/summarization/RuleBasedSummarizationProvider.js";
+import {
+  SonioxProvider,
+  SONIOX_DEFAULT_MODEL,
+  SONIOX_DEFAULT_URL,
+} from "../infrastructure/transcription/SonioxProvider.js";
+import { WebSocketSttProvider } from "../infrastructure/transcription/WebSocketSttProvider.js";
+import {
+  MockTranscriptionProvider,
+  DEFAULT_MOCK_SCRIPT,
+  parseMockScript,
+} from "../infrastructure/transcription/MockTranscriptionProvider.js";
+import { TranscriptionProviderRegistry } from "../infrastructure/transcription/TranscriptionProviderRegistry.js";
+import { LocalAudioStorage } from "../infrastructure/storage/LocalAudioStorage.js";
+import { HmacWatchTokenService } from "../infrastructure/security/HmacWatchTokenService.js";
+import { HttpWebhookSender } from "../infrastructure/webhooks/HttpWebhookSender.js";
+import { PcmAudioConverter } from "../infrastructure/audio/PcmAudioConverter.js";
+import { ContainerPassthroughConverter } from "../infrastructure/audio/ContainerPassthroughConverter.js";
+import { StubTranslationProvider } from "../infrastructure/translation/StubTranslationProvider.js";
+import { LibreTranslateProvider } from "../infrastructure/translation/LibreTranslateProvider.js";
 import { StartTranscription } from "../use-cases/transcription/StartTranscription.js";
 import { ProcessAudioChunk } from "../use-cases/transcription/ProcessAudioChunk.js";
+import { PauseTranscription } from "../use-cases/transcription/PauseTranscription.js";
+import { ResumeTranscription } from "../use-cases/transcription/ResumeTranscription.js";
 import { StopTranscription } from "../use-cases/transcription/StopTranscription.js";
+import { ListTranscriptions } from "../use-cases/transcription/ListTranscriptions.js";
+import { SearchTranscriptions } from "../use-cases/transcription/SearchTranscriptions.js";
+import { SummarizeSession } from "../use-cases/summary/SummarizeSession.js";
+import { GetTranscriptSummary } from "../use-cases/summary/GetTranscriptSummary.js";
+import { RegenerateTranscriptSummary } from "../use-cases/summary/RegenerateTranscriptSummary.js";
+import { GetTranscription } from "../use-cases/transcription/GetTranscription.js";
+import { DeleteTranscription } from "../use-cases/transcription/DeleteTranscription.js";
+import { RenameSpeaker } from "../use-cases/transcription/RenameSpeaker.js";
+import { TranscriptionAccessPolicy } from "../use-cases/transcription/TranscriptionAccessPolicy.js";
+import { TranslateTranscript } from "../use-cases/translation/TranslateTranscript.js";
+import { LiveCallRegistry } from "../use-cases/calls/LiveCallRegistry.js";
+import { CreateCall } from "../use-cases/calls/CreateCall.js";
+import { JoinCall } from "../use-cases/calls/JoinCall.js";
+import { LeaveCall } from "../use-cases/calls/LeaveCall.js";
+import { GetCall } from "../use-cases/calls/GetCall.js";
+import { LiveSessionRegistry } from "../use-cases/watch/LiveSessionRegistry.js";
+import { CreateWatchLink } from "../use-cases/watch/CreateWatchLink.js";
+import { WatchSession } from "../use-cases/watch/WatchSession.js";
+import { UsageMeter } from "../use-cases/usage/UsageMeter.js";
+import { UsageQuotaPolicy } from "../use-cases/usage/UsageQuotaPolicy.js";
+import { GetOrganizationUsage } from "../use-cases/usage/GetOrganizationUsage.js";
+import { SessionRecorder } from "../use-cases/recording/SessionRecorder.js";
+import { TranscriptWriter } from "../use-cases/transcription/TranscriptWriter.js";
+import { LanguageHintsPolicy } from "../use-cases/transcription/LanguageHintsPolicy.js";
+import { RedactionPolicy } from "../use-cases/redaction/RedactionPolicy.js";
+import { GetTranscriptRedactions } from "../use-cases/redaction/GetTranscriptRedactions.js";
+import { GetRecording } from "../use-cases/recording/GetRecording.js";
+import { PurgeExpiredRecordings } from "../use-cases/recording/PurgeExpiredRecordings.js";
+import { RecordingRetentionPolicy } from "../use-cases/recording/RecordingRetentionPolicy.js";
+import { ExpireRecording } from "../use-cases/recording/ExpireRecording.js";
+import { JobWorker, DEFAULT_JOB_WORKER_OPTIONS } from "../use-cases/jobs/JobWorker.js";
+import { ScheduleSessionJobs } from "../use-cases/jobs/ScheduleSessionJobs.js";
+import { ListJobs } from "../use-cases/jobs/ListJobs.js";
+import { GetJob } from "../use-cases/jobs/GetJob.js";
+import { RetryJob } from "../use-cases/jobs/RetryJob.js";
+import { AdminAccessPolicy } from "../use-cases/admin/AdminAccessPolicy.js";
+import { PublishSessionEvent } from "../use-cases/webhooks/PublishSessionEvent.js";
+import { DeliverWebhook } from "../use-cases/webhooks/DeliverWebhook.js";
+import { WebhookAccessPolicy } from "../use-cases/webhooks/WebhookAccessPolicy.js";
+import { CreateWebhookEndpoint } from "../use-cases/webhooks/CreateWebhookEndpoint.js";
+import { ListWebhookEndpoints } from "../use-cases/webhooks/ListWebhookEndpoints.js";
+import { DeleteWebhookEndpoint } from "../use-cases/webhooks/DeleteWebhookEndpoint.js";
+import { ListWebhookDeliveries } from "../use-cases/webhooks/ListWebhookDeliveries.js";
+import { VocabularyAccessPolicy } from "../use-cases/vocabulary/VocabularyAccessPolicy.js";
+import { ListVocabulary } from "../use-cases/vocabulary/ListVocabulary.js";
+import { AddVocabularyTerm } from "../use-cases/vocabulary/AddVocabularyTerm.js";
+import { UpdateVocabularyTerm } from "../use-cases/vocabulary/UpdateVocabularyTerm.js";
+import { DeleteVocabularyTerm } from "../use-cases/vocabulary/DeleteVocabularyTerm.js";
+import {
+  TranscribeUpload,
+  type ITranscriptionPipeline,
+} from "../use-cases/batch/TranscribeUpload.js";
+import { GetUploadProgress } from "../use-cases/batch/GetUploadProgress.js";
+import { UploadProgressRegistry } from "../use-cases/batch/UploadProgressRegistry.js";
+import { ExportTranscription } from "../use-cases/export/ExportTranscription.js";
+import { TranscriptSegmenter } from "../use-cases/export/TranscriptSegmenter.js";
+import { SrtExporter } from "../infrastructure/export/SrtExporter.js";
+import { WebVttExporter } from "../infrastructure/export/WebVttExporter.js";
+import { PlainTextExporter } from "../infrastructure/export/PlainTextExporter.js";
+import { MarkdownExporter } from "../infrastructure/export/MarkdownExporter.js";
+import { JsonExporter } from "../infrastructure/export/JsonExporter.js";
 import { TranscriptionController } from "../presentation/socket/TranscriptionController.js";
+import { TranscriptionHttpController } from "../presentation/http/TranscriptionHttpController.js";
+import { CallController } from "../presentation/socket/CallController.js";
+import { SocketCallNotifier } from "../presentation/socket/SocketCallNotifier.js";
+import { CallHttpController } from "../presentation/http/CallHttpController.js";
+import { OrganizationHttpController } from "../presentation/http/OrganizationHttpController.js";
+import { AdminHttpController } from "../presentation/http/AdminHttpController.js";
+import { WatchController } from "../presentation/socket/WatchController.js";
+import { SocketSessionViewerNotifier } from "../presentation/socket/SocketSessionViewerNotifier.js";
 import type { ILogger } from "../use-cases/interfaces/ILogger.js";
+import type { IJobHandler } from "../use-cases/interfaces/IJobHandler.js";
+import type { IWatchTokenService } from "../use-cases/interfaces/IWatchTokenService.js";
+import { LanguageCode } from "../domain/value-objects/LanguageCode.js";
 import type { ITranscriptionRepository } from "../domain/repositories/ITranscriptionRepository.js";
+import type { IMembershipRepository } from "../domain/repositories/IMembershipRepository.js";
+import type { IOrganizationSettingsRepository } from "../domain/repositories/IOrganizationSettingsRepository.js";
+import type { IUserSettingsRepository } from "../domain/repositories/IUserSettingsRepository.js";
+import type { ICallRepository } from "../domain/repositories/ICallRepository.js";
+import type { IUsageRepository } from "../domain/repositories/IUsageRepository.js";
+import type { IJobRepository } from "../domain/repositories/IJobRepository.js";
+import type { IWebhookRepository } from "../domain/repositories/IWebhookRepository.js";
+import type { ISummaryRepository } from "../domain/repositories/ISummaryRepository.js";
+import type { IVocabularyRepository } from "../domain/repositories/IVocabularyRepository.js";
+import type { ISummarizationProvider } from "../domain/repositories/ISummarizationProvider.js";
+import type { IAudioStorage } from "../domain/repositories/IAudioStorage.js";
+import type { ITranscriptExporter } from "../domain/repositories/ITranscriptExporter.js";
+import type { ITranslationProvider } from "../domain/repositories/ITranslationProvider.js";
 import type { ITranscriptionProvider } from "../domain/repositories/ITranscriptionProvider.js";
+import type { IWebhookUrlRules } from "../domain/value-objects/WebhookUrl.js";
+
+// HKDF info label separating the watch link key from Better Auth's secret
+const WATCH_LINK_KEY_PURPOSE = "intercall/watch-link-token/v1";
+// Uploads transcribed at once per server, each held in memory (up to 100mb)
+const DEFAULT_MAX_CONCURRENT_UPLOADS = 4;
 
 /**
  * Dependency Factory for manual DI wiring
@@ -18,10 +142,18 @@ export class DependencyFactory {
   private static instance: DependencyFactory;
   private logger: ILogger;
   private db: Database;
+  private transcriptionProviders: TranscriptionProviderRegistry;
+  private liveCalls: LiveCallRegistry | null = null;
+  private liveSessions: LiveSessionRegistry | null = null;
+  private watchTokens: IWatchTokenService;
+  private uploadProgress = new UploadProgressRegistry();
+  private transcribeUpload: TranscribeUpload | null = null;
 
   private constructor(db: Database) {
     this.db = db;
     this.logger = new LogtailLogger();
+    this.transcriptionProviders = this.createTranscriptionProviderRegistry();
+    this.watchTokens = this.createWatchTokenService();
   }
 
   static initialize(db: Database): DependencyFactory {
@@ -46,6 +178,66 @@ export class DependencyFactory {
     return this.db;
   }
 
+  /**
+   * Use the Socket.IO server for call and viewer broadcasts
+   */
+  attachSocketServer(io: SocketIOServer): void {
+    this.liveCalls = new LiveCallRegistry(new SocketCallNotifier(io));
+    this.liveSessions = new LiveSessionRegistry(new SocketSessionViewerNotifier(io));
+  }
+
+  /**
+   * Calls in progress; one registry shared by every socket
+   */
+  getLiveCallRegistry(): LiveCallRegistry {
+    if (!this.liveCalls) {
+      throw new Error(
+        "Socket.IO server not attached. Call attachSocketServer() first."
+      );
+    }
+    return this.liveCalls;
+  }
+
+  /**
+   * Sessions in progress; one registry shared by every socket
+   */
+  getLiveSessionRegistry(): LiveSessionRegistry {
+    if (!this.liveSessions) {
+      throw new Error(
+        "Socket.IO server not attached. Call attachSocketServer() first."
+      );
+    }
+    return this.liveSessions;
+  }
+
+  /**
+   * Signs watch links with WATCH_LINK_SECRET, else with a key derived
+   * from BETTER_AUTH_SECRET for this purpose only, so a watch token can
+   * never stand in for anything Better Auth signs. Without either, a
+   * per-process secret is used and links stop working on restart.
+   */
+  private createWatchTokenService(): IWatchTokenService {
+    const authSecret = process.env.BETTER_AUTH_SECRET;
+    let secret = process.env.WATCH_LINK_SECRET;
+    if (!secret && authSecret) {
+      secret = Buffer.from(
+        hkdfSync("sha256", authSecret, "", WATCH_LINK_KEY_PURPOSE, 32)
+      ).toString("hex");
+    }
+    if (!secret) {
+      this.logger.warn(
+        "WATCH_LINK_SECRET is not set; watch links will not survive a restart"
+      );
+    }
+    return new HmacWatchTokenService(
+      secret || randomBytes(32).toString("hex")
+    );
+  }
+
+  getWatchTokenService(): IWatchTokenService {
+    return this.watchTokens;
+  }
+
   /**
    * Create Transcription Repository
    */
@@ -54,41 +246,579 @@ export class DependencyFactory {
   }
 
   /**
-   * Create Transcription Provider (Soniox)
+   * Create Membership Repository
+   */
+  createMembershipRepository(): IMembershipRepository {
+    return new DrizzleMembershipRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Call Repository
+   */
+  createCallRepository(): ICallRepository {
+    return new DrizzleCallRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Usage Repository
+   */
+  createUsageRepository(): IUsageRepository {
+    return new DrizzleUsageRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Job Repository (background job queue)
+   */
+  createJobRepository(): IJobRepository {
+    return new DrizzleJobRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Webhook Repository
+   */
+  createWebhookRepository(): IWebhookRepository {
+    return new DrizzleWebhookRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Vocabulary Repository
+   */
+  createVocabularyRepository(): IVocabularyRepository {
+    return new DrizzleVocabularyRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Summary Repository
+   */
+  createSummaryRepository(): ISummaryRepository {
+    return new DrizzleSummaryRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Organization Settings Repository
+   */
+  createOrganizationSettingsRepository(): IOrganizationSettingsRepository {
+    return new DrizzleOrganizationSettingsRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create User Settings Repository
+   */
+  createUserSettingsRepository(): IUserSettingsRepository {
+    return new DrizzleUserSettingsRepository(this.db, this.logger);
+  }
+
+  /**
+   * Create Audio Storage for recordings
+   * Files live in RECORDING_STORAGE_DIR (default ./recordings)
+   */
+  createAudioStorage(): IAudioStorage {
+    return new LocalAudioStorage(process.env.RECORDING_STORAGE_DIR || "recordings");
+  }
+
+  /**
+   * Create TranscriptionAccessPolicy
+   */
+  createTranscriptionAccessPolicy(): TranscriptionAccessPolicy {
+    return new TranscriptionAccessPolicy(this.createMembershipRepository());
+  }
+
+  /**
+   * Create LanguageHintsPolicy
+   * DEFAULT_LANGUAGE_HINTS is the server default (comma-separated, "en"
+   * when unset, empty for any language); users and organizations may
+   * override it with their "languageHints" setting
+   */
+  createLanguageHintsPolicy(): LanguageHintsPolicy {
+    const defaultHints = LanguageCode.parseList(
+      (process.env.DEFAULT_LANGUAGE_HINTS ?? "en")
+        .split(",")
+        .filter((code) => code.trim() !== ""),
+      Infinity
+    ).map((code) => code.toString());
+
+    return new LanguageHintsPolicy(
+      this.createUserSettingsRepository(),
+      this.createOrganizationSettingsRepository(),
+      defaultHints
+    );
+  }
+
+  /**
+   * Create RedactionPolicy
+   * Organizations opt in with their "redaction" setting
+   */
+  createRedactionPolicy(): RedactionPolicy {
+    return new RedactionPolicy(this.createOrganizationSettingsRepository());
+  }
+
+  /**
+   * Create UsageQuotaPolicy
+   * MONTHLY_MINUTE_LIMIT is the default monthly limit (unset or 0: unlimited);
+   * organizations may override it with their "monthlyMinuteLimit" setting
+   */
+  createUsageQuotaPolicy(): UsageQuotaPolicy {
+    const defaultMinutes = process.env.MONTHLY_MINUTE_LIMIT
+      ? parseInt(process.env.MONTHLY_MINUTE_LIMIT)
+      : null;
+
+    return new UsageQuotaPolicy(
+      this.createUsageRepository(),
+      this.createOrganizationSettingsRepository(),
+      defaultMinutes || null
+    );
+  }
+
+  /**
+   * Create UsageMeter
+   * Note: One instance per socket, shared by its start, audio and stop use cases
+   */
+  createUsageMeter(): UsageMeter {
+    return new UsageMeter(
+      this.createUsageRepository(),
+      this.createUsageQuotaPolicy(),
+      this.logger
+    );
+  }
+
+  /**
+   * Create SessionRecorder
+   * Note: One instance per socket, shared by its start, audio and stop use cases
+   */
+  createSessionRecorder(): SessionRecorder {
+    return new SessionRecorder(this.createAudioStorage(), this.logger);
+  }
+
+  /**
+   * Create TranscriptWriter
+   * Note: One instance per socket, shared by its start and stop use cases
+   */
+  createTranscriptWriter(): TranscriptWriter {
+    return new TranscriptWriter(this.createTranscriptionRepository(), this.logger);
+  }
+
+  /**
+   * Create RecordingRetentionPolicy
+   * RECORDING_RETENTION_DAYS is the default retention (unset or 0: keep);
+   * organizations may override it with their "recordingRetentionDays" setting
+   */
+  createRecordingRetentionPolicy(): RecordingRetentionPolicy {
+    const defaultDays = process.env.RECORDING_RETENTION_DAYS
+      ? parseInt(process.env.RECORDING_RETENTION_DAYS)
+      : null;
+
+    return new RecordingRetentionPolicy(
+      this.createOrganizationSettingsRepository(),
+      defaultDays || null
+    );
+  }
+
+  /**
+   * Create PurgeExpiredRecordings Use Case
+   */
+  createPurgeExpiredRecordingsUseCase(): PurgeExpiredRecordings {
+    return new PurgeExpiredRecordings(
+      this.createTranscriptionRepository(),
+      this.createRecordingRetentionPolicy(),
+      this.createAudioStorage(),
+      this.logger
+    );
+  }
+
+  /**
+   * Create ScheduleSessionJobs Use Case
+   */
+  createScheduleSessionJobsUseCase(): ScheduleSessionJobs {
+    return new ScheduleSessionJobs(
+      this.createJobRepository(),
+      this.createRecordingRetentionPolicy(),
+      this.logger
+    );
+  }
+
+  /**
+   * Create PublishSessionEvent Use Case (webhooks)
+   */
+  createPublishSessionEventUseCase(): PublishSessionEvent {
+    return new PublishSessionEvent(
+      this.createWebhookRepository(),
+      this.createJobRepository(),
+      this.logger
+    );
+  }
+
+  /**
+   * Webhooks go to public https URLs; development (NODE_ENV) also allows
+   * http and receivers on the local network
+   */
+  private getWebhookUrlRules(): IWebhookUrlRules {
+    const development = process.env.NODE_ENV === "development";
+    return { allowHttp: development, allowPrivateNetworks: development };
+  }
+
+  /**
+   * Create the handlers of every background job type
+   */
+  createJobHandlers(): IJobHandler[] {
+    return [
+      new ExpireRecording(
+        this.createTranscriptionRepository(),
+        this.createRecordingRetentionPolicy(),
+        this.createAudioStorage(),
+        this.logger
+      ),
+      new DeliverWebhook(
+        this.createWebhookRepository(),
+        new HttpWebhookSender(this.getWebhookUrlRules()),
+        this.logger
+      ),
+      this.createSummarizeSessionUseCase(),
+    ];
+  }
+
+  /**
+   * Create JobWorker
+   * JOB_POLL_INTERVAL_MS overrides how often an idle worker checks the queue
+   */
+  createJobWorker(): JobWorker {
+    const pollIntervalMs = process.env.JOB_POLL_INTERVAL_MS
+      ? parseInt(process.env.JOB_POLL_INTERVAL_MS)
+      : null;
+
+    return new JobWorker(
+      this.createJobRepository(),
+      this.createJobHandlers(),
+      {
+        ...DEFAULT_JOB_WORKER_OPTIONS,
+        pollIntervalMs: pollIntervalMs || DEFAULT_JOB_WORKER_OPTIONS.pollIntervalMs,
+      },
+      this.logger
+    );
+  }
+
+  /**
+   * Create all transcript exporters (SRT, WebVTT, text, Markdown, JSON)
+   */
+  createTranscriptExporters(): ITranscriptExporter[] {
+    return [
+      new SrtExporter(),
+      new WebVttExporter(),
+      new PlainTextExporter(),
+      new MarkdownExporter(),
+      new JsonExporter(),
+    ];
+  }
+
+  /**
+   * Register every transcription backend configured in the environment.
+   * TRANSCRIPTION_PROVIDER picks the default (soniox unless set); "mock"
+   * is always available and replays MOCK_TRANSCRIPTION_SCRIPT when set.
+   */
+  private createTranscriptionProviderRegistry(): TranscriptionProviderRegistry {
+    const configuredDefault = process.env.TRANSCRIPTION_PROVIDER;
+    const registry = new TranscriptionProviderRegistry(
+      configuredDefault || "soniox"
+    );
+
+    const sonioxApiKey = process.env.SONIOX_API_KEY;
+    if (sonioxApiKey) {
+      const config = {
+        apiKey: sonioxApiKey,
+        url: process.env.SONIOX_URL || SONIOX_DEFAULT_URL,
+        model: process.env.SONIOX_MODEL || SONIOX_DEFAULT_MODEL,
+      };
+      registry.register(
+        "soniox",
+        (clientId) => new SonioxProvider(clientId, config, this.logger)
+      );
+    }
+
+    const sttWebSocketUrl = process.env.STT_WEBSOCKET_URL;
+    if (sttWebSocketUrl) {
+      const config = {
+        url: sttWebSocketUrl,
+        apiKey: process.env.STT_WEBSOCKET_API_KEY,
+        sampleRate: process.env.STT_WEBSOCKET_SAMPLE_RATE
+          ? parseInt(process.env.STT_WEBSOCKET_SAMPLE_RATE)
+          : 16000,
+      };
+      registry.register(
+        "websocket",
+        (clientId) => new WebSocketSttProvider(clientId, config, this.logger)
+      );
+    }
+
+    const scriptPath = process.env.MOCK_TRANSCRIPTION_SCRIPT;
+    const script = scriptPath
+      ? parseMockScript(JSON.parse(readFileSync(scriptPath, "utf8")))
+      : DEFAULT_MOCK_SCRIPT;
+    registry.register(
+      "mock",
+      (clientId) => new MockTranscriptionProvider(clientId, script, this.logger)
+    );
+
+    if (configuredDefault && !registry.has(configuredDefault)) {
+      throw new Error(
+        `TRANSCRIPTION_PROVIDER "${configuredDefault}" is not configured (available: ${registry.names().join(", ")})`
+      );
+    }
+
+    return registry;
+  }
+
+  /**
+   * Pick the transcription provider for a connection: the organization's
+   * "transcriptionProvider" setting when it names a configured provider,
+   * otherwise the default
+   */
+  async resolveTranscriptionProviderName(
+    organizationId: string | null
+  ): Promise<string> {
+    if (!organizationId) {
+      return this.transcriptionProviders.getDefaultName();
+    }
+
+    try {
+      const settings =
+        await this.createOrganizationSettingsRepository().findByOrganizationId(
+          organizationId
+        );
+      const preferred = settings.transcriptionProvider;
+      if (preferred && !this.transcriptionProviders.has(preferred)) {
+        this.logger.warn("Organization transcription provider is not configured", {
+          organizationId,
+          provider: preferred,
+        });
+      }
+      return this.transcriptionProviders.resolve(preferred);
+    } catch (error) {
+      this.logger.error("Falling back to default transcription provider", {
+        organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.transcriptionProviders.getDefaultName();
+    }
+  }
+
+  /**
+   * Create Transcription Provider
    * Note: This creates a new instance per use, as each client needs its own connection
    */
-  createTranscriptionProvider(clientId: string): ITranscriptionProvider {
-    return new SonioxProvider(clientId, this.logger);
+  createTranscriptionProvider(
+    clientId: string,
+    providerName: string = this.transcriptionProviders.getDefaultName()
+  ): ITranscriptionProvider {
+    return this.transcriptionProviders.create(providerName, clientId);
+  }
+
+  /**
+   * Create Translation Provider
+   * Uses a LibreTranslate-compatible API when TRANSLATION_API_URL is set,
+   * otherwise the deterministic offline stub
+   */
+  createTranslationProvider(): ITranslationProvider {
+    const apiUrl = process.env.TRANSLATION_API_URL;
+    if (apiUrl) {
+      return new LibreTranslateProvider(
+        apiUrl,
+        process.env.TRANSLATION_API_KEY,
+        this.logger
+      );
+    }
+    return new StubTranslationProvider();
+  }
+
+  /**
+   * Create Summarization Provider
+   * The offline rule-based summarizer; an LLM-backed adapter would be
+   * selected here from its environment configuration
+   */
+  createSummarizationProvider(): ISummarizationProvider {
+    return new RuleBasedSummarizationProvider();
+  }
+
+  /**
+   * Create SummarizeSession Use Case (also the session.summarize job handler)
+   */
+  createSummarizeSessionUseCase(): SummarizeSession {
+    return new SummarizeSession(
+      this.createTranscriptionRepository(),
+      this.createSummaryRepository(),
+      this.createSummarizationProvider(),
+      this.logger
+    );
+  }
+
+  /**
+   * Create TranslateTranscript
+   * Note: One instance per socket, shared by its start and stop use cases
+   */
+  createTranslateTranscript(): TranslateTranscript {
+    return new TranslateTranscript(
+      this.createTranslationProvider(),
+      this.logger
+    );
   }
 
   /**
    * Create StartTranscription Use Case
    */
   createStartTranscriptionUseCase(
-    provider: ITranscriptionProvider
+    provider: ITranscriptionProvider,
+    translator: TranslateTranscript,
+    usageMeter: UsageMeter,
+    recorder: SessionRecorder,
+    writer: TranscriptWriter
   ): StartTranscription {
     const repository = this.createTranscriptionRepository();
-    return new StartTranscription(repository, provider, this.logger);
+    return new StartTranscription(
+      repository,
+      this.createVocabularyRepository(),
+      this.createLanguageHintsPolicy(),
+      this.createRedactionPolicy(),
+      provider,
+      translator,
+      usageMeter,
+      recorder,
+      writer,
+      this.createPublishSessionEventUseCase(),
+      this.logger
+    );
   }
 
   /**
    * Create ProcessAudioChunk Use Case
    */
   createProcessAudioChunkUseCase(
-    provider: ITranscriptionProvider
+    provider: ITranscriptionProvider,
+    usageMeter: UsageMeter,
+    recorder: SessionRecorder
   ): ProcessAudioChunk {
+    return new ProcessAudioChunk(
+      provider,
+      (input, output) =>
+        input.isCompressed()
+          ? new ContainerPassthroughConverter(input)
+          : new PcmAudioConverter(input, output),
+      usageMeter,
+      recorder,
+      this.logger
+    );
+  }
+
+  /**
+   * Create PauseTranscription Use Case
+   */
+  createPauseTranscriptionUseCase(
+    provider: ITranscriptionProvider
+  ): PauseTranscription {
     const repository = this.createTranscriptionRepository();
-    return new ProcessAudioChunk(repository, provider, this.logger);
+    return new PauseTranscription(repository, provider, this.logger);
+  }
+
+  /**
+   * Create ResumeTranscription Use Case
+   */
+  createResumeTranscriptionUseCase(
+    provider: ITranscriptionProvider
+  ): ResumeTranscription {
+    const repository = this.createTranscriptionRepository();
+    return new ResumeTranscription(repository, provider, this.logger);
   }
 
   /**
    * Create StopTranscription Use Case
    */
   createStopTranscriptionUseCase(
-    provider: ITranscriptionProvider
+    provider: ITranscriptionProvider,
+    translator: TranslateTranscript,
+    usageMeter: UsageMeter,
+    recorder: SessionRecorder,
+    writer: TranscriptWriter
   ): StopTranscription {
     const repository = this.createTranscriptionRepository();
-    return new StopTranscription(repository, provider, this.logger);
+    return new StopTranscription(
+      repository,
+      provider,
+      translator,
+      usageMeter,
+      recorder,
+      writer,
+      this.createScheduleSessionJobsUseCase(),
+      this.createPublishSessionEventUseCase(),
+      this.logger
+    );
+  }
+
+  /**
+   * Create RenameSpeaker Use Case
+   */
+  createRenameSpeakerUseCase(): RenameSpeaker {
+    return new RenameSpeaker(
+      this.createTranscriptionRepository(),
+      this.createTranscriptionAccessPolicy(),
+      this.logger
+    );
+  }
+
+  /**
+   * Create the start, audio and stop use cases of one provider connection,
+   * sharing its translator, usage meter, recorder and transcript writer
+   */
+  createTranscriptionPipeline(
+    provider: ITranscriptionProvider
+  ): ITranscriptionPipeline {
+    const translator = this.createTranslateTranscript();
+    const usageMeter = this.createUsageMeter();
+    const recorder = this.createSessionRecorder();
+    const writer = this.createTranscriptWriter();
+
+    return {
+      start: this.createStartTranscriptionUseCase(
+        provider,
+        translator,
+        usageMeter,
+        recorder,
+        writer
+      ),
+      processAudioChunk: this.createProcessAudioChunkUseCase(
+        provider,
+        usageMeter,
+        recorder
+      ),
+      stop: this.createStopTranscriptionUseCase(
+        provider,
+        translator,
+        usageMeter,
+        recorder,
+        writer
+      ),
+    };
+  }
+
+  /**
+   * Create TranscribeUpload Use Case
+   * Each upload gets its own provider connection, chosen like a socket's;
+   * one instance is shared so the upload limit holds for the whole server
+   */
+  createTranscribeUploadUseCase(): TranscribeUpload {
+    return (this.transcribeUpload ??= new TranscribeUpload(
+      async (owner) => {
+        const providerName = await this.resolveTranscriptionProviderName(
+          owner.organizationId
+        );
+        const provider = this.createTranscriptionProvider(
+          `upload-${randomUUID()}`,
+          providerName
+        );
+        return this.createTranscriptionPipeline(provider);
+      },
+      this.uploadProgress,
+      process.env.MAX_CONCURRENT_UPLOADS
+        ? parseInt(process.env.MAX_CONCURRENT_UPLOADS)
+        : DEFAULT_MAX_CONCURRENT_UPLOADS,
+      this.logger
+    ));
   }
 
   /**
@@ -96,19 +826,173 @@ export class DependencyFactory {
    * This is the main entry point for Socket.IO integration
    */
   createTranscriptionController(
-    clientId: string
+    clientId: string,
+    providerName?: string
   ): TranscriptionController {
-    const provider = this.createTranscriptionProvider(clientId);
-    const startUseCase = this.createStartTranscriptionUseCase(provider);
-    const processUseCase = this.createProcessAudioChunkUseCase(provider);
-    const stopUseCase = this.createStopTranscriptionUseCase(provider);
+    const provider = this.createTranscriptionProvider(clientId, providerName);
+    const pipeline = this.createTranscriptionPipeline(provider);
+    const pauseUseCase = this.createPauseTranscriptionUseCase(provider);
+    const resumeUseCase = this.createResumeTranscriptionUseCase(provider);
 
     return new TranscriptionController(
-      startUseCase,
-      processUseCase,
-      stopUseCase,
+      pipeline.start,
+      pipeline.processAudioChunk,
+      pauseUseCase,
+      resumeUseCase,
+      pipeline.stop,
+      this.createRenameSpeakerUseCase(),
+      this.getLiveCallRegistry(),
+      this.getLiveSessionRegistry(),
       provider,
       this.logger
     );
   }
+
+  /**
+   * Create CallController for one socket
+   * Leaving a call stops that socket's session through its transcription controller
+   */
+  createCallController(
+    transcriptionController: TranscriptionController
+  ): CallController {
+    const repository = this.createCallRepository();
+    const liveCalls = this.getLiveCallRegistry();
+
+    return new CallController(
+      new CreateCall(repository, liveCalls, this.logger),
+      new JoinCall(
+        repository,
+        liveCalls,
+        this.createTranscriptionAccessPolicy(),
+        this.logger
+      ),
+      new LeaveCall(repository, liveCalls, this.logger),
+      transcriptionController,
+      this.logger
+    );
+  }
+
+  /**
+   * Create WatchController for one socket, signed in or holding a watch link
+   */
+  createWatchController(): WatchController {
+    return new WatchController(
+      new WatchSession(
+        this.createTranscriptionRepository(),
+        this.createTranscriptionAccessPolicy(),
+        this.getLiveSessionRegistry(),
+        this.watchTokens
+      ),
+      this.logger
+    );
+  }
+
+  /**
+   * Create CallHttpController
+   * Backs the /api/calls REST routes
+   */
+  createCallHttpController(): CallHttpController {
+    return new CallHttpController(
+      new GetCall(
+        this.createCallRepository(),
+        this.createTranscriptionRepository(),
+        this.createTranscriptionAccessPolicy()
+      ),
+      this.logger
+    );
+  }
+
+  /**
+   * Create OrganizationHttpController
+   * Backs the /api/organizations REST routes
+   */
+  createOrganizationHttpController(): OrganizationHttpController {
+    const webhooks = this.createWebhookRepository();
+    const webhookAccess = new WebhookAccessPolicy(this.createMembershipRepository());
+    const vocabulary = this.createVocabularyRepository();
+    const vocabularyAccess = new VocabularyAccessPolicy(this.createMembershipRepository());
+
+    return new OrganizationHttpController(
+      new GetOrganizationUsage(
+        this.createUsageRepository(),
+        this.createMembershipRepository(),
+        this.createUsageQuotaPolicy()
+      ),
+      new CreateWebhookEndpoint(
+        webhooks,
+        webhookAccess,
+        this.getWebhookUrlRules(),
+        this.logger
+      ),
+      new ListWebhookEndpoints(webhooks, webhookAccess),
+      new DeleteWebhookEndpoint(webhooks, webhookAccess, this.logger),
+      new ListWebhookDeliveries(webhooks, webhookAccess),
+      new ListVocabulary(vocabulary, vocabularyAccess),
+      new AddVocabularyTerm(vocabulary, vocabularyAccess, this.logger),
+      new UpdateVocabularyTerm(vocabulary, vocabularyAccess, this.logger),
+      new DeleteVocabularyTerm(vocabulary, vocabularyAccess, this.logger),
+      this.logger
+    );
+  }
+
+  /**
+   * Create AdminHttpController
+   * Backs the /api/admin REST routes; ADMIN_EMAILS lists the allowed users
+   * (comma-separated)
+   */
+  createAdminHttpController(): AdminHttpController {
+    const repository = this.createJobRepository();
+    const adminPolicy = new AdminAccessPolicy(
+      (process.env.ADMIN_EMAILS || "").split(",")
+    );
+    const getJob = new GetJob(repository, adminPolicy);
+
+    return new AdminHttpController(
+      new ListJobs(repository, adminPolicy),
+      getJob,
+      new RetryJob(getJob, repository, this.createJobHandlers(), this.logger),
+      this.logger
+    );
+  }
+
+  /**
+   * Create TranscriptionHttpController
+   * Backs the /api/transcriptions REST routes
+   */
+  createTranscriptionHttpController(): TranscriptionHttpController {
+    const repository = this.createTranscriptionRepository();
+    const accessPolicy = this.createTranscriptionAccessPolicy();
+    const getTranscription = new GetTranscription(repository, accessPolicy);
+
+    return new TranscriptionHttpController(
+      new ListTranscriptions(repository, accessPolicy, this.logger),
+      getTranscription,
+      new DeleteTranscription(
+        repository,
+        accessPolicy,
+        this.createAudioStorage(),
+        this.logger
+      ),
+      new ExportTranscription(
+        getTranscription,
+        this.createTranscriptExporters(),
+        new TranscriptSegmenter(),
+        this.logger
+      ),
+      this.createRenameSpeakerUseCase(),
+      new CreateWatchLink(repository, accessPolicy, this.watchTokens, this.logger),
+      new GetRecording(getTranscription, this.createAudioStorage()),
+      this.createTranscribeUploadUseCase(),
+      new GetUploadProgress(getTranscription, this.uploadProgress),
+      new SearchTranscriptions(repository, accessPolicy, this.logger),
+      new GetTranscriptSummary(getTranscription, this.createSummaryRepository()),
+      new RegenerateTranscriptSummary(
+        repository,
+        accessPolicy,
+        this.createSummarizeSessionUseCase()
+      ),
+      new GetTranscriptRedactions(repository, accessPolicy, this.logger),
+      this.logger
+    );
+  }
 }
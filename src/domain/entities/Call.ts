@@ -0,0 +1,114 @@
+import { CallId } from "../value-objects/CallId";
+import type { ISessionOwner } from "./TranscriptionSession";
+
+export enum CallStatus {
+  ACTIVE = "active",
+  ENDED = "ended",
+}
+
+/**
+ * A user taking part in a call. Each participant streams their own audio
+ * as a separate transcription session linked to the call.
+ */
+export interface ICallParticipant {
+  userId: string;
+  name: string;
+  joinedAt: Date;
+  leftAt?: Date;
+}
+
+/**
+ * A multi-party call whose participants share one merged transcript
+ */
+export class Call {
+  readonly id: CallId;
+  readonly createdBy: string;
+  readonly organizationId: string | null;
+  readonly title: string | null;
+  status: CallStatus;
+  readonly startedAt: Date;
+  endedAt?: Date;
+  participants: ICallParticipant[] = [];
+
+  constructor(
+    id: CallId,
+    owner: ISessionOwner,
+    title: string | null,
+    startedAt: Date = new Date()
+  ) {
+    this.id = id;
+    this.createdBy = owner.userId;
+    this.organizationId = owner.organizationId;
+    this.title = title;
+    this.startedAt = startedAt;
+    this.status = CallStatus.ACTIVE;
+  }
+
+  static create(owner: ISessionOwner, title: string | null = null): Call {
+    return new Call(new CallId(), owner, title);
+  }
+
+  /**
+   * Add a participant, or mark a returning one as present again
+   */
+  join(userId: string, name: string): ICallParticipant {
+    if (!this.isActive()) {
+      throw new Error(`Cannot join a call in ${this.status} status`);
+    }
+
+    const existing = this.findParticipant(userId);
+    if (existing) {
+      existing.name = name;
+      delete existing.leftAt;
+      return existing;
+    }
+
+    const participant = { userId, name, joinedAt: new Date() };
+    this.participants.push(participant);
+    return participant;
+  }
+
+  leave(userId: string): void {
+    const participant = this.findParticipant(userId);
+    if (participant && !participant.leftAt) {
+      participant.leftAt = new Date();
+    }
+  }
+
+  end(): void {
+    if (!this.isActive()) {
+      return;
+    }
+
+    const now = new Date();
+    for (const participant of this.participants) {
+      participant.leftAt ??= now;
+    }
+    this.status = CallStatus.ENDED;
+    this.endedAt = now;
+  }
+
+  findParticipant(userId: string): ICallParticipant | undefined {
+    return this.participants.find((p) => p.userId === userId);
+  }
+
+  hasParticipant(userId: string): boolean {
+    return this.findParticipant(userId) !== undefined;
+  }
+
+  getPresentParticipants(): ICallParticipant[] {
+    return this.participants.filter((p) => !p.leftAt);
+  }
+
+  /**
+   * Offset of an instant on the call timeline, used to place each
+   * participant's session-relative timestamps on a shared clock
+   */
+  getOffsetMs(at: Date): number {
+    return Math.max(0, at.getTime() - this.startedAt.getTime());
+  }
+
+  isActive(): boolean {
+    return this.status === CallStatus.ACTIVE;
+  }
+}
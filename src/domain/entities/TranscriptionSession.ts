@@ -4,45 +4,173 @@ import { AudioConfig } from "../value-objects/AudioConfig";
 export enum SessionStatus {
   PENDING = "pending",
   ACTIVE = "active",
+  PAUSED = "paused",
   STOPPING = "stopping",
   STOPPED = "stopped",
   ERROR = "error",
 }
 
+/**
+ * Kinds of content an organization can have redacted from transcripts
+ */
+export const REDACTION_ENTITIES = [
+  "email",
+  "phone_number",
+  "card_number",
+  "national_id",
+  "profanity",
+] as const;
+
+export type RedactionEntity = (typeof REDACTION_ENTITIES)[number];
+
 export interface ITranscriptionToken {
   text: string;
   confidence: number;
   start_ms: number;
   end_ms: number;
+  speaker?: string; // diarization id assigned by the provider, e.g. "1"
+  language?: string; // language detected by the provider, e.g. "en"
+  segment?: number; // index of the utterance the token belongs to
+  redacted?: RedactionEntity; // what the text hides, if it was redacted
+}
+
+/**
+ * Audit record of a redacted token. The original text is only kept when
+ * the organization chose to keep unredacted transcripts for its admins.
+ */
+export interface ITokenRedaction {
+  seq: number; // index of the token in the results
+  entity: RedactionEntity;
+  start_ms: number;
+  end_ms: number;
+  original_text: string | null;
+}
+
+/**
+ * A diarized speaker and the name users gave it, if any
+ */
+export interface ISessionSpeaker {
+  id: string;
+  name: string | null;
+  label: string;
+}
+
+/**
+ * Consecutive final tokens spoken by the same speaker
+ */
+export interface ISpeakerTurn {
+  speaker?: string;
+  label?: string;
+  language?: string; // most common detected language of the turn
+  start_ms: number;
+  end_ms: number;
+  text: string;
+}
+
+/**
+ * One utterance: the final tokens between two endpoints the provider
+ * detected
+ */
+export interface ITranscriptSegment {
+  index: number;
+  speaker?: string; // speaker of the first token
+  language?: string; // most common detected language of the segment
+  start_ms: number;
+  end_ms: number;
+  text: string;
+}
+
+/**
+ * Translation of a run of final tokens into one target language
+ */
+export interface ITranslationSegment {
+  language: string;
+  text: string;
+  source_text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+/**
+ * Per-session settings chosen by the client at start
+ */
+export interface ISessionOptions {
+  audioConfig?: AudioConfig;
+  targetLanguages?: string[];
+  languageHints?: string[]; // languages the provider should expect
+  callId?: string | null; // the call this participant's audio belongs to
+  record?: boolean; // keep the client's audio for replay
+}
+
+/**
+ * The authenticated user (and their active organization) a session belongs to
+ */
+export interface ISessionOwner {
+  userId: string;
+  organizationId: string | null;
 }
 
 export class TranscriptionSession {
   readonly id: SessionId;
   readonly socketId: string;
+  readonly userId: string;
+  readonly organizationId: string | null;
   status: SessionStatus;
   readonly audioConfig: AudioConfig;
   readonly startedAt: Date;
   endedAt?: Date;
   results: ITranscriptionToken[] = [];
+  targetLanguages: string[] = [];
+  languageHints: string[] = [];
+  translations: ITranslationSegment[] = [];
+  redactions: ITokenRedaction[] = []; // redactions made while transcribing
+  speakerNames: Record<string, string> = {};
+  callId: string | null = null;
+  audioDurationMs: number = 0; // metered client audio; written by the usage meter
+  recordingKey: string | null = null; // storage key of the recorded audio, if any
   errorMessage?: string;
+  private utteranceEnded = false; // the next result starts a new segment
 
   constructor(
     id: SessionId,
     socketId: string,
+    owner: ISessionOwner,
     audioConfig: AudioConfig,
     startedAt: Date = new Date()
   ) {
     this.id = id;
     this.socketId = socketId;
+    this.userId = owner.userId;
+    this.organizationId = owner.organizationId;
     this.audioConfig = audioConfig;
     this.startedAt = startedAt;
     this.status = SessionStatus.PENDING;
   }
 
-  static create(socketId: string): TranscriptionSession {
+  static create(
+    socketId: string,
+    owner: ISessionOwner,
+    options: ISessionOptions = {}
+  ): TranscriptionSession {
     const sessionId = new SessionId();
-    const audioConfig = AudioConfig.default();
-    return new TranscriptionSession(sessionId, socketId, audioConfig);
+    const audioConfig = options.audioConfig ?? AudioConfig.default();
+    const session = new TranscriptionSession(
+      sessionId,
+      socketId,
+      owner,
+      audioConfig
+    );
+    session.targetLanguages = options.targetLanguages ?? [];
+    session.languageHints = options.languageHints ?? [];
+    session.callId = options.callId ?? null;
+    session.recordingKey = options.record
+      ? `${sessionId.toString()}.${audioConfig.getFileExtension()}`
+      : null;
+    return session;
+  }
+
+  isOwnedBy(userId: string): boolean {
+    return this.userId === userId;
   }
 
   activate(): void {
@@ -55,16 +183,79 @@ export class TranscriptionSession {
   }
 
   addResult(token: ITranscriptionToken): void {
+    if (!this.isAcceptingResults()) {
+      throw new Error(
+        `Cannot add results to session in ${this.status} status. Session must be ACTIVE, PAUSED or STOPPING.`
+      );
+    }
+    const last = this.results[this.results.length - 1];
+    const segment = last
+      ? (last.segment ?? 0) + (this.utteranceEnded ? 1 : 0)
+      : 0;
+    this.results.push({ ...token, segment });
+    this.utteranceEnded = false;
+  }
+
+  /**
+   * Close the current utterance at a provider endpoint. Returns the
+   * closed segment, or null when there is nothing to close.
+   */
+  endUtterance(): ITranscriptSegment | null {
+    const last = this.results[this.results.length - 1];
+    if (!last || this.utteranceEnded) {
+      return null;
+    }
+    this.utteranceEnded = true;
+
+    const index = last.segment ?? 0;
+    return toSegment(
+      index,
+      this.results.filter((token) => (token.segment ?? 0) === index)
+    );
+  }
+
+  /**
+   * Record that the token at seq was redacted; call after adding it
+   */
+  addRedaction(redaction: ITokenRedaction): void {
+    if (!this.results[redaction.seq]) {
+      throw new Error(`Cannot record a redaction of missing token ${redaction.seq}`);
+    }
+    this.redactions.push(redaction);
+  }
+
+  pause(): void {
     if (this.status !== SessionStatus.ACTIVE) {
       throw new Error(
-        `Cannot add results to session in ${this.status} status. Session must be ACTIVE.`
+        `Cannot pause session in ${this.status} status. Must be ACTIVE.`
+      );
+    }
+    this.status = SessionStatus.PAUSED;
+  }
+
+  resume(): void {
+    if (this.status !== SessionStatus.PAUSED) {
+      throw new Error(
+        `Cannot resume session in ${this.status} status. Must be PAUSED.`
       );
     }
-    this.results.push(token);
+    this.status = SessionStatus.ACTIVE;
+  }
+
+  addTranslation(segment: ITranslationSegment): void {
+    if (!this.isAcceptingResults()) {
+      throw new Error(
+        `Cannot add translations to session in ${this.status} status. Session must be ACTIVE, PAUSED or STOPPING.`
+      );
+    }
+    this.translations.push(segment);
   }
 
   markForStopping(): void {
-    if (this.status === SessionStatus.ACTIVE) {
+    if (
+      this.status === SessionStatus.ACTIVE ||
+      this.status === SessionStatus.PAUSED
+    ) {
       this.status = SessionStatus.STOPPING;
     }
   }
@@ -81,7 +272,121 @@ export class TranscriptionSession {
   }
 
   getTranscribedText(): string {
-    return this.results.map((token) => token.text).join(" ");
+    return joinTokenText(this.results);
+  }
+
+  /**
+   * Transcript text with the kept originals of redacted tokens put back
+   */
+  getUnredactedText(redactions: ITokenRedaction[]): string {
+    const originals = new Map<number, string>();
+    for (const redaction of redactions) {
+      if (redaction.original_text !== null) {
+        originals.set(redaction.seq, redaction.original_text);
+      }
+    }
+
+    return joinTokenText(
+      this.results.map((token, seq) => ({
+        text: originals.get(seq) ?? token.text,
+      }))
+    );
+  }
+
+  /**
+   * Languages detected in the final results, most spoken first
+   */
+  getDetectedLanguages(): string[] {
+    return rankLanguages(this.results);
+  }
+
+  /**
+   * Set or (with null) clear the display name of a speaker
+   */
+  renameSpeaker(speakerId: string, name: string | null): void {
+    if (name === null) {
+      delete this.speakerNames[speakerId];
+    } else {
+      this.speakerNames[speakerId] = name;
+    }
+  }
+
+  getSpeakerLabel(speakerId: string): string {
+    return this.speakerNames[speakerId] ?? `Speaker ${speakerId}`;
+  }
+
+  /**
+   * Speakers in order of first appearance, plus named speakers that have
+   * not spoken in the persisted results yet
+   */
+  getSpeakers(): ISessionSpeaker[] {
+    const ids = new Set<string>();
+    for (const token of this.results) {
+      if (token.speaker !== undefined) {
+        ids.add(token.speaker);
+      }
+    }
+    for (const id of Object.keys(this.speakerNames)) {
+      ids.add(id);
+    }
+
+    return [...ids].map((id) => ({
+      id,
+      name: this.speakerNames[id] ?? null,
+      label: this.getSpeakerLabel(id),
+    }));
+  }
+
+  /**
+   * Final results grouped into utterances, in order
+   */
+  getSegments(): ITranscriptSegment[] {
+    const groups = new Map<number, ITranscriptionToken[]>();
+    for (const token of this.results) {
+      const index = token.segment ?? 0;
+      const group = groups.get(index);
+      if (group) {
+        group.push(token);
+      } else {
+        groups.set(index, [token]);
+      }
+    }
+
+    return [...groups.entries()]
+      .map(([index, tokens]) => toSegment(index, tokens))
+      .filter((segment) => segment.text !== "");
+  }
+
+  getSpeakerTurns(): ISpeakerTurn[] {
+    const turns: Array<ISpeakerTurn & { tokens: ITranscriptionToken[] }> = [];
+
+    for (const token of this.results) {
+      const last = turns[turns.length - 1];
+      if (last && last.speaker === token.speaker) {
+        last.tokens.push(token);
+        last.end_ms = token.end_ms;
+      } else {
+        turns.push({
+          speaker: token.speaker,
+          label:
+            token.speaker !== undefined
+              ? this.getSpeakerLabel(token.speaker)
+              : undefined,
+          start_ms: token.start_ms,
+          end_ms: token.end_ms,
+          text: "",
+          tokens: [token],
+        });
+      }
+    }
+
+    return turns
+      .map(({ tokens, ...turn }) => ({
+        ...turn,
+        language: rankLanguages(tokens)[0],
+        text: joinTokenText(tokens),
+      }))
+      .filter((turn) => turn.text !== "");
   }
 
   getDurationMs(): number {
@@ -93,6 +398,22 @@ export class TranscriptionSession {
     return this.status === SessionStatus.ACTIVE;
   }
 
+  isPaused(): boolean {
+    return this.status === SessionStatus.PAUSED;
+  }
+
+  /**
+   * Final results may still arrive after a pause or while the provider
+   * flushes on stop
+   */
+  isAcceptingResults(): boolean {
+    return (
+      this.status === SessionStatus.ACTIVE ||
+      this.status === SessionStatus.PAUSED ||
+      this.status === SessionStatus.STOPPING
+    );
+  }
+
   isStopped(): boolean {
     return this.status === SessionStatus.STOPPED;
   }
@@ -101,3 +422,60 @@ export class TranscriptionSession {
     return this.status === SessionStatus.ERROR;
   }
 }
+
+/**
+ * Join token text into readable text. Tokens carry their own spacing
+ * (words start with whitespace, word pieces do not), so they are
+ * concatenated as-is and only the whitespace is normalized.
+ */
+export function joinTokenText(tokens: Array<{ text: string }>): string {
+  return tokens
+    .map((token) => token.text)
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Group tokens into words: a token starting with whitespace begins a new
+ * word, the tokens after it up to the next such token are its pieces
+ */
+export function groupTokenWords<T extends { text: string }>(tokens: T[]): T[][] {
+  const words: T[][] = [];
+  for (const token of tokens) {
+    const word = words[words.length - 1];
+    if (word && !/^\s/.test(token.text)) {
+      word.push(token);
+    } else {
+      words.push([token]);
+    }
+  }
+  return words;
+}
+
+function toSegment(index: number, tokens: ITranscriptionToken[]): ITranscriptSegment {
+  return {
+    index,
+    speaker: tokens[0]?.speaker,
+    language: rankLanguages(tokens)[0],
+    start_ms: tokens[0]?.start_ms ?? 0,
+    end_ms: tokens[tokens.length - 1]?.end_ms ?? 0,
+    text: joinTokenText(tokens),
+  };
+}
+
+/**
+ * Detected languages of the tokens, by number of tokens (ties keep first
+ * appearance)
+ */
+export function rankLanguages(tokens: Array<{ language?: string }>): string[] {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    if (token.language) {
+      counts.set(token.language, (counts.get(token.language) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([language]) => language);
+}
@@ -0,0 +1,6 @@
+export class CapacityExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CapacityExceededError";
+  }
+}
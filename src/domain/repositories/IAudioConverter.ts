@@ -0,0 +1,15 @@
+import { AudioConfig } from "../value-objects/AudioConfig";
+
+export interface IAudioConverter {
+  /**
+   * Convert the next chunk of a continuous stream. Implementations keep
+   * state between calls (partial frames, filter and resampler history),
+   * so one instance serves exactly one stream.
+   */
+  convert(chunk: Uint8Array): Uint8Array;
+}
+
+export type AudioConverterFactory = (
+  input: AudioConfig,
+  output: AudioConfig
+) => IAudioConverter;
@@ -0,0 +1,36 @@
+/**
+ * Inclusive byte range of a stored object
+ */
+export interface IByteRange {
+  start: number;
+  end: number;
+}
+
+export interface IAudioStorageWriter {
+  append(data: Uint8Array): Promise<void>;
+  /**
+   * Finish the object. A header, when given, overwrites its first bytes
+   * (e.g. sizes only known once the stream ends).
+   */
+  close(header?: Uint8Array): Promise<void>;
+  /**
+   * Discard a partially written object
+   */
+  abort(): Promise<void>;
+}
+
+/**
+ * Blob storage for recorded session audio
+ */
+export interface IAudioStorage {
+  createWriter(key: string): Promise<IAudioStorageWriter>;
+  /**
+   * Size in bytes, or null when the object does not exist
+   */
+  getSize(key: string): Promise<number | null>;
+  read(key: string, range?: IByteRange): AsyncIterable<Uint8Array>;
+  /**
+   * Remove an object; missing objects are ignored
+   */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import { Call } from "../entities/Call";
+
+export interface ICallRepository {
+  /**
+   * Save a new call with its participants
+   */
+  save(call: Call): Promise<void>;
+
+  /**
+   * Update a call's status and upsert its participants
+   */
+  update(call: Call): Promise<void>;
+
+  /**
+   * Find a call by its ID, including participants
+   */
+  findById(callId: string): Promise<Call | null>;
+}
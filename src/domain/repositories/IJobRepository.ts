@@ -0,0 +1,90 @@
+import type { IPaginatedResult } from "./ITranscriptionRepository";
+
+export enum JobStatus {
+  PENDING = "pending", // waiting for its run time
+  RUNNING = "running", // claimed by a worker
+  COMPLETED = "completed",
+  DEAD = "dead", // out of attempts; kept for inspection and manual retry
+}
+
+/**
+ * A unit of background work, persisted so it survives restarts
+ */
+export interface IJob {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number; // attempts started so far, including the running one
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface INewJob {
+  type: string;
+  payload: Record<string, unknown>;
+  runAt?: Date; // defaults to now
+  maxAttempts?: number;
+}
+
+export interface IJobQuery {
+  status?: JobStatus;
+  type?: string;
+  limit: number;
+  offset: number;
+}
+
+export type JobStatusCounts = Record<JobStatus, number>;
+
+export interface IJobRepository {
+  enqueue(job: INewJob): Promise<IJob>;
+
+  /**
+   * Lock the next due job of the given types and count the attempt. Jobs
+   * left running by a worker that locked them before staleBefore are
+   * claimed again while they have attempts left. Concurrent workers never
+   * claim the same job.
+   */
+  claimNext(types: string[], now: Date, staleBefore: Date): Promise<IJob | null>;
+
+  complete(jobId: string): Promise<void>;
+
+  /**
+   * Put a failed job back in the queue to run again at runAt
+   */
+  retry(jobId: string, runAt: Date, error: string): Promise<void>;
+
+  /**
+   * Give up on a failed job
+   */
+  deadLetter(jobId: string, error: string): Promise<void>;
+
+  /**
+   * Give up on jobs of the given types left running by a worker that
+   * locked them before staleBefore and already used their last attempt
+   */
+  deadLetterStale(types: string[], staleBefore: Date, error: string): Promise<IJob[]>;
+
+  /**
+   * Queue a dead job again with a fresh set of attempts
+   */
+  requeue(jobId: string, runAt: Date): Promise<void>;
+
+  findById(jobId: string): Promise<IJob | null>;
+
+  /**
+   * List jobs, newest first
+   */
+  findMany(query: IJobQuery): Promise<IPaginatedResult<IJob>>;
+
+  countByStatus(): Promise<JobStatusCounts>;
+
+  /**
+   * Delete jobs that completed before the given time; returns how many
+   */
+  deleteCompletedBefore(completedBefore: Date): Promise<number>;
+}
@@ -0,0 +1,11 @@
+export interface IOrganizationMembership {
+  organizationId: string;
+  role: string;
+}
+
+export interface IMembershipRepository {
+  /**
+   * Find all organization memberships of a user
+   */
+  findByUserId(userId: string): Promise<IOrganizationMembership[]>;
+}
@@ -0,0 +1,25 @@
+import type { RedactionEntity } from "../entities/TranscriptionSession";
+
+/**
+ * What to hide in an organization's transcripts, and how
+ */
+export interface IRedactionSettings {
+  entities: RedactionEntity[];
+  mode: "mask" | "tag"; // "***-***-****" or "[PHONE_NUMBER]"
+  keepOriginal: boolean; // keep the unredacted text for organization admins
+}
+
+export interface IOrganizationSettings {
+  transcriptionProvider?: string;
+  monthlyMinuteLimit?: number; // overrides the server-wide default; 0 means unlimited
+  recordingRetentionDays?: number; // overrides the server-wide default; 0 keeps recordings
+  languageHints?: string[]; // default spoken languages of members' sessions
+  redaction?: IRedactionSettings; // none means transcripts are kept as spoken
+}
+
+export interface IOrganizationSettingsRepository {
+  /**
+   * Find an organization's settings; empty when none are stored
+   */
+  findByOrganizationId(organizationId: string): Promise<IOrganizationSettings>;
+}
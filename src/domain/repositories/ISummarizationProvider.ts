@@ -0,0 +1,33 @@
+import type { ISpeakerTurn } from "../entities/TranscriptionSession";
+
+/**
+ * A task someone took on or was asked to do during the session
+ */
+export interface IActionItem {
+  text: string;
+  assignee: string | null; // diarization id of the speaker expected to do it
+  start_ms: number;
+}
+
+/**
+ * Something the participants settled on during the session
+ */
+export interface IDecision {
+  text: string;
+  start_ms: number;
+}
+
+export interface ISummaryContent {
+  summary: string;
+  actionItems: IActionItem[];
+  decisions: IDecision[];
+}
+
+export interface ISummarizationProvider {
+  readonly name: string; // stored with each summary, e.g. "rule-based"
+
+  /**
+   * Summarize a transcript given as speaker turns in spoken order
+   */
+  summarize(turns: ISpeakerTurn[]): Promise<ISummaryContent>;
+}
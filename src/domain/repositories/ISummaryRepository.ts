@@ -0,0 +1,19 @@
+import type { ISummaryContent } from "./ISummarizationProvider";
+
+/**
+ * The stored summary of a stopped session
+ */
+export interface ITranscriptSummary extends ISummaryContent {
+  sessionId: string;
+  provider: string;
+  generatedAt: Date;
+}
+
+export interface ISummaryRepository {
+  findBySessionId(sessionId: string): Promise<ITranscriptSummary | null>;
+
+  /**
+   * Store a session's summary, replacing any earlier one
+   */
+  save(summary: ITranscriptSummary): Promise<void>;
+}
@@ -0,0 +1,59 @@
+import type { ITranscriptSegment } from "../entities/TranscriptionSession";
+
+export const EXPORT_FORMATS = ["srt", "vtt", "txt", "md", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Minimal token shape needed to build cues; ITranscriptionToken satisfies it
+ */
+export interface IExportToken {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  speaker?: string;
+  language?: string;
+  segment?: number; // utterance index
+}
+
+/**
+ * A timed block of text, rendered as one subtitle cue or transcript line.
+ * speaker holds the display label (e.g. "Alice" or "Speaker 1").
+ */
+export interface ITranscriptCue {
+  start_ms: number;
+  end_ms: number;
+  text: string;
+  lines: string[];
+  speaker?: string;
+  language?: string; // most common detected language of its tokens
+}
+
+export interface ITranscriptDocument {
+  sessionId: string;
+  startedAt: Date;
+  endedAt?: Date;
+  durationMs: number;
+  text: string;
+  cues: ITranscriptCue[];
+  /** Cues merged into consecutive same-speaker paragraphs */
+  turns: ITranscriptCue[];
+  /** Diarization ids used by tokens, with their display labels */
+  speakers: Array<{ id: string; label: string }>;
+  /** Detected languages, most spoken first */
+  languages: string[];
+  /** Utterances split at the provider's endpoints */
+  segments: ITranscriptSegment[];
+  tokens: IExportToken[];
+}
+
+export interface ITranscriptExporter {
+  readonly format: ExportFormat;
+  readonly contentType: string;
+  readonly fileExtension: string;
+
+  /**
+   * Render a transcript document into the target format
+   */
+  render(document: ITranscriptDocument): string;
+}
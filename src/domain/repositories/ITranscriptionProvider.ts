@@ -1,14 +1,23 @@
 import { AudioConfig } from "../value-objects/AudioConfig";
+import type { RedactionEntity } from "../entities/TranscriptionSession";
 
+/**
+ * Tokens carry their own spacing: a token starting a new word begins with
+ * whitespace, so text is rebuilt by concatenating tokens as they are
+ */
 export interface ITranscriptionResult {
   tokens: Array<{
     text: string;
     confidence: number;
     start_ms: number;
     end_ms: number;
+    speaker?: string;
+    language?: string; // detected language, e.g. "en"
+    redacted?: RedactionEntity; // set once the text was redacted
   }>;
   is_final: boolean;
-  speaker?: string;
+  speaker?: string; // speaker of the first token
+  utterance_end?: boolean; // final tokens closing an utterance; tokens may be empty
 }
 
 export interface ITranscriptionError {
@@ -16,22 +25,68 @@ export interface ITranscriptionError {
   details?: string;
 }
 
+/**
+ * Transient connection state changes. While reconnecting, audio is
+ * buffered and replayed once the connection is back.
+ */
+export interface ITranscriptionConnectionEvent {
+  type: "reconnecting" | "reconnected";
+  attempt: number;
+  delay_ms?: number; // reconnecting: wait before this attempt
+}
+
+/**
+ * Per-stream hints that improve recognition; providers that cannot use a
+ * hint ignore it
+ */
+export interface ITranscriptionStreamOptions {
+  vocabulary?: string[]; // domain terms to favour, e.g. product and people's names
+  languageHints?: string[]; // languages expected in the audio; empty means any
+}
+
 export interface ITranscriptionProvider {
   /**
-   * Connect to the transcription service
+   * Connect to the transcription service; sendAudio will deliver audio
+   * in the given format. onError is only called for failures the
+   * provider cannot recover from.
    */
   connect(
+    audioConfig: AudioConfig,
     onResult: (result: ITranscriptionResult) => void,
-    onError: (error: ITranscriptionError) => void
+    onError: (error: ITranscriptionError) => void,
+    onConnectionEvent?: (event: ITranscriptionConnectionEvent) => void,
+    options?: ITranscriptionStreamOptions
   ): Promise<void>;
 
+  /**
+   * Raw PCM format the provider prefers; audio it cannot ingest natively
+   * is converted to this before sendAudio
+   */
+  getAudioConfig(): AudioConfig;
+
+  /**
+   * Whether audio in this format can be sent as-is, without conversion
+   */
+  supportsAudioFormat(audioConfig: AudioConfig): boolean;
+
   /**
    * Send audio chunk to the provider
    */
   sendAudio(audioData: Uint8Array): void;
 
   /**
-   * Close the connection gracefully
+   * Stop expecting audio while keeping the connection open
+   */
+  pause(): void;
+
+  /**
+   * Resume expecting audio after a pause
+   */
+  resume(): void;
+
+  /**
+   * Close the connection gracefully, delivering the remaining finals; the
+   * last result ends the utterance still open
    */
   close(): Promise<void>;
 
@@ -40,3 +95,11 @@ export interface ITranscriptionProvider {
    */
   isConnected(): boolean;
 }
+
+/**
+ * Creates a provider for one client; each instance owns a single
+ * streaming connection
+ */
+export type TranscriptionProviderFactory = (
+  clientId: string
+) => ITranscriptionProvider;
@@ -1,4 +1,72 @@
-import { TranscriptionSession } from "../entities/TranscriptionSession";
+import {
+  TranscriptionSession,
+  SessionStatus,
+  type ITokenRedaction,
+  type ITranscriptionToken,
+} from "../entities/TranscriptionSession";
+
+/**
+ * Sessions a user may see: their own, plus those of their organizations
+ */
+export interface ITranscriptionAccessScope {
+  userId: string;
+  organizationIds: string[];
+}
+
+export interface ITranscriptionQuery {
+  scope: ITranscriptionAccessScope;
+  status?: SessionStatus;
+  organizationId?: string;
+  startedFrom?: Date;
+  startedTo?: Date;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Full-text search over transcripts visible within an access scope
+ */
+export interface ITranscriptSearchQuery {
+  scope: ITranscriptionAccessScope;
+  text: string; // web search syntax: words, "quoted phrases", -excluded, or
+  organizationId?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A listed session, loaded without its tokens, with the figures list
+ * views take from them
+ */
+export interface ITranscriptionListItem {
+  session: TranscriptionSession; // results are not loaded
+  tokenCount: number;
+  detectedLanguages: string[]; // most spoken first
+}
+
+export interface ITranscriptSearchHit extends ITranscriptionListItem {
+  snippet: string; // HTML-escaped excerpt with matches wrapped in <mark>
+}
+
+export interface IPaginatedResult<T> {
+  items: T[];
+  total: number;
+}
+
+/**
+ * A session's recorded audio in storage
+ */
+export interface IStoredRecording {
+  sessionId: string;
+  recordingKey: string;
+}
+
+/**
+ * A stored redaction, kept as an audit of what was hidden
+ */
+export interface IStoredRedaction extends ITokenRedaction {
+  redactedAt: Date;
+}
 
 export interface ITranscriptionRepository {
   /**
@@ -7,12 +75,31 @@ export interface ITranscriptionRepository {
   save(session: TranscriptionSession): Promise<void>;
 
   /**
-   * Update an existing transcription session
+   * Update an existing transcription session. Tokens are stored by
+   * appendTokens, not here.
    */
   update(session: TranscriptionSession): Promise<void>;
 
   /**
-   * Find a session by its ID
+   * Append final tokens numbered from firstSeq (their index in the
+   * transcript), along with the redactions of those tokens, and extend the
+   * session's transcribed text. Tokens already stored under those numbers
+   * are skipped, so retrying a batch is safe.
+   */
+  appendTokens(
+    sessionId: string,
+    firstSeq: number,
+    tokens: ITranscriptionToken[],
+    redactions?: ITokenRedaction[]
+  ): Promise<void>;
+
+  /**
+   * Redactions made in a session's transcript, in transcript order
+   */
+  findRedactions(sessionId: string): Promise<IStoredRedaction[]>;
+
+  /**
+   * Find a session by its ID, including speaker names
    */
   findById(sessionId: string): Promise<TranscriptionSession | null>;
 
@@ -30,4 +117,60 @@ export interface ITranscriptionRepository {
    * Find all sessions for a user
    */
   findByUserId(userId: string): Promise<TranscriptionSession[]>;
+
+  /**
+   * Find the participant sessions of a call, oldest first
+   */
+  findByCallId(callId: string): Promise<TranscriptionSession[]>;
+
+  /**
+   * List sessions visible within an access scope, newest first
+   */
+  findMany(query: ITranscriptionQuery): Promise<IPaginatedResult<ITranscriptionListItem>>;
+
+  /**
+   * Sessions whose transcript matches the search, best match first
+   */
+  search(query: ITranscriptSearchQuery): Promise<IPaginatedResult<ITranscriptSearchHit>>;
+
+  /**
+   * Final tokens of the words in the given sessions that are one of the
+   * given words (lowercase), at most limit words per session, in
+   * transcript order. Words are grouped like groupTokenWords does, so a
+   * word split over several tokens is matched whole and all its tokens
+   * are returned.
+   */
+  findMatchingWords(
+    sessionIds: string[],
+    words: string[],
+    limit: number
+  ): Promise<Map<string, ITranscriptionToken[]>>;
+
+  /**
+   * Store a speaker's display name, or remove it when name is null
+   */
+  saveSpeakerName(
+    sessionId: string,
+    speakerId: string,
+    name: string | null
+  ): Promise<void>;
+
+  /**
+   * Organizations (null for personal sessions) that have recordings stored
+   */
+  findRecordingOrganizationIds(): Promise<(string | null)[]>;
+
+  /**
+   * Recordings of sessions that ended before the given time, oldest first
+   */
+  findRecordingsEndedBefore(
+    organizationId: string | null,
+    endedBefore: Date,
+    limit: number
+  ): Promise<IStoredRecording[]>;
+
+  /**
+   * Forget a session's recording after its audio was deleted
+   */
+  clearRecording(sessionId: string): Promise<void>;
 }
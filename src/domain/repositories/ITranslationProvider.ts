@@ -0,0 +1,11 @@
+export interface ITranslationProvider {
+  /**
+   * Translate text into the target language (BCP 47 code, e.g. "es").
+   * The source language is auto-detected when omitted.
+   */
+  translate(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string
+  ): Promise<string>;
+}
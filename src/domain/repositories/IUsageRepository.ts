@@ -0,0 +1,39 @@
+/**
+ * Audio metered for one session since the last write
+ */
+export interface IUsageIncrement {
+  sessionId: string;
+  userId: string;
+  organizationId: string | null;
+  periodStart: Date;
+  audioMs: number;
+}
+
+export interface IUserUsage {
+  userId: string;
+  audioMs: number;
+}
+
+export interface IOrganizationUsage {
+  organizationId: string;
+  audioMs: number;
+  users: IUserUsage[]; // highest usage first
+}
+
+export interface IUsageRepository {
+  /**
+   * Add audio to the session and to its user's and organization's totals
+   * for the period
+   */
+  record(increment: IUsageIncrement): Promise<void>;
+
+  getOrganizationUsage(
+    organizationId: string,
+    periodStart: Date
+  ): Promise<IOrganizationUsage>;
+
+  /**
+   * Usage of the user's sessions outside any organization
+   */
+  getPersonalUsageMs(userId: string, periodStart: Date): Promise<number>;
+}
@@ -0,0 +1,10 @@
+export interface IUserSettings {
+  languageHints?: string[]; // default spoken languages of the user's sessions
+}
+
+export interface IUserSettingsRepository {
+  /**
+   * Find a user's settings; empty when none are stored
+   */
+  findByUserId(userId: string): Promise<IUserSettings>;
+}
@@ -0,0 +1,38 @@
+/**
+ * A domain term of an organization (product, person, medical term) and
+ * the ways speech recognition tends to mishear it
+ */
+export interface IVocabularyTerm {
+  id: string;
+  organizationId: string;
+  term: string;
+  misspellings: string[]; // replaced by the term in final transcripts
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface INewVocabularyTerm {
+  organizationId: string;
+  term: string;
+  misspellings: string[];
+  createdBy: string;
+}
+
+export interface IVocabularyRepository {
+  create(term: INewVocabularyTerm): Promise<IVocabularyTerm>;
+
+  findById(termId: string): Promise<IVocabularyTerm | null>;
+
+  /**
+   * An organization's glossary in alphabetical order
+   */
+  findByOrganizationId(organizationId: string): Promise<IVocabularyTerm[]>;
+
+  update(
+    termId: string,
+    changes: { term: string; misspellings: string[] }
+  ): Promise<IVocabularyTerm>;
+
+  delete(termId: string): Promise<void>;
+}
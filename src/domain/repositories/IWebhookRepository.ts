@@ -0,0 +1,99 @@
+export enum WebhookDeliveryStatus {
+  PENDING = "pending", // queued or waiting for a retry
+  SUCCEEDED = "succeeded",
+  FAILED = "failed", // out of attempts
+}
+
+/**
+ * An organization's URL that receives signed session events
+ */
+export interface IWebhookEndpoint {
+  id: string;
+  organizationId: string;
+  url: string;
+  secret: string; // HMAC key shared with the receiver
+  events: string[]; // event types the endpoint subscribed to
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface INewWebhookEndpoint {
+  organizationId: string;
+  url: string;
+  secret: string;
+  events: string[];
+  createdBy: string;
+}
+
+/**
+ * One event sent (or to be sent) to one endpoint
+ */
+export interface IWebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null; // HTTP status of the last attempt
+  lastError: string | null;
+  lastAttemptAt: Date | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
+export interface INewWebhookDelivery {
+  endpointId: string;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one POST to an endpoint
+ */
+export interface IWebhookAttempt {
+  status: WebhookDeliveryStatus;
+  responseStatus: number | null; // null when no response arrived
+  error: string | null;
+  attemptedAt: Date;
+}
+
+export interface IWebhookRepository {
+  createEndpoint(endpoint: INewWebhookEndpoint): Promise<IWebhookEndpoint>;
+
+  findEndpointById(endpointId: string): Promise<IWebhookEndpoint | null>;
+
+  /**
+   * Endpoints of an organization, oldest first
+   */
+  findEndpointsByOrganizationId(organizationId: string): Promise<IWebhookEndpoint[]>;
+
+  /**
+   * Delete an endpoint and its delivery history
+   */
+  deleteEndpoint(endpointId: string): Promise<void>;
+
+  createDelivery(delivery: INewWebhookDelivery): Promise<IWebhookDelivery>;
+
+  findDeliveryById(deliveryId: string): Promise<IWebhookDelivery | null>;
+
+  /**
+   * Count an attempt and store its outcome
+   */
+  recordAttempt(deliveryId: string, attempt: IWebhookAttempt): Promise<void>;
+
+  /**
+   * Give up on a delivery still pending, keeping its last attempt
+   */
+  failDelivery(deliveryId: string, error: string): Promise<void>;
+
+  /**
+   * Queue a delivery again with a fresh count of attempts
+   */
+  resetDelivery(deliveryId: string): Promise<void>;
+
+  /**
+   * Latest deliveries to an endpoint, newest first
+   */
+  findDeliveriesByEndpointId(endpointId: string, limit: number): Promise<IWebhookDelivery[]>;
+}
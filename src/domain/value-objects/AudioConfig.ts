@@ -1,34 +1,71 @@
+export type AudioEncoding =
+  | "pcm_s16le"
+  | "pcm_f32le"
+  | "mulaw"
+  | "webm_opus" // MediaRecorder "audio/webm;codecs=opus"
+  | "ogg_opus"; // MediaRecorder "audio/ogg;codecs=opus"
+
+export const SUPPORTED_SAMPLE_RATES = [8000, 16000, 24000, 44100, 48000];
+export const SUPPORTED_ENCODINGS: AudioEncoding[] = [
+  "pcm_s16le",
+  "pcm_f32le",
+  "mulaw",
+  "webm_opus",
+  "ogg_opus",
+];
+export const COMPRESSED_ENCODINGS: AudioEncoding[] = ["webm_opus", "ogg_opus"];
+
+// Compressed streams have no fixed sample width; 0 marks "not applicable"
+const BIT_DEPTHS: Record<AudioEncoding, number> = {
+  pcm_s16le: 16,
+  pcm_f32le: 32,
+  mulaw: 8,
+  webm_opus: 0,
+  ogg_opus: 0,
+};
+
 export interface IAudioConfig {
   sampleRate: number; // e.g., 48000
-  channels: number; // e.g., 1 (mono)
-  bitDepth: number; // e.g., 16
-  format: "pcm16"; // Only PCM16 supported for now
+  channels: number; // 1 (mono) or 2 (stereo)
+  bitDepth?: number; // derived from format when omitted
+  format: AudioEncoding;
 }
 
 export class AudioConfig {
   readonly sampleRate: number;
   readonly channels: number;
   readonly bitDepth: number;
-  readonly format: "pcm16";
+  readonly format: AudioEncoding;
 
   constructor(config: IAudioConfig) {
     // Validate audio config
-    if (config.sampleRate !== 48000) {
-      throw new Error("Only 48kHz sample rate is supported");
+    if (!SUPPORTED_ENCODINGS.includes(config.format)) {
+      throw new Error(
+        `Unsupported audio format "${config.format}". Use one of: ${SUPPORTED_ENCODINGS.join(", ")}`
+      );
     }
-    if (config.channels !== 1) {
-      throw new Error("Only mono (1 channel) is supported");
+    if (!SUPPORTED_SAMPLE_RATES.includes(config.sampleRate)) {
+      throw new Error(
+        `Unsupported sample rate ${config.sampleRate}. Use one of: ${SUPPORTED_SAMPLE_RATES.join(", ")}`
+      );
     }
-    if (config.bitDepth !== 16) {
-      throw new Error("Only 16-bit PCM is supported");
+    if (config.channels !== 1 && config.channels !== 2) {
+      throw new Error("Only mono (1) or stereo (2) audio is supported");
     }
-    if (config.format !== "pcm16") {
-      throw new Error("Only PCM16 format is supported");
+
+    const bitDepth = BIT_DEPTHS[config.format];
+    const isCompressed = COMPRESSED_ENCODINGS.includes(config.format);
+    if (
+      !isCompressed &&
+      config.bitDepth !== undefined &&
+      config.bitDepth !== bitDepth
+    ) {
+      throw new Error(`${config.format} audio must be ${bitDepth}-bit`);
     }
 
     this.sampleRate = config.sampleRate;
     this.channels = config.channels;
-    this.bitDepth = config.bitDepth;
+    this.bitDepth = bitDepth;
     this.format = config.format;
   }
 
@@ -37,14 +74,72 @@ export class AudioConfig {
       sampleRate: 48000,
       channels: 1,
       bitDepth: 16,
-      format: "pcm16",
+      format: "pcm_s16le",
+    });
+  }
+
+  /**
+   * Parse a client-declared config; missing fields fall back to the default
+   */
+  static parse(value: unknown): AudioConfig {
+    if (value === undefined || value === null) {
+      return AudioConfig.default();
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new Error("Audio config must be an object");
+    }
+
+    const fallback = AudioConfig.default();
+    const input = value as Partial<Record<keyof IAudioConfig, unknown>>;
+
+    return new AudioConfig({
+      sampleRate: Number(input.sampleRate ?? fallback.sampleRate),
+      channels: Number(input.channels ?? fallback.channels),
+      bitDepth: input.bitDepth === undefined ? undefined : Number(input.bitDepth),
+      format: String(input.format ?? fallback.format) as AudioEncoding,
     });
   }
 
+  /**
+   * Container/codec streams (e.g. WebM/Opus) as opposed to raw samples
+   */
+  isCompressed(): boolean {
+    return COMPRESSED_ENCODINGS.includes(this.format);
+  }
+
+  /**
+   * Extension of a recording in this format: raw samples are wrapped in
+   * WAV, containers are stored as sent
+   */
+  getFileExtension(): string {
+    switch (this.format) {
+      case "webm_opus":
+        return "webm";
+      case "ogg_opus":
+        return "ogg";
+      default:
+        return "wav";
+    }
+  }
+
   getBytesPerSample(): number {
     return this.bitDepth / 8; // 16-bit = 2 bytes
   }
 
+  getBytesPerFrame(): number {
+    return this.getBytesPerSample() * this.channels;
+  }
+
+  /**
+   * Playback duration of a number of bytes in this format
+   */
+  bytesToDurationMs(bytes: number): number {
+    if (this.isCompressed()) {
+      throw new Error("Duration cannot be derived from compressed audio bytes");
+    }
+    return (bytes / this.getBytesPerFrame() / this.sampleRate) * 1000;
+  }
+
   equals(other: AudioConfig): boolean {
     return (
       this.sampleRate === other.sampleRate &&
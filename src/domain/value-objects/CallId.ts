@@ -0,0 +1,24 @@
+import { randomUUID } from "crypto";
+
+export class CallId {
+  readonly value: string;
+
+  constructor(value?: string) {
+    this.value = value || randomUUID();
+  }
+
+  static fromString(value: string): CallId {
+    if (!value || value.trim() === "") {
+      throw new Error("CallId cannot be empty");
+    }
+    return new CallId(value);
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: CallId): boolean {
+    return this.value === other.value;
+  }
+}
@@ -0,0 +1,53 @@
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+/**
+ * BCP 47 language tag, e.g. "en", "es", "pt-BR"
+ */
+export class LanguageCode {
+  readonly value: string;
+
+  constructor(value: string) {
+    const trimmed = value.trim();
+    if (!LANGUAGE_CODE_PATTERN.test(trimmed)) {
+      throw new Error(`Invalid language code: "${value}"`);
+    }
+
+    // Primary subtag is lowercase by convention; keep region casing as sent
+    const [primary, ...rest] = trimmed.split("-");
+    this.value = [primary!.toLowerCase(), ...rest].join("-");
+  }
+
+  /**
+   * Parse and de-duplicate a client-supplied list of language codes
+   */
+  static parseList(values: unknown, maxLength: number): LanguageCode[] {
+    if (values === undefined || values === null) {
+      return [];
+    }
+    if (!Array.isArray(values)) {
+      throw new Error("Language codes must be an array of strings");
+    }
+    if (values.length > maxLength) {
+      throw new Error(`At most ${maxLength} languages are allowed`);
+    }
+
+    const codes = values.map((value) => {
+      if (typeof value !== "string") {
+        throw new Error("Language codes must be an array of strings");
+      }
+      return new LanguageCode(value);
+    });
+
+    return codes.filter(
+      (code, index) => codes.findIndex((other) => other.equals(code)) === index
+    );
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: LanguageCode): boolean {
+    return this.value.toLowerCase() === other.value.toLowerCase();
+  }
+}
@@ -0,0 +1,38 @@
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+/**
+ * Calendar month (UTC) that usage is metered and limited by, e.g. "2025-03"
+ */
+export class UsagePeriod {
+  readonly start: Date;
+
+  private constructor(year: number, monthIndex: number) {
+    this.start = new Date(Date.UTC(year, monthIndex, 1));
+  }
+
+  static containing(date: Date): UsagePeriod {
+    return new UsagePeriod(date.getUTCFullYear(), date.getUTCMonth());
+  }
+
+  static parse(value: string): UsagePeriod {
+    const match = MONTH_PATTERN.exec(value.trim());
+    const month = match ? Number(match[2]) : 0;
+    if (!match || month < 1 || month > 12) {
+      throw new Error(`Invalid month "${value}". Use YYYY-MM`);
+    }
+    return new UsagePeriod(Number(match[1]), month - 1);
+  }
+
+  /**
+   * First instant of the next period, when limits reset
+   */
+  get end(): Date {
+    return new Date(
+      Date.UTC(this.start.getUTCFullYear(), this.start.getUTCMonth() + 1, 1)
+    );
+  }
+
+  toString(): string {
+    return this.start.toISOString().slice(0, 7);
+  }
+}
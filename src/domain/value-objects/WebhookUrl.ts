@@ -0,0 +1,107 @@
+import { BlockList, isIP } from "net";
+
+/**
+ * Where webhook URLs may point. Outside development, endpoints must use
+ * https and be reachable on the public internet.
+ */
+export interface IWebhookUrlRules {
+  allowHttp: boolean;
+  allowPrivateNetworks: boolean; // loopback, private and link-local targets
+}
+
+// Hosts that never leave the machine or the local network
+const LOCAL_HOST_PATTERN = /(^|\.)(localhost|local|internal)$/i;
+
+const NON_PUBLIC_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata services
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  NON_PUBLIC_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64, may embed any IPv4 address
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  NON_PUBLIC_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+// IPv4 addresses written as IPv6, e.g. "::ffff:127.0.0.1" or "::ffff:7f00:1"
+const IPV4_MAPPED_PATTERN = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+const IPV4_MAPPED_HEX_PATTERN = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i;
+
+/**
+ * Absolute http(s) URL of a webhook endpoint
+ */
+export class WebhookUrl {
+  readonly value: URL;
+
+  constructor(value: string, rules: IWebhookUrlRules) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new Error("url must be an absolute URL");
+    }
+
+    if (url.protocol !== "https:" && !(rules.allowHttp && url.protocol === "http:")) {
+      throw new Error(rules.allowHttp ? "url must use http or https" : "url must use https");
+    }
+    if (url.username || url.password) {
+      throw new Error("url must not contain credentials");
+    }
+
+    // IP literals are checked here; names are checked once resolved, when sending
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (
+      !rules.allowPrivateNetworks &&
+      (LOCAL_HOST_PATTERN.test(host) || (isIP(host) !== 0 && !WebhookUrl.isPublicAddress(host)))
+    ) {
+      throw new Error("url must point to a public host");
+    }
+
+    this.value = url;
+  }
+
+  /**
+   * Whether an IP address is reachable on the public internet, rather than
+   * loopback, private, link-local or reserved
+   */
+  static isPublicAddress(address: string): boolean {
+    const mapped = IPV4_MAPPED_PATTERN.exec(address);
+    if (mapped) {
+      return WebhookUrl.isPublicAddress(mapped[1]!);
+    }
+    const mappedHex = IPV4_MAPPED_HEX_PATTERN.exec(address);
+    if (mappedHex) {
+      const high = parseInt(mappedHex[1]!, 16);
+      const low = parseInt(mappedHex[2]!, 16);
+      return WebhookUrl.isPublicAddress(
+        [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+      );
+    }
+
+    const family = isIP(address);
+    if (family === 0) {
+      return false;
+    }
+    return !NON_PUBLIC_NETWORKS.check(address, family === 4 ? "ipv4" : "ipv6");
+  }
+
+  toString(): string {
+    return this.value.toString();
+  }
+}
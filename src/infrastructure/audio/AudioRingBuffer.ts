@@ -0,0 +1,46 @@
+/**
+ * Bounded FIFO of audio chunks. When full, the oldest chunks are evicted
+ * so the most recent audio survives an outage.
+ */
+export class AudioRingBuffer {
+  private chunks: Uint8Array[] = [];
+  private size = 0;
+
+  constructor(private maxBytes: number) {}
+
+  /**
+   * Append a chunk; returns the number of bytes evicted to make room
+   */
+  push(chunk: Uint8Array): number {
+    let evicted = 0;
+
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+
+    while (this.size > this.maxBytes && this.chunks.length > 0) {
+      const oldest = this.chunks.shift()!;
+      this.size -= oldest.length;
+      evicted += oldest.length;
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Remove and return all buffered chunks, oldest first
+   */
+  drain(): Uint8Array[] {
+    const chunks = this.chunks;
+    this.clear();
+    return chunks;
+  }
+
+  clear(): void {
+    this.chunks = [];
+    this.size = 0;
+  }
+
+  get byteLength(): number {
+    return this.size;
+  }
+}
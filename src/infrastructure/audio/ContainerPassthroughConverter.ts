@@ -0,0 +1,35 @@
+import { AudioConfig } from "../../domain/value-objects/AudioConfig.js";
+import type { IAudioConverter } from "../../domain/repositories/IAudioConverter.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+
+// EBML header (WebM/Matroska) and Ogg page capture pattern
+const WEBM_MAGIC = [0x1a, 0x45, 0xdf, 0xa3];
+const OGG_MAGIC = [0x4f, 0x67, 0x67, 0x53]; // "OggS"
+
+/**
+ * Forwards WebM/Ogg streams untouched for providers that decode them
+ * natively. The first chunk must carry the container header, which is
+ * what MediaRecorder emits before any timeslice data.
+ */
+export class ContainerPassthroughConverter implements IAudioConverter {
+  private sawHeader = false;
+
+  constructor(private input: AudioConfig) {
+    if (!input.isCompressed()) {
+      throw new Error(`${input.format} is not a container format`);
+    }
+  }
+
+  convert(chunk: Uint8Array): Uint8Array {
+    if (!this.sawHeader) {
+      const magic = this.input.format === "webm_opus" ? WEBM_MAGIC : OGG_MAGIC;
+      if (!magic.every((byte, index) => chunk[index] === byte)) {
+        throw new ValidationError(
+          `First audio chunk is not a ${this.input.format === "webm_opus" ? "WebM" : "Ogg"} stream header. Start MediaRecorder after start_transcription and send every chunk in order.`
+        );
+      }
+      this.sawHeader = true;
+    }
+    return chunk;
+  }
+}
@@ -0,0 +1,273 @@
+import { AudioConfig, type AudioEncoding } from "../../domain/value-objects/AudioConfig.js";
+import type { IAudioConverter } from "../../domain/repositories/IAudioConverter.js";
+
+/**
+ * Streaming converter between raw audio formats: decodes PCM16 / float32 /
+ * mu-law, up- or down-mixes channels, resamples with linear interpolation
+ * (low-pass filtered first when downsampling) and re-encodes.
+ */
+export class PcmAudioConverter implements IAudioConverter {
+  private readonly passthrough: boolean;
+  private readonly ratio: number;
+  private readonly antiAlias: BiquadLowPass[] | null;
+  private pending: Uint8Array = new Uint8Array(0);
+  private previous: Float32Array | null = null;
+  private position = 0;
+
+  constructor(
+    private input: AudioConfig,
+    private output: AudioConfig
+  ) {
+    this.passthrough = input.equals(output);
+    this.ratio = input.sampleRate / output.sampleRate;
+
+    // Two cascaded biquads (~24 dB/octave) just below the new Nyquist rate
+    this.antiAlias =
+      this.ratio > 1
+        ? Array.from({ length: output.channels * 2 }, () =>
+            new BiquadLowPass(input.sampleRate, output.sampleRate * 0.45)
+          )
+        : null;
+  }
+
+  convert(chunk: Uint8Array): Uint8Array {
+    if (this.passthrough) {
+      return chunk;
+    }
+
+    const frames = this.decode(this.takeWholeFrames(chunk));
+    const mixed = this.mixChannels(frames);
+    const resampled = this.resample(mixed);
+    return encode(resampled, this.output.format);
+  }
+
+  /**
+   * Keep trailing bytes of an incomplete frame for the next chunk
+   */
+  private takeWholeFrames(chunk: Uint8Array): Uint8Array {
+    const frameSize = this.input.getBytesPerFrame();
+    const combined = new Uint8Array(this.pending.length + chunk.length);
+    combined.set(this.pending, 0);
+    combined.set(chunk, this.pending.length);
+
+    const usable = combined.length - (combined.length % frameSize);
+    this.pending = combined.slice(usable);
+    return combined.subarray(0, usable);
+  }
+
+  /**
+   * Decode interleaved bytes into one Float32Array per channel
+   */
+  private decode(bytes: Uint8Array): Float32Array[] {
+    const samples = decode(bytes, this.input.format);
+    const channels = this.input.channels;
+    const frameCount = samples.length / channels;
+
+    return Array.from({ length: channels }, (_, channel) => {
+      const planar = new Float32Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        planar[i] = samples[i * channels + channel]!;
+      }
+      return planar;
+    });
+  }
+
+  private mixChannels(channels: Float32Array[]): Float32Array[] {
+    const target = this.output.channels;
+    if (channels.length === target) {
+      return channels;
+    }
+
+    if (target === 1) {
+      // Downmix by averaging
+      const length = channels[0]!.length;
+      const mono = new Float32Array(length);
+      for (const channel of channels) {
+        for (let i = 0; i < length; i++) {
+          mono[i]! += channel[i]! / channels.length;
+        }
+      }
+      return [mono];
+    }
+
+    // Upmix mono by duplication
+    return Array.from({ length: target }, () => channels[0]!);
+  }
+
+  /**
+   * Linear interpolation across chunk boundaries. `position` is the input
+   * index of the next output frame, where index 0 is the last frame of the
+   * previous chunk (when there is one).
+   */
+  private resample(channels: Float32Array[]): Float32Array[] {
+    if (this.ratio === 1) {
+      return channels;
+    }
+
+    const filtered = this.antiAlias
+      ? channels.map((channel, index) =>
+          this.antiAlias![index * 2 + 1]!.process(
+            this.antiAlias![index * 2]!.process(channel)
+          )
+        )
+      : channels;
+
+    const frameCount = filtered[0]!.length;
+    if (frameCount === 0) {
+      return filtered;
+    }
+
+    const offset = this.previous ? 1 : 0;
+    const sourceLength = frameCount + offset;
+    const sample = (channel: number, index: number): number =>
+      index < offset
+        ? this.previous![channel]!
+        : filtered[channel]![index - offset]!;
+
+    const outputs: number[][] = filtered.map(() => []);
+    while (this.position < sourceLength - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      for (let channel = 0; channel < filtered.length; channel++) {
+        const a = sample(channel, index);
+        const b = sample(channel, index + 1);
+        outputs[channel]!.push(a + (b - a) * fraction);
+      }
+      this.position += this.ratio;
+    }
+
+    this.position -= sourceLength - 1;
+    this.previous = Float32Array.from(filtered.map((channel) => channel[frameCount - 1]!));
+
+    return outputs.map((values) => Float32Array.from(values));
+  }
+}
+
+/**
+ * RBJ cookbook biquad low-pass, Q = 1/sqrt(2)
+ */
+class BiquadLowPass {
+  private b0: number;
+  private b1: number;
+  private b2: number;
+  private a1: number;
+  private a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(sampleRate: number, cutoff: number) {
+    const w0 = (2 * Math.PI * cutoff) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+
+    this.b0 = (1 - cos) / 2 / a0;
+    this.b1 = (1 - cos) / a0;
+    this.b2 = (1 - cos) / 2 / a0;
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const x0 = input[i]!;
+      const y0 =
+        this.b0 * x0 +
+        this.b1 * this.x1 +
+        this.b2 * this.x2 -
+        this.a1 * this.y1 -
+        this.a2 * this.y2;
+
+      this.x2 = this.x1;
+      this.x1 = x0;
+      this.y2 = this.y1;
+      this.y1 = y0;
+      output[i] = y0;
+    }
+    return output;
+  }
+}
+
+function decode(bytes: Uint8Array, format: AudioEncoding): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (format) {
+    case "pcm_s16le": {
+      const samples = new Float32Array(bytes.length / 2);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = view.getInt16(i * 2, true) / 32768;
+      }
+      return samples;
+    }
+    case "pcm_f32le": {
+      const samples = new Float32Array(bytes.length / 4);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = view.getFloat32(i * 4, true);
+      }
+      return samples;
+    }
+    case "mulaw": {
+      const samples = new Float32Array(bytes.length);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = decodeMulaw(bytes[i]!) / 32768;
+      }
+      return samples;
+    }
+    default:
+      throw new Error(`Cannot decode ${format} as raw PCM`);
+  }
+}
+
+function encode(channels: Float32Array[], format: AudioEncoding): Uint8Array {
+  const channelCount = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const bytesPerSample = format === "pcm_s16le" ? 2 : format === "pcm_f32le" ? 4 : 1;
+  const bytes = new Uint8Array(frameCount * channelCount * bytesPerSample);
+  const view = new DataView(bytes.buffer);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const value = Math.max(-1, Math.min(1, channels[channel]![frame]!));
+      const index = frame * channelCount + channel;
+
+      if (format === "pcm_s16le") {
+        view.setInt16(index * 2, Math.round(value * 32767), true);
+      } else if (format === "pcm_f32le") {
+        view.setFloat32(index * 4, value, true);
+      } else {
+        bytes[index] = encodeMulaw(Math.round(value * 32767));
+      }
+    }
+  }
+
+  return bytes;
+}
+
+// G.711 mu-law
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+function decodeMulaw(byte: number): number {
+  const value = ~byte & 0xff;
+  const sign = value & 0x80;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return sign ? -magnitude : magnitude;
+}
+
+function encodeMulaw(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
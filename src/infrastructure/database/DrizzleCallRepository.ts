@@ -0,0 +1,136 @@
+import { asc, eq, sql } from "drizzle-orm";
+import { Call, CallStatus } from "../../domain/entities/Call.js";
+import type { ICallRepository } from "../../domain/repositories/ICallRepository.js";
+import { CallId } from "../../domain/value-objects/CallId.js";
+import { call, callParticipant } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+export class DrizzleCallRepository implements ICallRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async save(entity: Call): Promise<void> {
+    try {
+      await this.db.transaction(async (tx) => {
+        await tx.insert(call).values({
+          id: entity.id.toString(),
+          createdBy: entity.createdBy,
+          organizationId: entity.organizationId,
+          title: entity.title,
+          status: entity.status,
+          startedAt: entity.startedAt,
+          endedAt: entity.endedAt,
+        });
+        await this.upsertParticipants(tx, entity);
+      });
+
+      this.logger.debug("Call saved", { callId: entity.id.toString() });
+    } catch (error) {
+      this.logger.error("Failed to save call", {
+        callId: entity.id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async update(entity: Call): Promise<void> {
+    try {
+      await this.db.transaction(async (tx) => {
+        await tx
+          .update(call)
+          .set({
+            status: entity.status,
+            endedAt: entity.endedAt,
+            updatedAt: new Date(),
+          })
+          .where(eq(call.id, entity.id.toString()));
+        await this.upsertParticipants(tx, entity);
+      });
+
+      this.logger.debug("Call updated", { callId: entity.id.toString() });
+    } catch (error) {
+      this.logger.error("Failed to update call", {
+        callId: entity.id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findById(callId: string): Promise<Call | null> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(call)
+        .where(eq(call.id, callId))
+        .limit(1);
+
+      if (!record) {
+        return null;
+      }
+
+      const participants = await this.db
+        .select()
+        .from(callParticipant)
+        .where(eq(callParticipant.callId, callId))
+        .orderBy(asc(callParticipant.joinedAt));
+
+      const entity = new Call(
+        CallId.fromString(record.id),
+        { userId: record.createdBy, organizationId: record.organizationId },
+        record.title,
+        new Date(record.startedAt)
+      );
+      entity.status = record.status as CallStatus;
+      if (record.endedAt) {
+        entity.endedAt = new Date(record.endedAt);
+      }
+      entity.participants = participants.map((participant) => ({
+        userId: participant.userId,
+        name: participant.name,
+        joinedAt: new Date(participant.joinedAt),
+        ...(participant.leftAt && { leftAt: new Date(participant.leftAt) }),
+      }));
+
+      return entity;
+    } catch (error) {
+      this.logger.error("Failed to find call by ID", {
+        callId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private async upsertParticipants(
+    tx: Parameters<Parameters<Database["transaction"]>[0]>[0],
+    entity: Call
+  ): Promise<void> {
+    if (entity.participants.length === 0) {
+      return;
+    }
+
+    await tx
+      .insert(callParticipant)
+      .values(
+        entity.participants.map((participant) => ({
+          callId: entity.id.toString(),
+          userId: participant.userId,
+          name: participant.name,
+          joinedAt: participant.joinedAt,
+          leftAt: participant.leftAt ?? null,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [callParticipant.callId, callParticipant.userId],
+        set: {
+          name: sql`excluded.name`,
+          leftAt: sql`excluded.left_at`,
+        },
+      });
+  }
+}
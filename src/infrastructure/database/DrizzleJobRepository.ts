@@ -0,0 +1,296 @@
+import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, gte, inArray, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import {
+  JobStatus,
+  type IJob,
+  type IJobQuery,
+  type IJobRepository,
+  type INewJob,
+  type JobStatusCounts,
+} from "../../domain/repositories/IJobRepository.js";
+import type { IPaginatedResult } from "../../domain/repositories/ITranscriptionRepository.js";
+import { job } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+export class DrizzleJobRepository implements IJobRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async enqueue(newJob: INewJob): Promise<IJob> {
+    try {
+      const [record] = await this.db
+        .insert(job)
+        .values({
+          id: randomUUID(),
+          type: newJob.type,
+          payload: newJob.payload,
+          status: JobStatus.PENDING,
+          maxAttempts: newJob.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+          runAt: newJob.runAt ?? new Date(),
+        })
+        .returning();
+
+      this.logger.debug("Job enqueued", { jobId: record!.id, type: record!.type });
+      return this.mapToJob(record!);
+    } catch (error) {
+      this.logger.error("Failed to enqueue job", {
+        type: newJob.type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async claimNext(
+    types: string[],
+    now: Date,
+    staleBefore: Date
+  ): Promise<IJob | null> {
+    if (types.length === 0) {
+      return null;
+    }
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [next] = await tx
+          .select({ id: job.id })
+          .from(job)
+          .where(
+            and(
+              inArray(job.type, types),
+              or(
+                and(eq(job.status, JobStatus.PENDING), lte(job.runAt, now)),
+                and(
+                  eq(job.status, JobStatus.RUNNING),
+                  lt(job.lockedAt, staleBefore),
+                  lt(job.attempts, job.maxAttempts)
+                )
+              )
+            )
+          )
+          .orderBy(asc(job.runAt))
+          .limit(1)
+          .for("update", { skipLocked: true });
+
+        if (!next) {
+          return null;
+        }
+
+        const [record] = await tx
+          .update(job)
+          .set({
+            status: JobStatus.RUNNING,
+            attempts: sql`${job.attempts} + 1`,
+            lockedAt: now,
+          })
+          .where(eq(job.id, next.id))
+          .returning();
+
+        return this.mapToJob(record!);
+      });
+    } catch (error) {
+      this.logger.error("Failed to claim job", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async complete(jobId: string): Promise<void> {
+    await this.setState(jobId, "complete job", {
+      status: JobStatus.COMPLETED,
+      lockedAt: null,
+      completedAt: new Date(),
+    });
+  }
+
+  async retry(jobId: string, runAt: Date, error: string): Promise<void> {
+    await this.setState(jobId, "reschedule job", {
+      status: JobStatus.PENDING,
+      runAt,
+      lockedAt: null,
+      lastError: error,
+    });
+  }
+
+  async deadLetter(jobId: string, error: string): Promise<void> {
+    await this.setState(jobId, "dead-letter job", {
+      status: JobStatus.DEAD,
+      lockedAt: null,
+      lastError: error,
+    });
+  }
+
+  async deadLetterStale(
+    types: string[],
+    staleBefore: Date,
+    error: string
+  ): Promise<IJob[]> {
+    if (types.length === 0) {
+      return [];
+    }
+
+    try {
+      const records = await this.db
+        .update(job)
+        .set({ status: JobStatus.DEAD, lockedAt: null, lastError: error })
+        .where(
+          and(
+            inArray(job.type, types),
+            eq(job.status, JobStatus.RUNNING),
+            lt(job.lockedAt, staleBefore),
+            gte(job.attempts, job.maxAttempts)
+          )
+        )
+        .returning();
+
+      return records.map((record) => this.mapToJob(record));
+    } catch (error) {
+      this.logger.error("Failed to dead-letter stale jobs", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async requeue(jobId: string, runAt: Date): Promise<void> {
+    await this.setState(jobId, "requeue job", {
+      status: JobStatus.PENDING,
+      attempts: 0,
+      runAt,
+      lockedAt: null,
+    });
+  }
+
+  async findById(jobId: string): Promise<IJob | null> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(job)
+        .where(eq(job.id, jobId))
+        .limit(1);
+
+      return record ? this.mapToJob(record) : null;
+    } catch (error) {
+      this.logger.error("Failed to find job by ID", {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findMany(query: IJobQuery): Promise<IPaginatedResult<IJob>> {
+    try {
+      const conditions: SQL[] = [];
+      if (query.status) {
+        conditions.push(eq(job.status, query.status));
+      }
+      if (query.type) {
+        conditions.push(eq(job.type, query.type));
+      }
+      const where = and(...conditions);
+
+      const [records, totals] = await Promise.all([
+        this.db
+          .select()
+          .from(job)
+          .where(where)
+          .orderBy(desc(job.createdAt))
+          .limit(query.limit)
+          .offset(query.offset),
+        this.db.select({ total: count() }).from(job).where(where),
+      ]);
+
+      return {
+        items: records.map((record) => this.mapToJob(record)),
+        total: totals[0]?.total ?? 0,
+      };
+    } catch (error) {
+      this.logger.error("Failed to list jobs", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async countByStatus(): Promise<JobStatusCounts> {
+    try {
+      const rows = await this.db
+        .select({ status: job.status, total: count() })
+        .from(job)
+        .groupBy(job.status);
+
+      const counts = Object.fromEntries(
+        Object.values(JobStatus).map((status) => [status, 0])
+      ) as JobStatusCounts;
+      for (const row of rows) {
+        counts[row.status as JobStatus] = row.total;
+      }
+      return counts;
+    } catch (error) {
+      this.logger.error("Failed to count jobs", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async deleteCompletedBefore(completedBefore: Date): Promise<number> {
+    try {
+      const deleted = await this.db
+        .delete(job)
+        .where(
+          and(
+            eq(job.status, JobStatus.COMPLETED),
+            lt(job.completedAt, completedBefore)
+          )
+        )
+        .returning({ id: job.id });
+
+      return deleted.length;
+    } catch (error) {
+      this.logger.error("Failed to delete completed jobs", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private async setState(
+    jobId: string,
+    action: string,
+    values: Partial<typeof job.$inferInsert>
+  ): Promise<void> {
+    try {
+      await this.db.update(job).set(values).where(eq(job.id, jobId));
+    } catch (error) {
+      this.logger.error(`Failed to ${action}`, {
+        jobId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private mapToJob(record: typeof job.$inferSelect): IJob {
+    return {
+      id: record.id,
+      type: record.type,
+      payload: (record.payload ?? {}) as Record<string, unknown>,
+      status: record.status as JobStatus,
+      attempts: record.attempts,
+      maxAttempts: record.maxAttempts,
+      runAt: record.runAt,
+      lockedAt: record.lockedAt,
+      lastError: record.lastError,
+      createdAt: record.createdAt,
+      completedAt: record.completedAt,
+    };
+  }
+}
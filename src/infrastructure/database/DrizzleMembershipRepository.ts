@@ -0,0 +1,33 @@
+import { eq } from "drizzle-orm";
+import type {
+  IMembershipRepository,
+  IOrganizationMembership,
+} from "../../domain/repositories/IMembershipRepository.js";
+import { member } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+export class DrizzleMembershipRepository implements IMembershipRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async findByUserId(userId: string): Promise<IOrganizationMembership[]> {
+    try {
+      return await this.db
+        .select({
+          organizationId: member.organizationId,
+          role: member.role,
+        })
+        .from(member)
+        .where(eq(member.userId, userId));
+    } catch (error) {
+      this.logger.error("Failed to find memberships by user ID", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { eq } from "drizzle-orm";
+import { REDACTION_ENTITIES } from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IOrganizationSettings,
+  IOrganizationSettingsRepository,
+  IRedactionSettings,
+} from "../../domain/repositories/IOrganizationSettingsRepository.js";
+import { LanguageCode } from "../../domain/value-objects/LanguageCode.js";
+import { organization } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+/**
+ * Reads settings from the organization's Better Auth metadata (a JSON
+ * string), e.g. { "transcriptionProvider": "mock", "monthlyMinuteLimit": 600 }
+ * or { "redaction": { "entities": ["email", "phone_number"], "mode": "tag" } }
+ */
+export class DrizzleOrganizationSettingsRepository
+  implements IOrganizationSettingsRepository
+{
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async findByOrganizationId(
+    organizationId: string
+  ): Promise<IOrganizationSettings> {
+    try {
+      const [row] = await this.db
+        .select({ metadata: organization.metadata })
+        .from(organization)
+        .where(eq(organization.id, organizationId))
+        .limit(1);
+
+      return this.parseMetadata(organizationId, row?.metadata ?? null);
+    } catch (error) {
+      this.logger.error("Failed to find organization settings", {
+        organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private parseMetadata(
+    organizationId: string,
+    metadata: string | null
+  ): IOrganizationSettings {
+    if (!metadata) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(metadata);
+      return {
+        transcriptionProvider:
+          typeof parsed?.transcriptionProvider === "string"
+            ? parsed.transcriptionProvider
+            : undefined,
+        monthlyMinuteLimit:
+          typeof parsed?.monthlyMinuteLimit === "number" &&
+          parsed.monthlyMinuteLimit >= 0
+            ? parsed.monthlyMinuteLimit
+            : undefined,
+        recordingRetentionDays:
+          typeof parsed?.recordingRetentionDays === "number" &&
+          parsed.recordingRetentionDays >= 0
+            ? parsed.recordingRetentionDays
+            : undefined,
+        languageHints: this.parseLanguageHints(parsed?.languageHints),
+        redaction: this.parseRedaction(parsed?.redaction),
+      };
+    } catch {
+      this.logger.warn("Ignoring malformed organization metadata", {
+        organizationId,
+      });
+      return {};
+    }
+  }
+
+  /**
+   * Unknown entity types are ignored; mode defaults to "mask" and
+   * originals are only kept when keepOriginal is true
+   */
+  private parseRedaction(value: unknown): IRedactionSettings | undefined {
+    const settings = value as Record<string, unknown> | null | undefined;
+    if (!settings || typeof settings !== "object" || !Array.isArray(settings.entities)) {
+      return undefined;
+    }
+
+    const entities = REDACTION_ENTITIES.filter((entity) =>
+      (settings.entities as unknown[]).includes(entity)
+    );
+    if (entities.length === 0) {
+      return undefined;
+    }
+
+    return {
+      entities,
+      mode: settings.mode === "tag" ? "tag" : "mask",
+      keepOriginal: settings.keepOriginal === true,
+    };
+  }
+
+  /**
+   * Invalid hints are ignored rather than discarding the other settings
+   */
+  private parseLanguageHints(value: unknown): string[] | undefined {
+    try {
+      const codes = LanguageCode.parseList(value, Infinity);
+      return codes.length > 0 ? codes.map((code) => code.toString()) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
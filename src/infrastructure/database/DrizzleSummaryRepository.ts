@@ -0,0 +1,80 @@
+import { eq } from "drizzle-orm";
+import type {
+  IActionItem,
+  IDecision,
+} from "../../domain/repositories/ISummarizationProvider.js";
+import type {
+  ISummaryRepository,
+  ITranscriptSummary,
+} from "../../domain/repositories/ISummaryRepository.js";
+import { transcriptionSummary } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+export class DrizzleSummaryRepository implements ISummaryRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async findBySessionId(sessionId: string): Promise<ITranscriptSummary | null> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(transcriptionSummary)
+        .where(eq(transcriptionSummary.sessionId, sessionId))
+        .limit(1);
+
+      return record ? this.mapToSummary(record) : null;
+    } catch (error) {
+      this.logger.error("Failed to find transcript summary", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async save(summary: ITranscriptSummary): Promise<void> {
+    const values = {
+      summary: summary.summary,
+      actionItems: summary.actionItems,
+      decisions: summary.decisions,
+      provider: summary.provider,
+      generatedAt: summary.generatedAt,
+    };
+
+    try {
+      await this.db
+        .insert(transcriptionSummary)
+        .values({ sessionId: summary.sessionId, ...values })
+        .onConflictDoUpdate({
+          target: transcriptionSummary.sessionId,
+          set: values,
+        });
+
+      this.logger.debug("Transcript summary saved", {
+        sessionId: summary.sessionId,
+      });
+    } catch (error) {
+      this.logger.error("Failed to save transcript summary", {
+        sessionId: summary.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private mapToSummary(
+    record: typeof transcriptionSummary.$inferSelect
+  ): ITranscriptSummary {
+    return {
+      sessionId: record.sessionId,
+      summary: record.summary,
+      actionItems: (record.actionItems ?? []) as IActionItem[],
+      decisions: (record.decisions ?? []) as IDecision[],
+      provider: record.provider,
+      generatedAt: record.generatedAt,
+    };
+  }
+}
@@ -1,10 +1,43 @@
-import { eq } from "drizzle-orm";
-import { TranscriptionSession, SessionStatus } from "../../domain/entities/TranscriptionSession.js";
-import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
-import { transcriptionSession } from "../../lib/schema.js";
+import { and, asc, count, desc, eq, getTableColumns, gte, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import {
+  TranscriptionSession,
+  SessionStatus,
+  type ITokenRedaction,
+  type ITranscriptionToken,
+  type RedactionEntity,
+} from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IPaginatedResult,
+  IStoredRecording,
+  IStoredRedaction,
+  ITranscriptionListItem,
+  ITranscriptSearchHit,
+  ITranscriptSearchQuery,
+  ITranscriptionAccessScope,
+  ITranscriptionQuery,
+  ITranscriptionRepository,
+} from "../../domain/repositories/ITranscriptionRepository.js";
+import {
+  transcriptionRedaction,
+  transcriptionSession,
+  transcriptionSpeaker,
+  transcriptionToken,
+} from "../../lib/schema.js";
 import type { Database } from "../../lib/db.js";
+import { SessionId } from "../../domain/value-objects/SessionId.js";
+import { AudioConfig, type AudioEncoding } from "../../domain/value-objects/AudioConfig.js";
 import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
 
+// Every column but the search document, which only Postgres reads
+const { searchVector: _searchVector, ...sessionColumns } =
+  getTableColumns(transcriptionSession);
+
+// ts_headline wraps matches in these (private use) characters; they are
+// turned into <mark> tags after the snippet is HTML-escaped
+const MATCH_START = "\uE000";
+const MATCH_END = "\uE001";
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "`;
+
 export class DrizzleTranscriptionRepository implements ITranscriptionRepository {
   constructor(
     private db: Database,
@@ -18,13 +51,18 @@ export class DrizzleTranscriptionRepository implements ITranscriptionRepository
         .values({
           id: session.id.toString(),
           socketId: session.socketId,
+          userId: session.userId,
+          organizationId: session.organizationId,
           status: session.status,
           audioFormat: session.audioConfig.format,
           sampleRate: String(session.audioConfig.sampleRate),
           channels: String(session.audioConfig.channels),
           bitDepth: String(session.audioConfig.bitDepth),
-          transcribedText: session.getTranscribedText(),
-          results: session.results as any,
+          targetLanguages: session.targetLanguages,
+          languageHints: session.languageHints,
+          translations: session.translations as any,
+          callId: session.callId,
+          recordingKey: session.recordingKey,
           errorMessage: session.errorMessage,
           startedAt: session.startedAt,
           endedAt: session.endedAt,
@@ -47,8 +85,8 @@ export class DrizzleTranscriptionRepository implements ITranscriptionRepository
         .update(transcriptionSession)
         .set({
           status: session.status,
-          transcribedText: session.getTranscribedText(),
-          results: session.results as any,
+          translations: session.translations as any,
+          recordingKey: session.recordingKey,
           errorMessage: session.errorMessage,
           endedAt: session.endedAt,
           updatedAt: new Date(),
@@ -66,19 +104,135 @@ export class DrizzleTranscriptionRepository implements ITranscriptionRepository
     }
   }
 
+  async appendTokens(
+    sessionId: string,
+    firstSeq: number,
+    tokens: ITranscriptionToken[],
+    redactions: ITokenRedaction[] = []
+  ): Promise<void> {
+    if (tokens.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db.transaction(async (tx) => {
+        const inserted = await tx
+          .insert(transcriptionToken)
+          .values(
+            tokens.map((token, index) => ({
+              sessionId,
+              seq: firstSeq + index,
+              text: token.text,
+              confidence: token.confidence,
+              startMs: Math.round(token.start_ms),
+              endMs: Math.round(token.end_ms),
+              speaker: token.speaker ?? null,
+              language: token.language ?? null,
+              segment: token.segment ?? 0,
+              redacted: token.redacted ?? null,
+            }))
+          )
+          .onConflictDoNothing()
+          .returning({ seq: transcriptionToken.seq, text: transcriptionToken.text });
+
+        if (redactions.length > 0) {
+          await tx
+            .insert(transcriptionRedaction)
+            .values(
+              redactions.map((redaction) => ({
+                sessionId,
+                seq: redaction.seq,
+                entity: redaction.entity,
+                startMs: Math.round(redaction.start_ms),
+                endMs: Math.round(redaction.end_ms),
+                originalText: redaction.original_text,
+              }))
+            )
+            .onConflictDoNothing();
+        }
+
+        // Only text of newly stored tokens extends the transcript; it keeps
+        // its leading space, as a batch may start mid-word
+        const text = inserted
+          .sort((a, b) => a.seq - b.seq)
+          .map((token) => token.text)
+          .join("")
+          .replace(/\s+/g, " ");
+        if (text.trim() === "") {
+          return;
+        }
+
+        await tx
+          .update(transcriptionSession)
+          .set({
+            transcribedText: sql`btrim(${transcriptionSession.transcribedText} || ${text})`,
+            updatedAt: new Date(),
+          })
+          .where(eq(transcriptionSession.id, sessionId));
+      });
+
+      this.logger.debug("Transcription tokens appended", {
+        sessionId,
+        firstSeq,
+        count: tokens.length,
+      });
+    } catch (error) {
+      this.logger.error("Failed to append transcription tokens", {
+        sessionId,
+        firstSeq,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findRedactions(sessionId: string): Promise<IStoredRedaction[]> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(transcriptionRedaction)
+        .where(eq(transcriptionRedaction.sessionId, sessionId))
+        .orderBy(asc(transcriptionRedaction.seq));
+
+      return rows.map((row) => ({
+        seq: row.seq,
+        entity: row.entity as RedactionEntity,
+        start_ms: row.startMs,
+        end_ms: row.endMs,
+        original_text: row.originalText,
+        redactedAt: row.createdAt,
+      }));
+    } catch (error) {
+      this.logger.error("Failed to find transcript redactions", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
   async findById(sessionId: string): Promise<TranscriptionSession | null> {
     try {
       const result = await this.db
-        .select()
+        .select(sessionColumns)
         .from(transcriptionSession)
         .where(eq(transcriptionSession.id, sessionId))
         .limit(1);
 
-      if (!result || result.length === 0) {
+      const [session] = await this.hydrate(result);
+      if (!session) {
         return null;
       }
 
-      return this.mapToEntity(result[0]);
+      const speakers = await this.db
+        .select()
+        .from(transcriptionSpeaker)
+        .where(eq(transcriptionSpeaker.sessionId, sessionId));
+      for (const speaker of speakers) {
+        session.renameSpeaker(speaker.speakerId, speaker.name);
+      }
+
+      return session;
     } catch (error) {
       this.logger.error("Failed to find transcription session by ID", error);
       throw error;
@@ -88,16 +242,14 @@ export class DrizzleTranscriptionRepository implements ITranscriptionRepository
   async findBySocketId(socketId: string): Promise<TranscriptionSession | null> {
     try {
       const result = await this.db
-        .select()
+        .select(sessionColumns)
         .from(transcriptionSession)
         .where(eq(transcriptionSession.socketId, socketId))
+        .orderBy(desc(transcriptionSession.startedAt))
         .limit(1);
 
-      if (!result || result.length === 0) {
-        return null;
-      }
-
-      return this.mapToEntity(result[0]);
+      const [session] = await this.hydrate(result);
+      return session ?? null;
     } catch (error) {
       this.logger.error("Failed to find transcription session by socket ID", error);
       throw error;
@@ -118,25 +270,458 @@ export class DrizzleTranscriptionRepository implements ITranscriptionRepository
   }
 
   async findByUserId(userId: string): Promise<TranscriptionSession[]> {
-    // TODO: Implement when user association is added
-    return [];
+    try {
+      const result = await this.db
+        .select(sessionColumns)
+        .from(transcriptionSession)
+        .where(eq(transcriptionSession.userId, userId))
+        .orderBy(desc(transcriptionSession.startedAt));
+
+      return await this.hydrate(result);
+    } catch (error) {
+      this.logger.error("Failed to find transcription sessions by user ID", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findByCallId(callId: string): Promise<TranscriptionSession[]> {
+    try {
+      const result = await this.db
+        .select(sessionColumns)
+        .from(transcriptionSession)
+        .where(eq(transcriptionSession.callId, callId))
+        .orderBy(asc(transcriptionSession.startedAt));
+
+      return await this.hydrate(result);
+    } catch (error) {
+      this.logger.error("Failed to find transcription sessions by call ID", {
+        callId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findMany(
+    query: ITranscriptionQuery
+  ): Promise<IPaginatedResult<ITranscriptionListItem>> {
+    try {
+      const where = this.buildQueryConditions(query);
+
+      const [records, totals] = await Promise.all([
+        this.db
+          .select(sessionColumns)
+          .from(transcriptionSession)
+          .where(where)
+          .orderBy(desc(transcriptionSession.startedAt))
+          .limit(query.limit)
+          .offset(query.offset),
+        this.db
+          .select({ total: count() })
+          .from(transcriptionSession)
+          .where(where),
+      ]);
+
+      return {
+        items: await this.toListItems(records),
+        total: totals[0]?.total ?? 0,
+      };
+    } catch (error) {
+      this.logger.error("Failed to list transcription sessions", {
+        userId: query.scope.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async search(
+    query: ITranscriptSearchQuery
+  ): Promise<IPaginatedResult<ITranscriptSearchHit>> {
+    try {
+      const tsQuery = sql`websearch_to_tsquery('simple', ${query.text})`;
+      const where = and(
+        this.buildScopeCondition(query.scope),
+        query.organizationId
+          ? eq(transcriptionSession.organizationId, query.organizationId)
+          : undefined,
+        sql`${transcriptionSession.searchVector} @@ ${tsQuery}`
+      );
+
+      const [records, totals] = await Promise.all([
+        this.db
+          .select({
+            ...sessionColumns,
+            snippet: sql<string>`ts_headline('simple', ${transcriptionSession.transcribedText}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+          })
+          .from(transcriptionSession)
+          .where(where)
+          .orderBy(
+            desc(sql`ts_rank(${transcriptionSession.searchVector}, ${tsQuery})`),
+            desc(transcriptionSession.startedAt)
+          )
+          .limit(query.limit)
+          .offset(query.offset),
+        this.db
+          .select({ total: count() })
+          .from(transcriptionSession)
+          .where(where),
+      ]);
+
+      const items = await this.toListItems(records);
+      return {
+        items: items.map((item, index) => ({
+          ...item,
+          snippet: this.formatSnippet(records[index]!.snippet),
+        })),
+        total: totals[0]?.total ?? 0,
+      };
+    } catch (error) {
+      this.logger.error("Failed to search transcription sessions", {
+        userId: query.scope.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findMatchingWords(
+    sessionIds: string[],
+    words: string[],
+    limit: number
+  ): Promise<Map<string, ITranscriptionToken[]>> {
+    const matches = new Map<string, ITranscriptionToken[]>();
+    if (sessionIds.length === 0 || words.length === 0) {
+      return matches;
+    }
+
+    try {
+      const wordList = sql.join(
+        words.map((word) => sql`${word}`),
+        sql`, `
+      );
+
+      // Number the words: a token starting with whitespace begins one
+      const tokens = this.db.$with("tokens").as(
+        this.db
+          .select({
+            ...getTableColumns(transcriptionToken),
+            word: sql<number>`sum(case when ${transcriptionToken.text} ~ '^[[:space:]]' then 1 else 0 end) over (partition by ${transcriptionToken.sessionId} order by ${transcriptionToken.seq})`.as("word"),
+          })
+          .from(transcriptionToken)
+          .where(inArray(transcriptionToken.sessionId, sessionIds))
+      );
+      const matched = this.db.$with("matched").as(
+        this.db
+          .with(tokens)
+          .select({
+            matchedSessionId: sql<string>`${tokens.sessionId}`.as("matched_session_id"),
+            matchedWord: sql<number>`${tokens.word}`.as("matched_word"),
+            rank: sql<number>`row_number() over (partition by ${tokens.sessionId} order by min(${tokens.seq}))`.as("rank"),
+          })
+          .from(tokens)
+          .groupBy(tokens.sessionId, tokens.word)
+          .having(
+            sql`regexp_split_to_array(lower(string_agg(${tokens.text}, '' order by ${tokens.seq})), '[^[:alnum:]]+') && array[${wordList}]::text[]`
+          )
+      );
+
+      const rows = await this.db
+        .with(tokens, matched)
+        .select({
+          sessionId: tokens.sessionId,
+          seq: tokens.seq,
+          text: tokens.text,
+          confidence: tokens.confidence,
+          startMs: tokens.startMs,
+          endMs: tokens.endMs,
+          speaker: tokens.speaker,
+          language: tokens.language,
+          segment: tokens.segment,
+          redacted: tokens.redacted,
+        })
+        .from(tokens)
+        .innerJoin(
+          matched,
+          and(
+            eq(matched.matchedSessionId, tokens.sessionId),
+            eq(matched.matchedWord, tokens.word)
+          )
+        )
+        .where(lte(matched.rank, limit))
+        .orderBy(asc(tokens.sessionId), asc(tokens.seq));
+
+      for (const row of rows) {
+        const sessionTokens = matches.get(row.sessionId) ?? [];
+        sessionTokens.push(this.mapToToken(row));
+        matches.set(row.sessionId, sessionTokens);
+      }
+      return matches;
+    } catch (error) {
+      this.logger.error("Failed to find matching transcript words", {
+        count: sessionIds.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async saveSpeakerName(
+    sessionId: string,
+    speakerId: string,
+    name: string | null
+  ): Promise<void> {
+    try {
+      if (name === null) {
+        await this.db
+          .delete(transcriptionSpeaker)
+          .where(
+            and(
+              eq(transcriptionSpeaker.sessionId, sessionId),
+              eq(transcriptionSpeaker.speakerId, speakerId)
+            )
+          );
+      } else {
+        await this.db
+          .insert(transcriptionSpeaker)
+          .values({ sessionId, speakerId, name })
+          .onConflictDoUpdate({
+            target: [transcriptionSpeaker.sessionId, transcriptionSpeaker.speakerId],
+            set: { name, updatedAt: new Date() },
+          });
+      }
+
+      this.logger.debug("Speaker name saved", { sessionId, speakerId });
+    } catch (error) {
+      this.logger.error("Failed to save speaker name", {
+        sessionId,
+        speakerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findRecordingOrganizationIds(): Promise<(string | null)[]> {
+    try {
+      const rows = await this.db
+        .selectDistinct({ organizationId: transcriptionSession.organizationId })
+        .from(transcriptionSession)
+        .where(isNotNull(transcriptionSession.recordingKey));
+
+      return rows.map((row) => row.organizationId);
+    } catch (error) {
+      this.logger.error("Failed to find organizations with recordings", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findRecordingsEndedBefore(
+    organizationId: string | null,
+    endedBefore: Date,
+    limit: number
+  ): Promise<IStoredRecording[]> {
+    try {
+      const rows = await this.db
+        .select({
+          sessionId: transcriptionSession.id,
+          recordingKey: transcriptionSession.recordingKey,
+        })
+        .from(transcriptionSession)
+        .where(
+          and(
+            organizationId === null
+              ? isNull(transcriptionSession.organizationId)
+              : eq(transcriptionSession.organizationId, organizationId),
+            isNotNull(transcriptionSession.recordingKey),
+            lt(transcriptionSession.endedAt, endedBefore)
+          )
+        )
+        .orderBy(asc(transcriptionSession.endedAt))
+        .limit(limit);
+
+      return rows.map((row) => ({
+        sessionId: row.sessionId,
+        recordingKey: row.recordingKey!,
+      }));
+    } catch (error) {
+      this.logger.error("Failed to find expired recordings", {
+        organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async clearRecording(sessionId: string): Promise<void> {
+    try {
+      await this.db
+        .update(transcriptionSession)
+        .set({ recordingKey: null, updatedAt: new Date() })
+        .where(eq(transcriptionSession.id, sessionId));
+
+      this.logger.debug("Recording cleared", { sessionId });
+    } catch (error) {
+      this.logger.error("Failed to clear recording", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Own sessions, or any session of an organization the user belongs to
+   */
+  private buildScopeCondition(scope: ITranscriptionAccessScope): SQL | undefined {
+    return scope.organizationIds.length > 0
+      ? or(
+          eq(transcriptionSession.userId, scope.userId),
+          inArray(transcriptionSession.organizationId, scope.organizationIds)
+        )
+      : eq(transcriptionSession.userId, scope.userId);
+  }
+
+  private buildQueryConditions(query: ITranscriptionQuery): SQL | undefined {
+    const conditions: (SQL | undefined)[] = [this.buildScopeCondition(query.scope)];
+
+    if (query.status) {
+      conditions.push(eq(transcriptionSession.status, query.status));
+    }
+    if (query.organizationId) {
+      conditions.push(
+        eq(transcriptionSession.organizationId, query.organizationId)
+      );
+    }
+    if (query.startedFrom) {
+      conditions.push(gte(transcriptionSession.startedAt, query.startedFrom));
+    }
+    if (query.startedTo) {
+      conditions.push(lte(transcriptionSession.startedAt, query.startedTo));
+    }
+
+    return and(...conditions);
+  }
+
+  /**
+   * Map session rows to entities, loading their tokens in one query
+   */
+  private async hydrate(records: any[]): Promise<TranscriptionSession[]> {
+    if (records.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select()
+      .from(transcriptionToken)
+      .where(
+        inArray(
+          transcriptionToken.sessionId,
+          records.map((record) => record.id)
+        )
+      )
+      .orderBy(asc(transcriptionToken.sessionId), asc(transcriptionToken.seq));
+
+    const tokensBySession = new Map<string, ITranscriptionToken[]>();
+    for (const row of rows) {
+      const tokens = tokensBySession.get(row.sessionId) ?? [];
+      tokens.push(this.mapToToken(row));
+      tokensBySession.set(row.sessionId, tokens);
+    }
+
+    return records.map((record) =>
+      this.mapToEntity(record, tokensBySession.get(record.id) ?? [])
+    );
+  }
+
+  /**
+   * Map session rows to entities without tokens, counting tokens and
+   * ranking languages in the database instead
+   */
+  private async toListItems(records: any[]): Promise<ITranscriptionListItem[]> {
+    if (records.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select({
+        sessionId: transcriptionToken.sessionId,
+        language: transcriptionToken.language,
+        tokens: count(),
+        firstSeq: sql<number>`min(${transcriptionToken.seq})`,
+      })
+      .from(transcriptionToken)
+      .where(
+        inArray(
+          transcriptionToken.sessionId,
+          records.map((record) => record.id)
+        )
+      )
+      .groupBy(transcriptionToken.sessionId, transcriptionToken.language);
+
+    return records.map((record) => {
+      const languages = rows.filter((row) => row.sessionId === record.id);
+      return {
+        session: this.mapToEntity(record, []),
+        tokenCount: languages.reduce((sum, row) => sum + row.tokens, 0),
+        // Same order as rankLanguages: most tokens first, then first spoken
+        detectedLanguages: languages
+          .filter((row) => row.language !== null)
+          .sort((a, b) => b.tokens - a.tokens || a.firstSeq - b.firstSeq)
+          .map((row) => row.language!),
+      };
+    });
+  }
+
+  private mapToToken(row: typeof transcriptionToken.$inferSelect): ITranscriptionToken {
+    const token: ITranscriptionToken = {
+      text: row.text,
+      confidence: row.confidence,
+      start_ms: row.startMs,
+      end_ms: row.endMs,
+    };
+    if (row.speaker !== null) {
+      token.speaker = row.speaker;
+    }
+    if (row.language !== null) {
+      token.language = row.language;
+    }
+    token.segment = row.segment;
+    if (row.redacted !== null) {
+      token.redacted = row.redacted as RedactionEntity;
+    }
+    return token;
   }
 
-  private mapToEntity(record: any): TranscriptionSession {
+  private mapToEntity(record: any, tokens: ITranscriptionToken[]): TranscriptionSession {
     const session = new TranscriptionSession(
-      { value: record.id } as any, // SessionId
+      SessionId.fromString(record.id),
       record.socketId,
       {
+        userId: record.userId,
+        organizationId: record.organizationId,
+      },
+      new AudioConfig({
         sampleRate: parseInt(record.sampleRate),
         channels: parseInt(record.channels),
-        bitDepth: parseInt(record.bitDepth),
-        format: record.audioFormat,
-      } as any, // AudioConfig
+        format: this.mapAudioFormat(record.audioFormat),
+      }),
       new Date(record.startedAt)
     );
 
     session.status = record.status as SessionStatus;
-    session.results = record.results || [];
+    session.results = tokens;
+    session.targetLanguages = record.targetLanguages || [];
+    session.languageHints = record.languageHints || [];
+    session.translations = record.translations || [];
+    session.callId = record.callId ?? null;
+    session.audioDurationMs = record.audioDurationMs;
+    session.recordingKey = record.recordingKey ?? null;
     session.errorMessage = record.errorMessage;
     if (record.endedAt) {
       session.endedAt = new Date(record.endedAt);
@@ -144,4 +729,21 @@ export class DrizzleTranscriptionRepository implements ITranscriptionRepository
 
     return session;
   }
+
+  private formatSnippet(snippet: string): string {
+    return snippet
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replaceAll(MATCH_START, "<mark>")
+      .replaceAll(MATCH_END, "</mark>");
+  }
+
+  /**
+   * Sessions recorded before configurable audio stored "pcm16"
+   */
+  private mapAudioFormat(format: string): AudioEncoding {
+    return format === "pcm16" ? "pcm_s16le" : (format as AudioEncoding);
+  }
 }
@@ -0,0 +1,146 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import type {
+  IOrganizationUsage,
+  IUsageIncrement,
+  IUsageRepository,
+} from "../../domain/repositories/IUsageRepository.js";
+import { organizationUsage, transcriptionSession, userUsage } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+// user_usage.organization_id of sessions outside any organization
+const PERSONAL_SCOPE = "";
+
+export class DrizzleUsageRepository implements IUsageRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async record(increment: IUsageIncrement): Promise<void> {
+    const audioMs = Math.round(increment.audioMs);
+    if (audioMs <= 0) {
+      return;
+    }
+
+    try {
+      await this.db.transaction(async (tx) => {
+        await tx
+          .update(transcriptionSession)
+          .set({
+            audioDurationMs: sql`${transcriptionSession.audioDurationMs} + ${audioMs}`,
+          })
+          .where(eq(transcriptionSession.id, increment.sessionId));
+
+        await tx
+          .insert(userUsage)
+          .values({
+            userId: increment.userId,
+            organizationId: increment.organizationId ?? PERSONAL_SCOPE,
+            periodStart: increment.periodStart,
+            audioMs,
+          })
+          .onConflictDoUpdate({
+            target: [userUsage.userId, userUsage.organizationId, userUsage.periodStart],
+            set: {
+              audioMs: sql`${userUsage.audioMs} + ${audioMs}`,
+              updatedAt: new Date(),
+            },
+          });
+
+        if (increment.organizationId) {
+          await tx
+            .insert(organizationUsage)
+            .values({
+              organizationId: increment.organizationId,
+              periodStart: increment.periodStart,
+              audioMs,
+            })
+            .onConflictDoUpdate({
+              target: [organizationUsage.organizationId, organizationUsage.periodStart],
+              set: {
+                audioMs: sql`${organizationUsage.audioMs} + ${audioMs}`,
+                updatedAt: new Date(),
+              },
+            });
+        }
+      });
+
+      this.logger.debug("Usage recorded", {
+        sessionId: increment.sessionId,
+        audioMs,
+      });
+    } catch (error) {
+      this.logger.error("Failed to record usage", {
+        sessionId: increment.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async getOrganizationUsage(
+    organizationId: string,
+    periodStart: Date
+  ): Promise<IOrganizationUsage> {
+    try {
+      const [total] = await this.db
+        .select({ audioMs: organizationUsage.audioMs })
+        .from(organizationUsage)
+        .where(
+          and(
+            eq(organizationUsage.organizationId, organizationId),
+            eq(organizationUsage.periodStart, periodStart)
+          )
+        )
+        .limit(1);
+
+      const users = await this.db
+        .select({ userId: userUsage.userId, audioMs: userUsage.audioMs })
+        .from(userUsage)
+        .where(
+          and(
+            eq(userUsage.organizationId, organizationId),
+            eq(userUsage.periodStart, periodStart)
+          )
+        )
+        .orderBy(desc(userUsage.audioMs));
+
+      return {
+        organizationId,
+        audioMs: total?.audioMs ?? 0,
+        users,
+      };
+    } catch (error) {
+      this.logger.error("Failed to get organization usage", {
+        organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async getPersonalUsageMs(userId: string, periodStart: Date): Promise<number> {
+    try {
+      const [row] = await this.db
+        .select({ audioMs: userUsage.audioMs })
+        .from(userUsage)
+        .where(
+          and(
+            eq(userUsage.userId, userId),
+            eq(userUsage.organizationId, PERSONAL_SCOPE),
+            eq(userUsage.periodStart, periodStart)
+          )
+        )
+        .limit(1);
+
+      return row?.audioMs ?? 0;
+    } catch (error) {
+      this.logger.error("Failed to get personal usage", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
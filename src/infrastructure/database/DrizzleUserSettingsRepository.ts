@@ -0,0 +1,54 @@
+import { eq } from "drizzle-orm";
+import type {
+  IUserSettings,
+  IUserSettingsRepository,
+} from "../../domain/repositories/IUserSettingsRepository.js";
+import { LanguageCode } from "../../domain/value-objects/LanguageCode.js";
+import { user } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+/**
+ * Reads settings from the user's Better Auth additional fields, which
+ * users change through the auth API's update-user endpoint
+ */
+export class DrizzleUserSettingsRepository implements IUserSettingsRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async findByUserId(userId: string): Promise<IUserSettings> {
+    try {
+      const [row] = await this.db
+        .select({ languageHints: user.languageHints })
+        .from(user)
+        .where(eq(user.id, userId))
+        .limit(1);
+
+      return {
+        languageHints: this.parseLanguageHints(userId, row?.languageHints ?? null),
+      };
+    } catch (error) {
+      this.logger.error("Failed to find user settings", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private parseLanguageHints(userId: string, value: string | null): string[] | undefined {
+    const values = (value ?? "").split(",").filter((code) => code.trim() !== "");
+    if (values.length === 0) {
+      return undefined;
+    }
+
+    try {
+      return LanguageCode.parseList(values, Infinity).map((code) => code.toString());
+    } catch {
+      this.logger.warn("Ignoring malformed user language hints", { userId });
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import { asc, eq, sql } from "drizzle-orm";
+import type {
+  INewVocabularyTerm,
+  IVocabularyRepository,
+  IVocabularyTerm,
+} from "../../domain/repositories/IVocabularyRepository.js";
+import { vocabularyTerm } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+export class DrizzleVocabularyRepository implements IVocabularyRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async create(term: INewVocabularyTerm): Promise<IVocabularyTerm> {
+    try {
+      const [record] = await this.db
+        .insert(vocabularyTerm)
+        .values({ id: randomUUID(), ...term })
+        .returning();
+
+      this.logger.debug("Vocabulary term saved", { termId: record!.id });
+      return this.mapToTerm(record!);
+    } catch (error) {
+      this.logger.error("Failed to save vocabulary term", {
+        organizationId: term.organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findById(termId: string): Promise<IVocabularyTerm | null> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(vocabularyTerm)
+        .where(eq(vocabularyTerm.id, termId))
+        .limit(1);
+
+      return record ? this.mapToTerm(record) : null;
+    } catch (error) {
+      this.logger.error("Failed to find vocabulary term by ID", {
+        termId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findByOrganizationId(organizationId: string): Promise<IVocabularyTerm[]> {
+    try {
+      const records = await this.db
+        .select()
+        .from(vocabularyTerm)
+        .where(eq(vocabularyTerm.organizationId, organizationId))
+        .orderBy(asc(sql`lower(${vocabularyTerm.term})`));
+
+      return records.map((record) => this.mapToTerm(record));
+    } catch (error) {
+      this.logger.error("Failed to find vocabulary by organization ID", {
+        organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async update(
+    termId: string,
+    changes: { term: string; misspellings: string[] }
+  ): Promise<IVocabularyTerm> {
+    try {
+      const [record] = await this.db
+        .update(vocabularyTerm)
+        .set(changes)
+        .where(eq(vocabularyTerm.id, termId))
+        .returning();
+
+      this.logger.debug("Vocabulary term updated", { termId });
+      return this.mapToTerm(record!);
+    } catch (error) {
+      this.logger.error("Failed to update vocabulary term", {
+        termId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async delete(termId: string): Promise<void> {
+    try {
+      await this.db.delete(vocabularyTerm).where(eq(vocabularyTerm.id, termId));
+
+      this.logger.debug("Vocabulary term deleted", { termId });
+    } catch (error) {
+      this.logger.error("Failed to delete vocabulary term", {
+        termId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private mapToTerm(record: typeof vocabularyTerm.$inferSelect): IVocabularyTerm {
+    return {
+      id: record.id,
+      organizationId: record.organizationId,
+      term: record.term,
+      misspellings: record.misspellings ?? [],
+      createdBy: record.createdBy,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
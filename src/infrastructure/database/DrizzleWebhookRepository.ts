@@ -0,0 +1,238 @@
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import {
+  WebhookDeliveryStatus,
+  type INewWebhookDelivery,
+  type INewWebhookEndpoint,
+  type IWebhookAttempt,
+  type IWebhookDelivery,
+  type IWebhookEndpoint,
+  type IWebhookRepository,
+} from "../../domain/repositories/IWebhookRepository.js";
+import { webhookDelivery, webhookEndpoint } from "../../lib/schema.js";
+import type { Database } from "../../lib/db.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+export class DrizzleWebhookRepository implements IWebhookRepository {
+  constructor(
+    private db: Database,
+    private logger: ILogger
+  ) {}
+
+  async createEndpoint(endpoint: INewWebhookEndpoint): Promise<IWebhookEndpoint> {
+    try {
+      const [record] = await this.db
+        .insert(webhookEndpoint)
+        .values({ id: randomUUID(), ...endpoint })
+        .returning();
+
+      this.logger.debug("Webhook endpoint saved", { endpointId: record!.id });
+      return this.mapToEndpoint(record!);
+    } catch (error) {
+      this.logger.error("Failed to save webhook endpoint", {
+        organizationId: endpoint.organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findEndpointById(endpointId: string): Promise<IWebhookEndpoint | null> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(webhookEndpoint)
+        .where(eq(webhookEndpoint.id, endpointId))
+        .limit(1);
+
+      return record ? this.mapToEndpoint(record) : null;
+    } catch (error) {
+      this.logger.error("Failed to find webhook endpoint by ID", {
+        endpointId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findEndpointsByOrganizationId(organizationId: string): Promise<IWebhookEndpoint[]> {
+    try {
+      const records = await this.db
+        .select()
+        .from(webhookEndpoint)
+        .where(eq(webhookEndpoint.organizationId, organizationId))
+        .orderBy(asc(webhookEndpoint.createdAt));
+
+      return records.map((record) => this.mapToEndpoint(record));
+    } catch (error) {
+      this.logger.error("Failed to find webhook endpoints by organization ID", {
+        organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async deleteEndpoint(endpointId: string): Promise<void> {
+    try {
+      await this.db.delete(webhookEndpoint).where(eq(webhookEndpoint.id, endpointId));
+
+      this.logger.debug("Webhook endpoint deleted", { endpointId });
+    } catch (error) {
+      this.logger.error("Failed to delete webhook endpoint", {
+        endpointId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async createDelivery(delivery: INewWebhookDelivery): Promise<IWebhookDelivery> {
+    try {
+      const [record] = await this.db
+        .insert(webhookDelivery)
+        .values({
+          id: randomUUID(),
+          ...delivery,
+          status: WebhookDeliveryStatus.PENDING,
+        })
+        .returning();
+
+      return this.mapToDelivery(record!);
+    } catch (error) {
+      this.logger.error("Failed to save webhook delivery", {
+        endpointId: delivery.endpointId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findDeliveryById(deliveryId: string): Promise<IWebhookDelivery | null> {
+    try {
+      const [record] = await this.db
+        .select()
+        .from(webhookDelivery)
+        .where(eq(webhookDelivery.id, deliveryId))
+        .limit(1);
+
+      return record ? this.mapToDelivery(record) : null;
+    } catch (error) {
+      this.logger.error("Failed to find webhook delivery by ID", {
+        deliveryId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async recordAttempt(deliveryId: string, attempt: IWebhookAttempt): Promise<void> {
+    try {
+      await this.db
+        .update(webhookDelivery)
+        .set({
+          status: attempt.status,
+          attempts: sql`${webhookDelivery.attempts} + 1`,
+          responseStatus: attempt.responseStatus,
+          lastError: attempt.error,
+          lastAttemptAt: attempt.attemptedAt,
+          deliveredAt:
+            attempt.status === WebhookDeliveryStatus.SUCCEEDED
+              ? attempt.attemptedAt
+              : null,
+        })
+        .where(eq(webhookDelivery.id, deliveryId));
+    } catch (error) {
+      this.logger.error("Failed to record webhook attempt", {
+        deliveryId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async failDelivery(deliveryId: string, error: string): Promise<void> {
+    try {
+      await this.db
+        .update(webhookDelivery)
+        .set({ status: WebhookDeliveryStatus.FAILED, lastError: error })
+        .where(
+          and(
+            eq(webhookDelivery.id, deliveryId),
+            eq(webhookDelivery.status, WebhookDeliveryStatus.PENDING)
+          )
+        );
+    } catch (updateError) {
+      this.logger.error("Failed to fail webhook delivery", {
+        deliveryId,
+        error: updateError instanceof Error ? updateError.message : String(updateError),
+      });
+      throw updateError;
+    }
+  }
+
+  async resetDelivery(deliveryId: string): Promise<void> {
+    try {
+      await this.db
+        .update(webhookDelivery)
+        .set({ status: WebhookDeliveryStatus.PENDING, attempts: 0, deliveredAt: null })
+        .where(eq(webhookDelivery.id, deliveryId));
+    } catch (error) {
+      this.logger.error("Failed to reset webhook delivery", {
+        deliveryId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  async findDeliveriesByEndpointId(
+    endpointId: string,
+    limit: number
+  ): Promise<IWebhookDelivery[]> {
+    try {
+      const records = await this.db
+        .select()
+        .from(webhookDelivery)
+        .where(eq(webhookDelivery.endpointId, endpointId))
+        .orderBy(desc(webhookDelivery.createdAt))
+        .limit(limit);
+
+      return records.map((record) => this.mapToDelivery(record));
+    } catch (error) {
+      this.logger.error("Failed to find webhook deliveries", {
+        endpointId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private mapToEndpoint(record: typeof webhookEndpoint.$inferSelect): IWebhookEndpoint {
+    return {
+      id: record.id,
+      organizationId: record.organizationId,
+      url: record.url,
+      secret: record.secret,
+      events: record.events ?? [],
+      createdBy: record.createdBy,
+      createdAt: record.createdAt,
+    };
+  }
+
+  private mapToDelivery(record: typeof webhookDelivery.$inferSelect): IWebhookDelivery {
+    return {
+      id: record.id,
+      endpointId: record.endpointId,
+      event: record.event,
+      payload: (record.payload ?? {}) as Record<string, unknown>,
+      status: record.status as WebhookDeliveryStatus,
+      attempts: record.attempts,
+      responseStatus: record.responseStatus,
+      lastError: record.lastError,
+      lastAttemptAt: record.lastAttemptAt,
+      createdAt: record.createdAt,
+      deliveredAt: record.deliveredAt,
+    };
+  }
+}
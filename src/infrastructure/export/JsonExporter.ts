@@ -0,0 +1,39 @@
+import type {
+  ITranscriptDocument,
+  ITranscriptExporter,
+} from "../../domain/repositories/ITranscriptExporter.js";
+
+export class JsonExporter implements ITranscriptExporter {
+  readonly format = "json" as const;
+  readonly contentType = "application/json; charset=utf-8";
+  readonly fileExtension = "json";
+
+  render(document: ITranscriptDocument): string {
+    return JSON.stringify(
+      {
+        sessionId: document.sessionId,
+        startedAt: document.startedAt.toISOString(),
+        endedAt: document.endedAt?.toISOString() ?? null,
+        durationMs: document.durationMs,
+        text: document.text,
+        cues: document.cues.map(({ start_ms, end_ms, text, speaker, language }) => ({
+          start_ms,
+          end_ms,
+          text,
+          speaker: speaker ?? null,
+          language: language ?? null,
+        })),
+        speakers: document.speakers,
+        languages: document.languages,
+        segments: document.segments.map(({ speaker, language, ...segment }) => ({
+          ...segment,
+          speaker: speaker ?? null,
+          language: language ?? null,
+        })),
+        tokens: document.tokens,
+      },
+      null,
+      2
+    );
+  }
+}
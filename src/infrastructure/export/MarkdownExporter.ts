@@ -0,0 +1,35 @@
+import type {
+  ITranscriptDocument,
+  ITranscriptExporter,
+} from "../../domain/repositories/ITranscriptExporter.js";
+import { formatOffset } from "./formatTimestamp.js";
+
+export class MarkdownExporter implements ITranscriptExporter {
+  readonly format = "md" as const;
+  readonly contentType = "text/markdown; charset=utf-8";
+  readonly fileExtension = "md";
+
+  render(document: ITranscriptDocument): string {
+    const header = [
+      "# Transcript",
+      "",
+      `- **Session:** ${document.sessionId}`,
+      `- **Started:** ${document.startedAt.toISOString()}`,
+      `- **Duration:** ${formatOffset(document.durationMs)}`,
+    ];
+    if (document.languages.length > 0) {
+      header.push(`- **Languages:** ${document.languages.join(", ")}`);
+    }
+
+    const turns = document.turns.map((turn) => {
+      const label = turn.speaker ? `**${escapeMarkdown(turn.speaker)}** ` : "";
+      return `${label}_${formatOffset(turn.start_ms)}_  \n${escapeMarkdown(turn.text)}`;
+    });
+
+    return [...header, "", "---", "", turns.join("\n\n")].join("\n").concat("\n");
+  }
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_{}\[\]<>#|])/g, "\\$1");
+}
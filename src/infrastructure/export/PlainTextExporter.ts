@@ -0,0 +1,21 @@
+import type {
+  ITranscriptDocument,
+  ITranscriptExporter,
+} from "../../domain/repositories/ITranscriptExporter.js";
+import { formatOffset } from "./formatTimestamp.js";
+
+export class PlainTextExporter implements ITranscriptExporter {
+  readonly format = "txt" as const;
+  readonly contentType = "text/plain; charset=utf-8";
+  readonly fileExtension = "txt";
+
+  render(document: ITranscriptDocument): string {
+    return document.turns
+      .map((turn) => {
+        const label = turn.speaker ? `${turn.speaker}: ` : "";
+        return `[${formatOffset(turn.start_ms)}] ${label}${turn.text}`;
+      })
+      .join("\n\n")
+      .concat("\n");
+  }
+}
@@ -0,0 +1,29 @@
+import type {
+  ITranscriptDocument,
+  ITranscriptExporter,
+} from "../../domain/repositories/ITranscriptExporter.js";
+import { formatTimestamp } from "./formatTimestamp.js";
+
+export class SrtExporter implements ITranscriptExporter {
+  readonly format = "srt" as const;
+  readonly contentType = "application/x-subrip; charset=utf-8";
+  readonly fileExtension = "srt";
+
+  render(document: ITranscriptDocument): string {
+    return document.cues
+      .map((cue, index) => {
+        const lines = [...cue.lines];
+        if (cue.speaker && lines.length > 0) {
+          lines[0] = `${cue.speaker}: ${lines[0]}`;
+        }
+
+        return [
+          String(index + 1),
+          `${formatTimestamp(cue.start_ms, ",")} --> ${formatTimestamp(cue.end_ms, ",")}`,
+          ...lines,
+        ].join("\n");
+      })
+      .join("\n\n")
+      .concat("\n");
+  }
+}
@@ -0,0 +1,42 @@
+import type {
+  ITranscriptDocument,
+  ITranscriptExporter,
+} from "../../domain/repositories/ITranscriptExporter.js";
+import { formatTimestamp } from "./formatTimestamp.js";
+
+export class WebVttExporter implements ITranscriptExporter {
+  readonly format = "vtt" as const;
+  readonly contentType = "text/vtt; charset=utf-8";
+  readonly fileExtension = "vtt";
+
+  render(document: ITranscriptDocument): string {
+    // Language spans only matter once a transcript mixes languages
+    const multilingual = document.languages.length > 1;
+
+    const cues = document.cues.map((cue) => {
+      const lines = cue.lines.map((line) => escapeCueText(line));
+      if (multilingual && cue.language && lines.length > 0) {
+        lines[0] = `<lang ${cue.language}>${lines[0]}`;
+        lines[lines.length - 1] = `${lines[lines.length - 1]}</lang>`;
+      }
+      if (cue.speaker && lines.length > 0) {
+        // Voice span so players can style or label the speaker
+        lines[0] = `<v ${escapeCueText(cue.speaker)}>${lines[0]}`;
+      }
+
+      return [
+        `${formatTimestamp(cue.start_ms, ".")} --> ${formatTimestamp(cue.end_ms, ".")}`,
+        ...lines,
+      ].join("\n");
+    });
+
+    return ["WEBVTT", ...cues].join("\n\n").concat("\n");
+  }
+}
+
+function escapeCueText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,33 @@
+/**
+ * Format milliseconds as HH:MM:SS<separator>mmm (SRT uses ",", WebVTT ".")
+ */
+export function formatTimestamp(ms: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const seconds = Math.floor((totalMs % 60_000) / 1000);
+  const millis = totalMs % 1000;
+
+  return (
+    `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}` +
+    `${separator}${pad(millis, 3)}`
+  );
+}
+
+/**
+ * Format milliseconds as a short clock offset, e.g. 05:07 or 1:02:03
+ */
+export function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return hours > 0
+    ? `${hours}:${pad(minutes, 2)}:${pad(seconds, 2)}`
+    : `${pad(minutes, 2)}:${pad(seconds, 2)}`;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
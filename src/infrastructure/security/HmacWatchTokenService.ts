@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type {
+  IWatchTokenClaims,
+  IWatchTokenService,
+} from "../../use-cases/interfaces/IWatchTokenService.js";
+
+interface WatchTokenPayload {
+  sid: string;
+  exp: number; // seconds since the epoch
+}
+
+/**
+ * Stateless watch tokens: base64url(JSON payload) + "." + base64url(HMAC-SHA256).
+ * Rotating the secret invalidates every outstanding link.
+ */
+export class HmacWatchTokenService implements IWatchTokenService {
+  constructor(private secret: string) {}
+
+  sign(claims: IWatchTokenClaims): string {
+    const payload: WatchTokenPayload = {
+      sid: claims.sessionId,
+      exp: Math.floor(claims.expiresAt.getTime() / 1000),
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${encoded}.${this.signature(encoded)}`;
+  }
+
+  verify(token: string): IWatchTokenClaims | null {
+    const [encoded, signature, ...rest] = token.split(".");
+    if (!encoded || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let payload: WatchTokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    } catch {
+      return null;
+    }
+    if (typeof payload?.sid !== "string" || typeof payload.exp !== "number") {
+      return null;
+    }
+
+    const expiresAt = new Date(payload.exp * 1000);
+    if (expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return { sessionId: payload.sid, expiresAt };
+  }
+
+  private signature(encodedPayload: string): string {
+    return createHmac("sha256", this.secret)
+      .update(encodedPayload)
+      .digest("base64url");
+  }
+}
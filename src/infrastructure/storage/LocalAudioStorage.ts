@@ -0,0 +1,72 @@
+import { createReadStream } from "fs";
+import { mkdir, open, rm, stat } from "fs/promises";
+import { join, resolve } from "path";
+import type {
+  IAudioStorage,
+  IAudioStorageWriter,
+  IByteRange,
+} from "../../domain/repositories/IAudioStorage.js";
+
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Stores recordings as files in one directory on the local filesystem
+ */
+export class LocalAudioStorage implements IAudioStorage {
+  private readonly root: string;
+
+  constructor(rootDir: string) {
+    this.root = resolve(rootDir);
+  }
+
+  async createWriter(key: string): Promise<IAudioStorageWriter> {
+    const path = this.pathFor(key);
+    await mkdir(this.root, { recursive: true });
+    const file = await open(path, "w");
+
+    return {
+      append: async (data) => {
+        await file.write(data);
+      },
+      close: async (header) => {
+        try {
+          if (header) {
+            await file.write(header, 0, header.length, 0);
+          }
+        } finally {
+          await file.close();
+        }
+      },
+      abort: async () => {
+        await file.close().catch(() => undefined);
+        await rm(path, { force: true });
+      },
+    };
+  }
+
+  async getSize(key: string): Promise<number | null> {
+    try {
+      return (await stat(this.pathFor(key))).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  read(key: string, range?: IByteRange): AsyncIterable<Uint8Array> {
+    return createReadStream(this.pathFor(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return join(this.root, key);
+  }
+}
@@ -0,0 +1,156 @@
+import type { ISpeakerTurn } from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IActionItem,
+  IDecision,
+  ISummarizationProvider,
+  ISummaryContent,
+} from "../../domain/repositories/ISummarizationProvider.js";
+
+const SUMMARY_SENTENCES = 3;
+const MIN_SUMMARY_WORDS = 5; // shorter sentences rarely carry the gist
+const MAX_ITEMS = 20;
+
+const DECISION_PATTERN =
+  /\b(we(?:'ve| have)? decided|decided to|we(?:'ve| have)? agreed|agreed (?:to|on|that)|let's go with|we(?:'ll| will) go with|(?:we're|we are) going with|settled on|the decision is|final decision)\b/i;
+// A commitment or request only counts when followed by a task, not by
+// "be", "think", "see" and the like ("I'll be honest", "we'll see")
+const ACTION_PATTERN =
+  /\b(?:action items?|to-?dos?|follow(?:-| )?up (?:on|with)|(?:i'll|i will|i'm going to|i am going to|let me|we need to|(?:can|could|would) you(?: please)?)\s+(?!(?:be|say|think|guess|admit|see|know|imagine|believe|mean|like|love|mind|agree|remember|wonder|just|probably|maybe)\b)[\p{L}']+)/iu;
+// Commitments by the speaker themself
+const SELF_PATTERN = /\b(i'll|i will|i'm going to|i am going to|let me)\b/i;
+// Requests, usually answered by the person asked
+const REQUEST_PATTERN = /\b(can you|could you|would you|please)\b/i;
+
+const STOPWORDS = new Set(
+  (
+    "the a an and or but if then so to of in on at by for with from as is are was were be been " +
+    "it its this that these those there here i you he she we they me him her us them my your our " +
+    "their what which who when where why how not no yes do does did have has had will would can " +
+    "could should just also very really about into over than too more some any all okay yeah um uh"
+  ).split(" ")
+);
+
+interface ISentence {
+  text: string;
+  turn: number; // index of the turn it was said in
+  speaker?: string;
+  start_ms: number;
+}
+
+/**
+ * Offline summarizer built on keyword rules, for deployments without an
+ * LLM. The summary picks the sentences richest in the transcript's most
+ * frequent words; action items and decisions are sentences matching
+ * common English phrasings. Items carry the start of the turn they were
+ * said in.
+ */
+export class RuleBasedSummarizationProvider implements ISummarizationProvider {
+  readonly name = "rule-based";
+
+  async summarize(turns: ISpeakerTurn[]): Promise<ISummaryContent> {
+    const sentences = this.splitSentences(turns);
+    const actionItems: IActionItem[] = [];
+    const decisions: IDecision[] = [];
+
+    for (const sentence of sentences) {
+      if (DECISION_PATTERN.test(sentence.text)) {
+        decisions.push({ text: sentence.text, start_ms: sentence.start_ms });
+      } else if (ACTION_PATTERN.test(sentence.text)) {
+        actionItems.push({
+          text: sentence.text,
+          assignee: this.findAssignee(sentence, turns),
+          start_ms: sentence.start_ms,
+        });
+      }
+    }
+
+    return {
+      summary: this.extractSummary(sentences),
+      actionItems: actionItems.slice(0, MAX_ITEMS),
+      decisions: decisions.slice(0, MAX_ITEMS),
+    };
+  }
+
+  private splitSentences(turns: ISpeakerTurn[]): ISentence[] {
+    return turns.flatMap((turn, index) =>
+      turn.text
+        .split(/(?<=[.!?])\s+/)
+        .map((text) => text.trim())
+        .filter((text) => text !== "")
+        .map((text) => ({
+          text,
+          turn: index,
+          speaker: turn.speaker,
+          start_ms: turn.start_ms,
+        }))
+    );
+  }
+
+  /**
+   * The speaker a sentence names, the speaker committing to it, or the
+   * one who answers a request
+   */
+  private findAssignee(sentence: ISentence, turns: ISpeakerTurn[]): string | null {
+    for (const turn of turns) {
+      if (
+        turn.speaker !== undefined &&
+        turn.speaker !== sentence.speaker &&
+        turn.label &&
+        this.mentions(sentence.text, turn.label)
+      ) {
+        return turn.speaker;
+      }
+    }
+
+    if (SELF_PATTERN.test(sentence.text)) {
+      return sentence.speaker ?? null;
+    }
+
+    if (REQUEST_PATTERN.test(sentence.text)) {
+      const reply = turns
+        .slice(sentence.turn + 1)
+        .find((turn) => turn.speaker !== sentence.speaker);
+      return reply?.speaker ?? null;
+    }
+
+    return null;
+  }
+
+  private mentions(text: string, name: string): boolean {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "iu").test(text);
+  }
+
+  private extractSummary(sentences: ISentence[]): string {
+    const frequencies = new Map<string, number>();
+    for (const sentence of sentences) {
+      for (const word of this.keywords(sentence.text)) {
+        frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+      }
+    }
+
+    const ranked = sentences.map((sentence, index) => {
+      const words = this.keywords(sentence.text);
+      const score =
+        words.reduce((sum, word) => sum + (frequencies.get(word) ?? 0), 0) /
+        Math.max(words.length, 1);
+      return { sentence, index, score };
+    });
+    const long = ranked.filter(
+      ({ sentence }) => sentence.text.split(/\s+/).length >= MIN_SUMMARY_WORDS
+    );
+
+    const picked = (long.length > 0 ? long : ranked)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, SUMMARY_SENTENCES)
+      .sort((a, b) => a.index - b.index);
+
+    return picked.map(({ sentence }) => sentence.text).join(" ");
+  }
+
+  private keywords(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).filter(
+      (word) => word.length > 2 && !STOPWORDS.has(word)
+    );
+  }
+}
@@ -0,0 +1,270 @@
+import type { ITranscriptionProvider, ITranscriptionResult, ITranscriptionError } from "../../domain/repositories/ITranscriptionProvider.js";
+import { AudioConfig } from "../../domain/value-objects/AudioConfig.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+const WORD_DURATION_MS = 400;
+const UTTERANCE_GAP_MS = 600;
+
+export interface IMockTranscriptStep {
+  /** Wait after the previous step; the clock stops while paused */
+  delay_ms: number;
+  is_final: boolean;
+  /** Final step that closes the utterance */
+  utterance_end?: boolean;
+  speaker?: string;
+  /** Text carries its own spacing: words start with a space */
+  tokens: Array<{
+    text: string;
+    start_ms: number;
+    end_ms: number;
+    confidence?: number;
+  }>;
+}
+
+export interface IMockUtterance {
+  text: string;
+  speaker?: string;
+}
+
+export interface IMockScript {
+  steps: IMockTranscriptStep[];
+  /** Start over when the script runs out, shifting timestamps forward */
+  loop: boolean;
+}
+
+/**
+ * Expand plain utterances into a token stream the way a streaming
+ * recognizer produces it: one growing partial per word, then a final
+ * that ends the utterance
+ */
+export function buildMockSteps(utterances: IMockUtterance[]): IMockTranscriptStep[] {
+  const steps: IMockTranscriptStep[] = [];
+  let offsetMs = 0;
+
+  for (const utterance of utterances) {
+    const tokens = utterance.text
+      .split(/\s+/)
+      .filter((word) => word.length > 0)
+      .map((word, index) => ({
+        text: ` ${word}`,
+        start_ms: offsetMs + index * WORD_DURATION_MS,
+        end_ms: offsetMs + (index + 1) * WORD_DURATION_MS,
+        confidence: 1,
+      }));
+
+    tokens.forEach((_, index) => {
+      steps.push({
+        delay_ms: index === 0 && steps.length > 0 ? UTTERANCE_GAP_MS : WORD_DURATION_MS,
+        is_final: false,
+        speaker: utterance.speaker,
+        tokens: tokens.slice(0, index + 1),
+      });
+    });
+    steps.push({
+      delay_ms: WORD_DURATION_MS,
+      is_final: true,
+      utterance_end: true,
+      speaker: utterance.speaker,
+      tokens,
+    });
+
+    offsetMs += tokens.length * WORD_DURATION_MS + UTTERANCE_GAP_MS;
+  }
+
+  return steps;
+}
+
+/**
+ * Parse a script file: an array of steps, an array of utterances, or
+ * { loop, steps | utterances }
+ */
+export function parseMockScript(input: unknown): IMockScript {
+  const body = Array.isArray(input) ? { items: input } : (input as Record<string, unknown>);
+  const items = (body?.items ?? body?.steps ?? body?.utterances) as unknown;
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error("Mock transcription script must contain at least one step or utterance");
+  }
+
+  const isStepList = items.every(
+    (item) => item && typeof item === "object" && Array.isArray((item as IMockTranscriptStep).tokens)
+  );
+  const isUtteranceList = items.every(
+    (item) => item && typeof item === "object" && typeof (item as IMockUtterance).text === "string"
+  );
+  if (!isStepList && !isUtteranceList) {
+    throw new Error("Mock transcription script items must all be steps (with tokens) or utterances (with text)");
+  }
+
+  return {
+    steps: isStepList
+      ? (items as IMockTranscriptStep[]).map((step) => ({
+          ...step,
+          delay_ms: Math.max(0, Number(step.delay_ms) || 0),
+          is_final: Boolean(step.is_final),
+          utterance_end: Boolean(step.is_final && step.utterance_end),
+        }))
+      : buildMockSteps(items as IMockUtterance[]),
+    loop: body?.loop === undefined ? true : Boolean(body.loop),
+  };
+}
+
+export const DEFAULT_MOCK_SCRIPT: IMockScript = {
+  steps: buildMockSteps([
+    { text: "Hello and welcome to the call.", speaker: "1" },
+    { text: "This transcript comes from the mock provider.", speaker: "1" },
+    { text: "Thanks, the audio is coming through fine.", speaker: "2" },
+  ]),
+  loop: true,
+};
+
+/**
+ * Offline provider that replays a scripted token stream instead of
+ * recognizing audio. Playback starts with the first audio chunk and halts
+ * while paused, so pause/resume and stop behave like a real streaming
+ * backend.
+ */
+export class MockTranscriptionProvider implements ITranscriptionProvider {
+  private resultCallback: ((result: ITranscriptionResult) => void) | null = null;
+  private errorCallback: ((error: ITranscriptionError) => void) | null = null;
+  private isConnectedStatus: boolean = false;
+  private isPaused: boolean = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private position = 0;
+  private loopOffsetMs = 0;
+  private pendingPartial: IMockTranscriptStep | null = null;
+
+  private readonly audioConfig = new AudioConfig({
+    sampleRate: 16000,
+    channels: 1,
+    format: "pcm_s16le",
+  });
+
+  constructor(
+    private clientId: string,
+    private script: IMockScript,
+    private logger: ILogger
+  ) {}
+
+  async connect(
+    _audioConfig: AudioConfig,
+    onResult: (result: ITranscriptionResult) => void,
+    onError: (error: ITranscriptionError) => void
+  ): Promise<void> {
+    this.stopPlayback();
+    this.resultCallback = onResult;
+    this.errorCallback = onError;
+    this.isConnectedStatus = true;
+    this.isPaused = false;
+    this.position = 0;
+    this.loopOffsetMs = 0;
+    this.pendingPartial = null;
+
+    this.logger.info("Mock transcription provider connected", {
+      clientId: this.clientId,
+      steps: this.script.steps.length,
+    });
+  }
+
+  getAudioConfig(): AudioConfig {
+    return this.audioConfig;
+  }
+
+  /**
+   * Audio is never decoded, so every format is accepted as-is
+   */
+  supportsAudioFormat(_audioConfig: AudioConfig): boolean {
+    return true;
+  }
+
+  sendAudio(_audioData: Uint8Array): void {
+    if (!this.isConnectedStatus) {
+      this.errorCallback?.({
+        error: "Mock provider not connected",
+        details: "Call connect() first before sending audio.",
+      });
+      return;
+    }
+
+    if (!this.isPaused && !this.timer) {
+      this.scheduleNextStep();
+    }
+  }
+
+  pause(): void {
+    this.isPaused = true;
+    this.stopPlayback();
+  }
+
+  resume(): void {
+    this.isPaused = false;
+  }
+
+  async close(): Promise<void> {
+    this.stopPlayback();
+
+    // End of stream finalizes whatever was still pending and ends the
+    // utterance
+    if (this.isConnectedStatus) {
+      this.emit({
+        ...(this.pendingPartial ?? { delay_ms: 0, tokens: [] }),
+        is_final: true,
+        utterance_end: true,
+      });
+    }
+
+    this.isConnectedStatus = false;
+    this.pendingPartial = null;
+    this.logger.info("Mock transcription provider closed", {
+      clientId: this.clientId,
+    });
+  }
+
+  isConnected(): boolean {
+    return this.isConnectedStatus;
+  }
+
+  private scheduleNextStep(): void {
+    const steps = this.script.steps;
+    if (this.position >= steps.length) {
+      if (!this.script.loop || steps.length === 0) {
+        return;
+      }
+      const scriptEndMs = Math.max(
+        ...steps.flatMap((step) => step.tokens.map((token) => token.end_ms))
+      );
+      this.position = 0;
+      this.loopOffsetMs += scriptEndMs + UTTERANCE_GAP_MS;
+    }
+
+    const step = steps[this.position]!;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.position++;
+      this.emit(step);
+      this.scheduleNextStep();
+    }, step.delay_ms);
+  }
+
+  private emit(step: IMockTranscriptStep): void {
+    this.pendingPartial = step.is_final ? null : step;
+    this.resultCallback?.({
+      tokens: step.tokens.map((token) => ({
+        text: token.text,
+        confidence: token.confidence ?? 1,
+        start_ms: token.start_ms + this.loopOffsetMs,
+        end_ms: token.end_ms + this.loopOffsetMs,
+        speaker: step.speaker,
+      })),
+      is_final: step.is_final,
+      speaker: step.speaker,
+      utterance_end: step.utterance_end,
+    });
+  }
+
+  private stopPlayback(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -1,128 +1,402 @@
 import WebSocket from "ws";
-import type { ITranscriptionProvider, ITranscriptionResult, ITranscriptionError } from "../../domain/repositories/ITranscriptionProvider.js";
+import type {
+  ITranscriptionProvider,
+  ITranscriptionResult,
+  ITranscriptionError,
+  ITranscriptionConnectionEvent,
+  ITranscriptionStreamOptions,
+} from "../../domain/repositories/ITranscriptionProvider.js";
+import { AudioConfig } from "../../domain/value-objects/AudioConfig.js";
+import { AudioRingBuffer } from "../audio/AudioRingBuffer.js";
 import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
 
+const KEEP_ALIVE_INTERVAL_MS = 5000;
+
+// Reconnect backoff: 0.5s, 1s, 2s, 4s, 8s, 8s (with +/-20% jitter)
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+// Audio kept while disconnected; older audio is dropped past this
+const MAX_BUFFERED_AUDIO_MS = 30000;
+const MAX_BUFFERED_COMPRESSED_BYTES = 512 * 1024;
+
+// Marker token sent with endpoint detection when an utterance ends
+const ENDPOINT_TOKEN = "<end>";
+
+export const SONIOX_DEFAULT_URL = "wss://stt-rt.soniox.com/transcribe-websocket";
+export const SONIOX_DEFAULT_MODEL = "stt-rt-v3";
+
+export interface ISonioxConfig {
+  apiKey: string;
+  url: string;
+  model: string;
+}
+
+interface SonioxToken {
+  text: string;
+  confidence: number;
+  start_ms: number;
+  end_ms: number;
+  is_final?: boolean;
+  speaker?: string;
+  language?: string;
+}
+
 export class SonioxProvider implements ITranscriptionProvider {
   private ws: WebSocket | null = null;
-  private apiKey: string;
-  private clientId: string;
   private resultCallback: ((result: ITranscriptionResult) => void) | null = null;
   private errorCallback: ((error: ITranscriptionError) => void) | null = null;
+  private connectionCallback:
+    | ((event: ITranscriptionConnectionEvent) => void)
+    | null = null;
   private isConnectedStatus: boolean = false;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(clientId: string, private logger: ILogger) {
-    const apiKey = process.env.SONIOX_API_KEY;
-    if (!apiKey) {
-      throw new Error("SONIOX_API_KEY not found in environment variables");
-    }
-    this.apiKey = apiKey;
-    this.clientId = clientId;
-  }
+  // Reconnection state for the current stream
+  private streamAudioConfig: AudioConfig | null = null;
+  private streamOptions: ITranscriptionStreamOptions = {};
+  private isClosing: boolean = false;
+  private hasFatalError: boolean = false;
+  private isReconnecting: boolean = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingAudio = new AudioRingBuffer(0);
+  private containerHeader: Uint8Array | null = null;
+
+  // Soniox restarts timestamps at 0 on every connection, so tokens are
+  // shifted by the stream position at which the connection began
+  private timestampOffsetMs = 0;
+  private bytesSentOnConnection = 0;
+  private droppedAudioMs = 0;
+  private lastTokenEndMs = 0;
+
+  // Clients' audio is converted to this before it is sent
+  private readonly audioConfig = new AudioConfig({
+    sampleRate: 16000,
+    channels: 1,
+    format: "pcm_s16le",
+  });
+
+  constructor(
+    private clientId: string,
+    private config: ISonioxConfig,
+    private logger: ILogger
+  ) {}
 
   async connect(
+    audioConfig: AudioConfig,
     onResult: (result: ITranscriptionResult) => void,
-    onError: (error: ITranscriptionError) => void
+    onError: (error: ITranscriptionError) => void,
+    onConnectionEvent?: (event: ITranscriptionConnectionEvent) => void,
+    options: ITranscriptionStreamOptions = {}
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.resultCallback = onResult;
-        this.errorCallback = onError;
+    this.resultCallback = onResult;
+    this.errorCallback = onError;
+    this.connectionCallback = onConnectionEvent ?? null;
+    this.streamOptions = options;
+    this.resetStream(audioConfig);
 
-        const wsUrl = "wss://stt-rt.soniox.com/transcribe-websocket";
+    try {
+      await this.openSocket(audioConfig);
+    } catch (error) {
+      this.logger.error("Failed to connect to Soniox", {
+        clientId: this.clientId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
 
-        this.ws = new WebSocket(wsUrl);
+  getAudioConfig(): AudioConfig {
+    return this.audioConfig;
+  }
 
-        let resolved = false;
-        let hasError = false;
+  /**
+   * Raw PCM is normalized to 16 kHz mono before it reaches Soniox;
+   * WebM/Ogg containers are passed through and auto-detected by Soniox
+   */
+  supportsAudioFormat(audioConfig: AudioConfig): boolean {
+    return audioConfig.isCompressed() || audioConfig.equals(this.audioConfig);
+  }
 
-        this.ws.on("open", () => {
-          this.logger.info("Soniox WebSocket connected", {
-            clientId: this.clientId,
-          });
-          this.isConnectedStatus = true;
+  private toAudioFormatConfig(audioConfig: AudioConfig) {
+    if (audioConfig.isCompressed()) {
+      return { audio_format: "auto" };
+    }
+    return {
+      audio_format: audioConfig.format,
+      sample_rate: audioConfig.sampleRate,
+      num_channels: audioConfig.channels,
+    };
+  }
 
-          // Send configuration message with retry logic
-          const sendConfig = () => {
-            const config = {
-              api_key: this.apiKey,
-              model: "stt-rt-v3",
-              audio_format: "pcm_s16le",
-              sample_rate: 16000,
-              num_channels: 1,
-              language_hints: ["en"],
-              enable_language_identification: true,
-              enable_speaker_diarization: true,
-              enable_endpoint_detection: true,
-            };
-
-            try {
-              // Check readyState before sending
-              if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-                this.ws.send(JSON.stringify(config));
-                if (!resolved && !hasError) {
-                  resolved = true;
-                  resolve();
-                }
-              } else {
-                // Retry after a short delay
-                setTimeout(sendConfig, 50);
-              }
-            } catch (sendError) {
-              this.logger.error("Failed to send config to Soniox", {
-                clientId: this.clientId,
-                error: sendError,
-              });
-              if (!resolved && !hasError) {
-                hasError = true;
-                reject(sendError);
-              }
-            }
-          };
+  /**
+   * Without hints Soniox considers every language it supports
+   */
+  private toLanguageConfig() {
+    const hints = this.streamOptions.languageHints ?? [];
+    return hints.length > 0 ? { language_hints: hints } : {};
+  }
 
-          sendConfig();
-        });
+  /**
+   * Glossary terms are sent as context, which biases recognition towards them
+   */
+  private toContextConfig() {
+    const terms = this.streamOptions.vocabulary ?? [];
+    return terms.length > 0 ? { context: { terms } } : {};
+  }
+
+  /**
+   * Open a WebSocket and send the stream configuration. Resolves once
+   * Soniox can accept audio; rejects if the socket fails before that.
+   */
+  private openSocket(audioConfig: AudioConfig): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.config.url);
+      this.ws = ws;
+
+      let opened = false;
 
-        this.ws.on("message", (data: WebSocket.Data) => {
-          this.handleMessage(data);
+      ws.on("open", () => {
+        this.logger.info("Soniox WebSocket connected", {
+          clientId: this.clientId,
         });
 
-        this.ws.on("error", (error: Error) => {
-          this.logger.error("Soniox WebSocket error", {
+        const config = {
+          api_key: this.config.apiKey,
+          model: this.config.model,
+          ...this.toAudioFormatConfig(audioConfig),
+          ...this.toLanguageConfig(),
+          enable_language_identification: true,
+          enable_speaker_diarization: true,
+          enable_endpoint_detection: true,
+          ...this.toContextConfig(),
+        };
+
+        try {
+          ws.send(JSON.stringify(config));
+          opened = true;
+          this.isConnectedStatus = true;
+          this.bytesSentOnConnection = 0;
+          resolve();
+        } catch (sendError) {
+          this.logger.error("Failed to send config to Soniox", {
             clientId: this.clientId,
-            error: error.message,
+            error: sendError instanceof Error ? sendError.message : String(sendError),
           });
-          this.isConnectedStatus = false;
+          reject(sendError);
+        }
+      });
 
-          if (this.errorCallback) {
-            this.errorCallback({
-              error: "WebSocket error",
-              details: error.message,
-            });
-          }
+      ws.on("message", (data: WebSocket.Data, isBinary: boolean) => {
+        // Ignore late frames from a connection that has been replaced
+        if (this.ws !== ws) {
+          return;
+        }
+        // ws delivers text frames as Buffers; Soniox responses are JSON text
+        this.handleMessage(isBinary ? data : data.toString());
+      });
 
-          if (!resolved && !hasError) {
-            hasError = true;
-            reject(error);
-          }
+      ws.on("error", (error: Error) => {
+        this.logger.error("Soniox WebSocket error", {
+          clientId: this.clientId,
+          error: error.message,
         });
 
-        this.ws.on("close", () => {
-          this.logger.info("Soniox WebSocket closed", {
-            clientId: this.clientId,
-          });
-          this.isConnectedStatus = false;
-        });
-      } catch (error) {
-        this.logger.error("Failed to connect to Soniox", {
+        // A failed handshake rejects; drops after that are handled on close
+        if (!opened) {
+          reject(error);
+        }
+      });
+
+      ws.on("close", (code: number) => {
+        this.logger.info("Soniox WebSocket closed", {
           clientId: this.clientId,
-          error,
+          code,
         });
-        reject(error);
+        if (this.ws !== ws) {
+          return;
+        }
+
+        this.isConnectedStatus = false;
+        if (opened && !this.isClosing && !this.hasFatalError) {
+          this.handleConnectionLost();
+        } else if (!opened) {
+          reject(new Error(`Soniox closed the connection (code ${code})`));
+        }
+      });
+    });
+  }
+
+  /**
+   * The stream dropped unexpectedly: buffer audio from now on and try to
+   * reconnect with exponential backoff
+   */
+  private handleConnectionLost(): void {
+    if (this.isReconnecting) {
+      return;
+    }
+
+    this.isReconnecting = true;
+    this.reconnectAttempt = 0;
+    this.advanceTimestampOffset();
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectAttempt++;
+
+    if (this.reconnectAttempt > MAX_RECONNECT_ATTEMPTS) {
+      this.isReconnecting = false;
+      this.pendingAudio.clear();
+      this.logger.error("Soniox reconnection failed", {
+        clientId: this.clientId,
+        attempts: MAX_RECONNECT_ATTEMPTS,
+      });
+      this.errorCallback?.({
+        error: "Transcription provider connection lost",
+        details: `Could not reconnect after ${MAX_RECONNECT_ATTEMPTS} attempts`,
+      });
+      return;
+    }
+
+    const backoff = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempt - 1)
+    );
+    const delay = Math.round(backoff * (0.8 + Math.random() * 0.4));
+
+    this.logger.warn("Soniox connection lost, reconnecting", {
+      clientId: this.clientId,
+      attempt: this.reconnectAttempt,
+      delayMs: delay,
+    });
+    this.connectionCallback?.({
+      type: "reconnecting",
+      attempt: this.reconnectAttempt,
+      delay_ms: delay,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    const audioConfig = this.streamAudioConfig;
+    if (!audioConfig || this.isClosing) {
+      return;
+    }
+
+    try {
+      await this.openSocket(audioConfig);
+    } catch {
+      if (!this.isClosing) {
+        this.scheduleReconnect();
       }
+      return;
+    }
+
+    if (this.isClosing) {
+      this.ws?.close();
+      return;
+    }
+
+    // Audio evicted from the buffer is a gap in the stream
+    this.timestampOffsetMs += this.droppedAudioMs;
+    this.droppedAudioMs = 0;
+
+    // Containers are unreadable without their header, so a new
+    // connection starts with it again
+    if (this.containerHeader) {
+      this.ws?.send(this.containerHeader);
+    }
+
+    const buffered = this.pendingAudio.drain();
+    this.isReconnecting = false;
+    for (const chunk of buffered) {
+      this.sendAudio(chunk);
+    }
+
+    this.logger.info("Soniox reconnected", {
+      clientId: this.clientId,
+      attempt: this.reconnectAttempt,
+      replayedChunks: buffered.length,
+    });
+    this.connectionCallback?.({
+      type: "reconnected",
+      attempt: this.reconnectAttempt,
     });
   }
 
+  /**
+   * Move the timestamp offset to where the next connection's audio begins
+   */
+  private advanceTimestampOffset(): void {
+    const audioConfig = this.streamAudioConfig;
+    const sentMs =
+      audioConfig && !audioConfig.isCompressed()
+        ? audioConfig.bytesToDurationMs(this.bytesSentOnConnection)
+        : 0;
+
+    // Compressed streams have no byte-to-time mapping; the last token
+    // seen is the best available position
+    this.timestampOffsetMs = Math.max(
+      this.timestampOffsetMs + sentMs,
+      this.lastTokenEndMs
+    );
+    this.bytesSentOnConnection = 0;
+  }
+
+  private bufferAudio(audioData: Uint8Array): void {
+    const evicted = this.pendingAudio.push(audioData);
+    if (evicted > 0 && this.streamAudioConfig && !this.streamAudioConfig.isCompressed()) {
+      this.droppedAudioMs += this.streamAudioConfig.bytesToDurationMs(evicted);
+    }
+  }
+
+  private resetStream(audioConfig: AudioConfig): void {
+    this.stopReconnecting();
+    this.streamAudioConfig = audioConfig;
+    this.isClosing = false;
+    this.hasFatalError = false;
+    this.pendingAudio = new AudioRingBuffer(
+      audioConfig.isCompressed()
+        ? MAX_BUFFERED_COMPRESSED_BYTES
+        : Math.ceil(
+            (audioConfig.sampleRate * MAX_BUFFERED_AUDIO_MS) / 1000
+          ) * audioConfig.getBytesPerFrame()
+    );
+    this.containerHeader = null;
+    this.timestampOffsetMs = 0;
+    this.bytesSentOnConnection = 0;
+    this.droppedAudioMs = 0;
+    this.lastTokenEndMs = 0;
+  }
+
+  private stopReconnecting(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.isReconnecting = false;
+    this.reconnectAttempt = 0;
+    this.pendingAudio.clear();
+  }
+
   sendAudio(audioData: Uint8Array): void {
+    if (this.streamAudioConfig?.isCompressed() && !this.containerHeader) {
+      this.containerHeader = audioData;
+    }
+
+    // Hold audio until the connection is back
+    if (this.isReconnecting) {
+      this.bufferAudio(audioData);
+      return;
+    }
+
     if (!this.ws || !this.isConnectedStatus) {
       const error = {
         error: "Soniox connection not established",
@@ -143,6 +417,7 @@ export class SonioxProvider implements ITranscriptionProvider {
     try {
       // Send binary audio frame
       this.ws.send(audioData);
+      this.bytesSentOnConnection += audioData.length;
     } catch (error) {
       const errorMsg = {
         error: "Failed to send audio to Soniox",
@@ -159,9 +434,36 @@ export class SonioxProvider implements ITranscriptionProvider {
     }
   }
 
+  pause(): void {
+    if (this.keepAliveTimer) {
+      return;
+    }
+
+    // Soniox drops connections that receive no audio for ~20 seconds,
+    // so keep the stream alive while the client is paused
+    this.keepAliveTimer = setInterval(() => {
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.ws.send(JSON.stringify({ type: "keepalive" }));
+      }
+    }, KEEP_ALIVE_INTERVAL_MS);
+
+    this.logger.info("Soniox stream paused", { clientId: this.clientId });
+  }
+
+  resume(): void {
+    this.stopKeepAlive();
+    this.logger.info("Soniox stream resumed", { clientId: this.clientId });
+  }
+
   async close(): Promise<void> {
+    this.isClosing = true;
+    this.stopKeepAlive();
+    this.stopReconnecting();
+
     return new Promise((resolve) => {
-      if (!this.ws) {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        this.isConnectedStatus = false;
+        this.emitResult([], true, undefined, true);
         resolve();
         return;
       }
@@ -179,6 +481,8 @@ export class SonioxProvider implements ITranscriptionProvider {
           this.logger.info("Soniox connection closed gracefully", {
             clientId: this.clientId,
           });
+          // Speech cut off by the stop has no endpoint of its own
+          this.emitResult([], true, undefined, true);
           resolve();
         }, 500);
       } catch (error) {
@@ -187,6 +491,7 @@ export class SonioxProvider implements ITranscriptionProvider {
           error,
         });
         this.isConnectedStatus = false;
+        this.emitResult([], true, undefined, true);
         resolve();
       }
     });
@@ -196,6 +501,44 @@ export class SonioxProvider implements ITranscriptionProvider {
     return this.isConnectedStatus;
   }
 
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  private emitResult(
+    tokens: SonioxToken[],
+    isFinal: boolean,
+    speaker?: string,
+    utteranceEnd = false
+  ): void {
+    const result: ITranscriptionResult = {
+      tokens: tokens.map((token) => ({
+        text: token.text,
+        confidence: token.confidence,
+        start_ms: token.start_ms + this.timestampOffsetMs,
+        end_ms: token.end_ms + this.timestampOffsetMs,
+        speaker: token.speaker ?? speaker,
+        language: token.language,
+      })),
+      is_final: isFinal,
+      speaker: speaker ?? tokens[0]?.speaker,
+    };
+    if (utteranceEnd) {
+      result.utterance_end = true;
+    }
+
+    for (const token of result.tokens) {
+      this.lastTokenEndMs = Math.max(this.lastTokenEndMs, token.end_ms);
+    }
+
+    if (this.resultCallback) {
+      this.resultCallback(result);
+    }
+  }
+
   private handleMessage(data: WebSocket.Data): void {
     try {
       if (typeof data === "string") {
@@ -209,6 +552,14 @@ export class SonioxProvider implements ITranscriptionProvider {
             error_message: response.error_message,
           });
 
+          // Server-side failures and timeouts are retried when the socket
+          // closes; anything else (bad key, bad config) is final
+          const code = Number(response.error_code);
+          if (code >= 500 || code === 408) {
+            return;
+          }
+          this.hasFatalError = true;
+
           if (this.errorCallback) {
             this.errorCallback({
               error: response.error_message || response.error_code,
@@ -219,21 +570,38 @@ export class SonioxProvider implements ITranscriptionProvider {
         }
 
         // Process transcription result
-        if (response.tokens) {
-          const result: ITranscriptionResult = {
-            tokens: response.tokens,
-            is_final: response.is_final || false,
-            speaker: response.speaker,
-          };
+        if (response.tokens && response.tokens.length > 0) {
+          // Soniox flags finality per token, so a single response can carry
+          // both newly finalized tokens and a non-final tail
+          const finalTokens = response.tokens.filter(
+            (token: SonioxToken) => token.is_final
+          );
+          const partialTokens = response.tokens.filter(
+            (token: SonioxToken) => !token.is_final && token.text !== ENDPOINT_TOKEN
+          );
 
           this.logger.info("Transcription result received", {
             clientId: this.clientId,
-            tokenCount: response.tokens.length,
-            isFinal: result.is_final,
+            finalTokenCount: finalTokens.length,
+            partialTokenCount: partialTokens.length,
           });
 
-          if (this.resultCallback) {
-            this.resultCallback(result);
+          // Endpoint markers split the final tokens into utterances; the
+          // marker itself is not transcript text
+          let utterance: SonioxToken[] = [];
+          for (const token of finalTokens) {
+            if (token.text === ENDPOINT_TOKEN) {
+              this.emitResult(utterance, true, response.speaker, true);
+              utterance = [];
+            } else {
+              utterance.push(token);
+            }
+          }
+          if (utterance.length > 0) {
+            this.emitResult(utterance, true, response.speaker);
+          }
+          if (partialTokens.length > 0) {
+            this.emitResult(partialTokens, false, response.speaker);
           }
         }
 
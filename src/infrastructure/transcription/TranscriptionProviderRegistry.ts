@@ -0,0 +1,48 @@
+import type {
+  ITranscriptionProvider,
+  TranscriptionProviderFactory,
+} from "../../domain/repositories/ITranscriptionProvider.js";
+
+/**
+ * Named transcription backends, selected per connection by configuration
+ * or organization setting
+ */
+export class TranscriptionProviderRegistry {
+  private factories = new Map<string, TranscriptionProviderFactory>();
+
+  constructor(private defaultName: string) {}
+
+  register(name: string, factory: TranscriptionProviderFactory): this {
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  getDefaultName(): string {
+    return this.defaultName;
+  }
+
+  /**
+   * The preferred provider when it is registered, otherwise the default
+   */
+  resolve(preferred?: string | null): string {
+    return preferred && this.has(preferred) ? preferred : this.defaultName;
+  }
+
+  create(name: string, clientId: string): ITranscriptionProvider {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(
+        `Transcription provider "${name}" is not configured (available: ${this.names().join(", ") || "none"})`
+      );
+    }
+    return factory(clientId);
+  }
+}
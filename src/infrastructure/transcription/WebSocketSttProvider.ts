@@ -0,0 +1,302 @@
+import WebSocket from "ws";
+import type { ITranscriptionProvider, ITranscriptionResult, ITranscriptionError } from "../../domain/repositories/ITranscriptionProvider.js";
+import { AudioConfig } from "../../domain/value-objects/AudioConfig.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+const KEEP_ALIVE_INTERVAL_MS = 5000;
+const FINISH_TIMEOUT_MS = 3000;
+
+export interface IWebSocketSttConfig {
+  url: string;
+  apiKey?: string;
+  sampleRate: number;
+}
+
+interface WebSocketSttToken {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+type WebSocketSttMessage =
+  | {
+      type: "transcript";
+      is_final: boolean;
+      utterance_end?: boolean;
+      speaker?: string;
+      tokens: WebSocketSttToken[];
+    }
+  | { type: "error"; message: string; details?: string }
+  | { type: "finished" };
+
+/**
+ * Adapter for any STT server speaking a minimal JSON-over-WebSocket protocol.
+ *
+ * Client -> server:
+ *   { "type": "start", "audio": { "format", "sample_rate", "channels" } }
+ *   binary frames of audio in that format
+ *   { "type": "keepalive" } while paused
+ *   { "type": "stop" } to flush; the server answers "finished"
+ *
+ * Server -> client:
+ *   { "type": "transcript", "is_final", "utterance_end"?, "speaker"?, "tokens": [{ text, start_ms, end_ms, confidence?, speaker? }] }
+ *   { "type": "error", "message", "details"? }
+ *   { "type": "finished" }
+ *
+ * Tokens are whole words; the adapter adds the space that separates them
+ * unless the server already sent it. "utterance_end" marks a final that
+ * closes an utterance, and may come with no tokens.
+ *
+ * The API key, when configured, is sent as a Bearer Authorization header.
+ */
+export class WebSocketSttProvider implements ITranscriptionProvider {
+  private ws: WebSocket | null = null;
+  private resultCallback: ((result: ITranscriptionResult) => void) | null = null;
+  private errorCallback: ((error: ITranscriptionError) => void) | null = null;
+  private finishCallback: (() => void) | null = null;
+  private isConnectedStatus: boolean = false;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly audioConfig: AudioConfig;
+
+  constructor(
+    private clientId: string,
+    private config: IWebSocketSttConfig,
+    private logger: ILogger
+  ) {
+    this.audioConfig = new AudioConfig({
+      sampleRate: config.sampleRate,
+      channels: 1,
+      format: "pcm_s16le",
+    });
+  }
+
+  async connect(
+    audioConfig: AudioConfig,
+    onResult: (result: ITranscriptionResult) => void,
+    onError: (error: ITranscriptionError) => void
+  ): Promise<void> {
+    this.resultCallback = onResult;
+    this.errorCallback = onError;
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.config.url, {
+        headers: this.config.apiKey
+          ? { Authorization: `Bearer ${this.config.apiKey}` }
+          : undefined,
+      });
+      this.ws = ws;
+      let settled = false;
+
+      ws.on("open", () => {
+        this.isConnectedStatus = true;
+        this.logger.info("STT WebSocket connected", { clientId: this.clientId });
+
+        ws.send(
+          JSON.stringify({
+            type: "start",
+            audio: {
+              format: audioConfig.format,
+              sample_rate: audioConfig.sampleRate,
+              channels: audioConfig.channels,
+            },
+          })
+        );
+        settled = true;
+        resolve();
+      });
+
+      ws.on("message", (data: WebSocket.Data, isBinary: boolean) => {
+        // Ignore late frames from a connection that has been replaced
+        if (this.ws !== ws || isBinary) {
+          return;
+        }
+        this.handleMessage(data.toString());
+      });
+
+      ws.on("error", (error: Error) => {
+        this.logger.error("STT WebSocket error", {
+          clientId: this.clientId,
+          error: error.message,
+        });
+
+        if (this.ws === ws) {
+          this.isConnectedStatus = false;
+          this.errorCallback?.({ error: "WebSocket error", details: error.message });
+        }
+
+        if (!settled) {
+          settled = true;
+          reject(error);
+        }
+      });
+
+      ws.on("close", () => {
+        this.logger.info("STT WebSocket closed", { clientId: this.clientId });
+        if (this.ws === ws) {
+          this.isConnectedStatus = false;
+          this.stopKeepAlive();
+          this.finishCallback?.();
+        }
+      });
+    });
+  }
+
+  getAudioConfig(): AudioConfig {
+    return this.audioConfig;
+  }
+
+  /**
+   * Only raw PCM at the configured sample rate is streamed as-is
+   */
+  supportsAudioFormat(audioConfig: AudioConfig): boolean {
+    return audioConfig.equals(this.audioConfig);
+  }
+
+  sendAudio(audioData: Uint8Array): void {
+    if (!this.ws || !this.isConnectedStatus) {
+      this.errorCallback?.({
+        error: "STT connection not established",
+        details:
+          "WebSocket is not connected. Call connect() first before sending audio.",
+      });
+      return;
+    }
+
+    try {
+      this.ws.send(audioData);
+    } catch (error) {
+      const errorMsg = {
+        error: "Failed to send audio to STT server",
+        details: error instanceof Error ? error.message : String(error),
+      };
+      this.logger.error("Audio send error", {
+        clientId: this.clientId,
+        ...errorMsg,
+      });
+      this.errorCallback?.(errorMsg);
+    }
+  }
+
+  pause(): void {
+    if (this.keepAliveTimer) {
+      return;
+    }
+
+    this.keepAliveTimer = setInterval(() => {
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.ws.send(JSON.stringify({ type: "keepalive" }));
+      }
+    }, KEEP_ALIVE_INTERVAL_MS);
+  }
+
+  resume(): void {
+    this.stopKeepAlive();
+  }
+
+  async close(): Promise<void> {
+    this.stopKeepAlive();
+
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      this.isConnectedStatus = false;
+      this.endUtterance();
+      return;
+    }
+
+    // Wait for the server to flush its finals, but not forever
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(done, FINISH_TIMEOUT_MS);
+      function done() {
+        clearTimeout(timeout);
+        resolve();
+      }
+      this.finishCallback = done;
+
+      try {
+        ws.send(JSON.stringify({ type: "stop" }));
+      } catch (error) {
+        this.logger.error("Error stopping STT stream", {
+          clientId: this.clientId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        done();
+      }
+    });
+
+    this.finishCallback = null;
+    this.isConnectedStatus = false;
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.close();
+    }
+    this.endUtterance();
+  }
+
+  /**
+   * Speech cut off by the stop has no utterance end of its own
+   */
+  private endUtterance(): void {
+    this.resultCallback?.({ tokens: [], is_final: true, utterance_end: true });
+  }
+
+  isConnected(): boolean {
+    return this.isConnectedStatus;
+  }
+
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let message: WebSocketSttMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      this.logger.error("Failed to parse STT message", {
+        clientId: this.clientId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.errorCallback?.({
+        error: "Failed to parse transcription response",
+        details: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    switch (message.type) {
+      case "transcript":
+        if (
+          (Array.isArray(message.tokens) && message.tokens.length > 0) ||
+          (message.is_final && message.utterance_end)
+        ) {
+          this.resultCallback?.({
+            tokens: (Array.isArray(message.tokens) ? message.tokens : []).map((token) => ({
+              text: /^\s/.test(token.text) ? token.text : ` ${token.text}`,
+              confidence: token.confidence ?? 1,
+              start_ms: token.start_ms,
+              end_ms: token.end_ms,
+              speaker: token.speaker ?? message.speaker,
+            })),
+            is_final: Boolean(message.is_final),
+            speaker: message.speaker,
+            utterance_end: Boolean(message.is_final && message.utterance_end),
+          });
+        }
+        break;
+      case "error":
+        this.logger.error("STT server returned error", {
+          clientId: this.clientId,
+          error: message.message,
+        });
+        this.errorCallback?.({ error: message.message, details: message.details });
+        break;
+      case "finished":
+        this.finishCallback?.();
+        break;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { ITranslationProvider } from "../../domain/repositories/ITranslationProvider.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+/**
+ * Translator backed by a LibreTranslate-compatible HTTP API
+ */
+export class LibreTranslateProvider implements ITranslationProvider {
+  constructor(
+    private apiUrl: string,
+    private apiKey: string | undefined,
+    private logger: ILogger
+  ) {}
+
+  async translate(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage?: string
+  ): Promise<string> {
+    const response = await fetch(`${this.apiUrl.replace(/\/$/, "")}/translate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        q: text,
+        source: sourceLanguage ?? "auto",
+        target: targetLanguage,
+        format: "text",
+        api_key: this.apiKey,
+      }),
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      this.logger.error("Translation request failed", {
+        status: response.status,
+        targetLanguage,
+        details,
+      });
+      throw new Error(`Translation request failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as { translatedText?: string };
+    return body.translatedText ?? "";
+  }
+}
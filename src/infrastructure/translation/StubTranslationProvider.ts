@@ -0,0 +1,11 @@
+import type { ITranslationProvider } from "../../domain/repositories/ITranslationProvider.js";
+
+/**
+ * Deterministic offline translator for tests and local development.
+ * Returns the source text tagged with the target language, e.g. "[es] hello".
+ */
+export class StubTranslationProvider implements ITranslationProvider {
+  async translate(text: string, targetLanguage: string): Promise<string> {
+    return `[${targetLanguage}] ${text}`;
+  }
+}
@@ -0,0 +1,91 @@
+import { createHmac } from "crypto";
+import { lookup, type LookupAddress } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import type { LookupFunction } from "net";
+import {
+  WebhookUrl,
+  type IWebhookUrlRules,
+} from "../../domain/value-objects/WebhookUrl.js";
+import type {
+  IWebhookRequest,
+  IWebhookSender,
+} from "../../use-cases/interfaces/IWebhookSender.js";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Posts webhook events. Receivers verify
+ * X-Intercall-Signature: "sha256=" + hex HMAC-SHA256 of
+ * `${X-Intercall-Timestamp}.${raw body}` keyed with the endpoint secret,
+ * and may reject old timestamps to block replays. Redirects are not
+ * followed, and unless private networks are allowed, the host is
+ * connected to only if every address it resolves to is public, so a name
+ * that re-resolves to an internal address after the endpoint was created
+ * is still refused.
+ */
+export class HttpWebhookSender implements IWebhookSender {
+  constructor(private rules: IWebhookUrlRules) {}
+
+  async send(request: IWebhookRequest): Promise<{ status: number }> {
+    // Endpoints created under looser rules are checked again
+    const url = new WebhookUrl(request.url, this.rules).value;
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac("sha256", request.secret)
+      .update(`${timestamp}.${request.body}`)
+      .digest("hex");
+
+    const sendRequest = url.protocol === "https:" ? httpsRequest : httpRequest;
+    return new Promise((resolve, reject) => {
+      const outgoing = sendRequest(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(request.body),
+            "User-Agent": "Intercall-Webhooks/1.0",
+            "X-Intercall-Event": request.event,
+            "X-Intercall-Delivery": request.deliveryId,
+            "X-Intercall-Timestamp": timestamp,
+            "X-Intercall-Signature": `sha256=${signature}`,
+          },
+          lookup: this.rules.allowPrivateNetworks ? undefined : lookupPublicAddress,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        },
+        (response) => {
+          // The body is not used; drain it so the connection can be reused
+          response.resume();
+          resolve({ status: response.statusCode ?? 0 });
+        }
+      );
+      outgoing.on("error", reject);
+      outgoing.end(request.body);
+    });
+  }
+}
+
+/**
+ * DNS lookup that fails for names resolving to any non-public address
+ */
+const lookupPublicAddress = ((hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !WebhookUrl.isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`${hostname} does not resolve to a public address`), "", 0);
+      return;
+    }
+
+    if ((options as { all?: boolean }).all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0]!.address, addresses[0]!.family);
+    }
+  });
+}) as LookupFunction;
@@ -2,7 +2,7 @@ import "dotenv/config";
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { db } from "./db";
-import { openAPI, organization } from "better-auth/plugins";
+import { bearer, openAPI, organization } from "better-auth/plugins";
 import * as schema from "./schema";
 import { logger } from "./logger";
 import { eq } from "drizzle-orm";
@@ -28,6 +28,12 @@ export const auth = betterAuth({
     "http://localhost:3000", // express
     "http://localhost:8080", // vite
   ],
+  user: {
+    additionalFields: {
+      // Read by LanguageHintsPolicy, e.g. "en,es"
+      languageHints: { type: "string", required: false },
+    },
+  },
   session: {
     cookieCache: {
       enabled: true,
@@ -65,6 +71,7 @@ export const auth = betterAuth({
       },
     }),
     openAPI(),
+    bearer(), // Allow Authorization: Bearer <token> for Socket.IO and API clients
   ],
   socialProviders: {
     google: {
@@ -0,0 +1,45 @@
+import type { IncomingHttpHeaders } from "http";
+import { fromNodeHeaders } from "better-auth/node";
+import { auth } from "./auth.js";
+
+/**
+ * Authenticated identity resolved from a Better Auth session
+ */
+export interface IAuthContext {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  organizationId: string | null;
+}
+
+/**
+ * Resolve the Better Auth session from the session cookie or an
+ * Authorization header. An explicit token (e.g. from a Socket.IO handshake)
+ * is treated as a bearer token when no Authorization header is present.
+ */
+export async function getAuthContext(
+  nodeHeaders: IncomingHttpHeaders,
+  token?: unknown
+): Promise<IAuthContext | null> {
+  const headers = fromNodeHeaders(nodeHeaders);
+  if (typeof token === "string" && token && !headers.has("authorization")) {
+    headers.set("authorization", `Bearer ${token}`);
+  }
+
+  const result = await auth.api.getSession({ headers });
+  if (!result) {
+    return null;
+  }
+
+  // activeOrganizationId is added to the session by the organization plugin
+  const session = result.session as typeof result.session & {
+    activeOrganizationId?: string | null;
+  };
+
+  return {
+    userId: result.user.id,
+    userName: result.user.name,
+    userEmail: result.user.email,
+    organizationId: session.activeOrganizationId ?? null,
+  };
+}
@@ -1,4 +1,12 @@
-import { pgTable, text, timestamp, boolean, jsonb, uuid } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, text, timestamp, boolean, jsonb, uuid, index, primaryKey, integer, bigint, customType, doublePrecision } from "drizzle-orm/pg-core";
+
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 export const user = pgTable("user", {
   id: text("id").primaryKey(),
@@ -6,6 +14,9 @@ export const user = pgTable("user", {
   email: text("email").notNull().unique(),
   emailVerified: boolean("email_verified").default(false).notNull(),
   image: text("image"),
+  // Default language hints of the user's sessions, comma-separated (e.g.
+  // "en,es"); a Better Auth additional field the user can update
+  languageHints: text("language_hints"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -96,22 +107,294 @@ export const invitation = pgTable("invitation", {
     .references(() => user.id, { onDelete: "cascade" }),
 });
 
-export const transcriptionSession = pgTable("transcription_session", {
-  id: text("id").primaryKey(),
-  socketId: text("socket_id").notNull(),
-  status: text("status").notNull(), // pending, active, stopping, stopped, error
-  audioFormat: text("audio_format").notNull(), // pcm16
-  sampleRate: text("sample_rate").notNull(), // 48000
-  channels: text("channels").notNull(), // 1
-  bitDepth: text("bit_depth").notNull(), // 16
-  transcribedText: text("transcribed_text").default("").notNull(),
-  results: jsonb("results").default([]).notNull(), // Array of ITranscriptionToken
-  errorMessage: text("error_message"),
-  startedAt: timestamp("started_at").defaultNow().notNull(),
-  endedAt: timestamp("ended_at"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at")
-    .defaultNow()
-    .$onUpdate(() => /* @__PURE__ */ new Date())
-    .notNull(),
+export const transcriptionSession = pgTable(
+  "transcription_session",
+  {
+    id: text("id").primaryKey(),
+    socketId: text("socket_id").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    organizationId: text("organization_id").references(() => organization.id, {
+      onDelete: "set null",
+    }),
+    status: text("status").notNull(), // pending, active, paused, stopping, stopped, error
+    audioFormat: text("audio_format").notNull(), // pcm_s16le, pcm_f32le, mulaw, webm_opus, ogg_opus (client-declared)
+    sampleRate: text("sample_rate").notNull(), // 8000 to 48000
+    channels: text("channels").notNull(), // 1 or 2
+    bitDepth: text("bit_depth").notNull(), // 16, 32 or 8
+    transcribedText: text("transcribed_text").default("").notNull(), // joined text of the session's transcription_token rows
+    targetLanguages: jsonb("target_languages").default([]).notNull(), // e.g. ["es", "fr"]
+    languageHints: jsonb("language_hints").default([]).notNull(), // e.g. ["en"]; empty means any
+    translations: jsonb("translations").default([]).notNull(), // Array of ITranslationSegment
+    callId: text("call_id").references(() => call.id, { onDelete: "set null" }), // set for a participant's audio in a call
+    audioDurationMs: integer("audio_duration_ms").default(0).notNull(), // metered audio sent by the client
+    recordingKey: text("recording_key"), // audio storage key; cleared when the retention policy deletes it
+    errorMessage: text("error_message"),
+    // Language-agnostic ("simple") search document over the transcript
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`to_tsvector('simple', "transcribed_text")`
+    ),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    endedAt: timestamp("ended_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("transcription_session_user_id_idx").on(table.userId),
+    index("transcription_session_organization_id_idx").on(table.organizationId),
+    index("transcription_session_call_id_idx").on(table.callId),
+    index("transcription_session_search_idx").using("gin", table.searchVector),
+  ]
+);
+
+// Final tokens of a session, appended in batches while it runs so a crash
+// loses at most the last few seconds; seq is the token's index in the transcript
+export const transcriptionToken = pgTable(
+  "transcription_token",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => transcriptionSession.id, { onDelete: "cascade" }),
+    seq: integer("seq").notNull(),
+    text: text("text").notNull(),
+    confidence: doublePrecision("confidence").notNull(),
+    startMs: integer("start_ms").notNull(),
+    endMs: integer("end_ms").notNull(),
+    speaker: text("speaker"),
+    language: text("language"), // detected by the provider, e.g. "en"
+    segment: integer("segment").notNull().default(0), // utterance index
+    redacted: text("redacted"), // entity hidden in the text, e.g. "email"
+  },
+  (table) => [primaryKey({ columns: [table.sessionId, table.seq] })]
+);
+
+// Audit of redacted transcript tokens; original_text is only kept when the
+// organization keeps unredacted transcripts for its admins
+export const transcriptionRedaction = pgTable(
+  "transcription_redaction",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => transcriptionSession.id, { onDelete: "cascade" }),
+    seq: integer("seq").notNull(), // the redacted transcription_token
+    entity: text("entity").notNull(), // e.g. "phone_number"
+    startMs: integer("start_ms").notNull(),
+    endMs: integer("end_ms").notNull(),
+    originalText: text("original_text"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.sessionId, table.seq] })]
+);
+
+// Summary, action items and decisions generated once a session stops;
+// regenerating replaces the row
+export const transcriptionSummary = pgTable("transcription_summary", {
+  sessionId: text("session_id")
+    .primaryKey()
+    .references(() => transcriptionSession.id, { onDelete: "cascade" }),
+  summary: text("summary").notNull(),
+  actionItems: jsonb("action_items").notNull(), // [{ text, assignee, start_ms }]
+  decisions: jsonb("decisions").notNull(), // [{ text, start_ms }]
+  provider: text("provider").notNull(), // summarization provider name
+  generatedAt: timestamp("generated_at").notNull(),
 });
+
+// Display names for diarized speakers; kept apart from the session row so
+// renames during a live session are not overwritten when it is saved
+export const transcriptionSpeaker = pgTable(
+  "transcription_speaker",
+  {
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => transcriptionSession.id, { onDelete: "cascade" }),
+    speakerId: text("speaker_id").notNull(), // provider diarization id, e.g. "1"
+    name: text("name").notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.sessionId, table.speakerId] })]
+);
+
+export const call = pgTable(
+  "call",
+  {
+    id: text("id").primaryKey(),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    organizationId: text("organization_id").references(() => organization.id, {
+      onDelete: "set null",
+    }),
+    title: text("title"),
+    status: text("status").notNull(), // active, ended
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    endedAt: timestamp("ended_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("call_created_by_idx").on(table.createdBy),
+    index("call_organization_id_idx").on(table.organizationId),
+  ]
+);
+
+export const callParticipant = pgTable(
+  "call_participant",
+  {
+    callId: text("call_id")
+      .notNull()
+      .references(() => call.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    joinedAt: timestamp("joined_at").notNull(),
+    leftAt: timestamp("left_at"),
+  },
+  (table) => [
+    primaryKey({ columns: [table.callId, table.userId] }),
+    index("call_participant_user_id_idx").on(table.userId),
+  ]
+);
+
+export const organizationUsage = pgTable(
+  "organization_usage",
+  {
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    periodStart: timestamp("period_start").notNull(), // first day of the UTC month
+    audioMs: bigint("audio_ms", { mode: "number" }).default(0).notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.organizationId, table.periodStart] })]
+);
+
+export const userUsage = pgTable(
+  "user_usage",
+  {
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    organizationId: text("organization_id").default("").notNull(), // "" for sessions outside any organization
+    periodStart: timestamp("period_start").notNull(), // first day of the UTC month
+    audioMs: bigint("audio_ms", { mode: "number" }).default(0).notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.userId, table.organizationId, table.periodStart],
+    }),
+    index("user_usage_organization_id_idx").on(
+      table.organizationId,
+      table.periodStart
+    ),
+  ]
+);
+
+export const job = pgTable(
+  "job",
+  {
+    id: text("id").primaryKey(),
+    type: text("type").notNull(), // e.g. recording.expire
+    payload: jsonb("payload").notNull(),
+    status: text("status").notNull(), // pending, running, completed, dead
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").notNull(),
+    runAt: timestamp("run_at").notNull(),
+    lockedAt: timestamp("locked_at"),
+    lastError: text("last_error"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("job_status_run_at_idx").on(table.status, table.runAt),
+    index("job_type_idx").on(table.type),
+  ]
+);
+
+// Organization glossary sent to the speech-to-text provider; misspellings
+// are corrected in final tokens before they are stored
+export const vocabularyTerm = pgTable(
+  "vocabulary_term",
+  {
+    id: text("id").primaryKey(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    term: text("term").notNull(),
+    misspellings: jsonb("misspellings").$type<string[]>().notNull(), // e.g. ["inter call"]
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [index("vocabulary_term_organization_id_idx").on(table.organizationId)]
+);
+
+export const webhookEndpoint = pgTable(
+  "webhook_endpoint",
+  {
+    id: text("id").primaryKey(),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    secret: text("secret").notNull(),
+    events: jsonb("events").$type<string[]>().notNull(), // e.g. ["session.stopped"]
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [index("webhook_endpoint_organization_id_idx").on(table.organizationId)]
+);
+
+export const webhookDelivery = pgTable(
+  "webhook_delivery",
+  {
+    id: text("id").primaryKey(),
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoint.id, { onDelete: "cascade" }),
+    event: text("event").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: text("status").notNull(), // pending, succeeded, failed
+    attempts: integer("attempts").default(0).notNull(),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("webhook_delivery_endpoint_id_idx").on(table.endpointId, table.createdAt),
+  ]
+);
@@ -1,5 +1,6 @@
 import { Server as HTTPServer } from "http";
 import { Server as SocketIOServer, Socket } from "socket.io";
+import { getAuthContext } from "./authSession.js";
 import { logger } from "./logger.js";
 import { DependencyFactory } from "../config/DependencyFactory.js";
 import { TranscriptionController } from "../presentation/socket/TranscriptionController.js";
@@ -19,30 +20,66 @@ export function initializeSocketIO(httpServer: HTTPServer) {
     transports: ["websocket", "polling"],
   });
 
-  // Middleware for logging connections
-  io.use((socket, next) => {
+  // Calls and watched sessions broadcast to their rooms through this server
+  DependencyFactory.getInstance().attachSocketServer(io);
+
+  // Authenticate connections with the Better Auth session
+  io.use(async (socket, next) => {
     logger.info("Socket.IO connection attempt", {
       socketId: socket.id,
-      headers: socket.handshake.headers,
+      origin: socket.handshake.headers.origin,
+      userAgent: socket.handshake.headers["user-agent"],
     });
-    next();
+
+    try {
+      // Cookie, Authorization header, or io(url, { auth: { token } })
+      const authData = await getAuthContext(
+        socket.handshake.headers,
+        socket.handshake.auth?.token
+      );
+      if (!authData) {
+        // Viewers without an account may connect with a valid watch link
+        const watchToken = socket.handshake.auth?.watchToken;
+        if (
+          typeof watchToken === "string" &&
+          DependencyFactory.getInstance().getWatchTokenService().verify(watchToken)
+        ) {
+          socket.data.watchToken = watchToken;
+          next();
+          return;
+        }
+
+        logger.warn("Socket.IO connection rejected: unauthenticated", {
+          socketId: socket.id,
+        });
+        next(new Error("Unauthorized"));
+        return;
+      }
+
+      socket.data.auth = authData;
+      socket.data.transcriptionProvider =
+        await DependencyFactory.getInstance().resolveTranscriptionProviderName(
+          authData.organizationId
+        );
+      next();
+    } catch (error) {
+      logger.error("Socket.IO authentication failed", {
+        socketId: socket.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(new Error("Authentication failed"));
+    }
   });
 
   // Connection handler
   io.on("connection", (socket: Socket) => {
     logger.info("Socket.IO client connected", {
       socketId: socket.id,
+      userId: socket.data.auth?.userId,
+      transcriptionProvider: socket.data.transcriptionProvider,
       remoteAddress: socket.handshake.address,
     });
 
-    // Initialize transcription controller with dependency injection
-    const transcriptionController =
-      DependencyFactory.getInstance().createTranscriptionController(socket.id);
-
-    // Register transcription event handlers
-    transcriptionController.handleAudioChunk(socket);
-    transcriptionController.handleDisconnect(socket);
-
     // Error handler
     socket.on("error", (error: any) => {
       logger.error("Socket.IO error", {
@@ -50,6 +87,40 @@ export function initializeSocketIO(httpServer: HTTPServer) {
         error,
       });
     });
+
+    const factory = DependencyFactory.getInstance();
+    const watchController = factory.createWatchController();
+
+    // Register read-only viewer handlers
+    watchController.handleWatch(socket);
+    watchController.handleUnwatch(socket);
+
+    // Watch-link viewers cannot stream audio or join calls
+    if (!socket.data.auth) {
+      return;
+    }
+
+    // Initialize transcription controller with dependency injection
+    const transcriptionController = factory.createTranscriptionController(
+      socket.id,
+      socket.data.transcriptionProvider
+    );
+    const callController = factory.createCallController(transcriptionController);
+
+    // Register transcription event handlers
+    transcriptionController.handleStart(socket);
+    transcriptionController.handlePause(socket);
+    transcriptionController.handleResume(socket);
+    transcriptionController.handleStop(socket);
+    transcriptionController.handleAudioChunk(socket);
+    transcriptionController.handleRenameSpeaker(socket);
+    transcriptionController.handleDisconnect(socket);
+
+    // Register call event handlers
+    callController.handleCreate(socket);
+    callController.handleJoin(socket);
+    callController.handleLeave(socket);
+    callController.handleDisconnect(socket);
   });
 
   logger.info("Socket.IO initialized with Clean Architecture");
@@ -0,0 +1,116 @@
+import type { Request, Response } from "express";
+import { JobStatus } from "../../domain/repositories/IJobRepository.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { ListJobs } from "../../use-cases/jobs/ListJobs.js";
+import { GetJob } from "../../use-cases/jobs/GetJob.js";
+import { RetryJob } from "../../use-cases/jobs/RetryJob.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+import { getRequestAuth } from "./requireAuth.js";
+import { sendError } from "./sendError.js";
+import { presentJob } from "./JobPresenter.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export class AdminHttpController {
+  constructor(
+    private listJobs: ListJobs,
+    private getJob: GetJob,
+    private retryJob: RetryJob,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * GET /api/admin/jobs
+   * Query: limit, offset, status, type
+   */
+  jobs = async (req: Request, res: Response) => {
+    try {
+      const { userEmail } = getRequestAuth(res);
+      const limit = Math.min(
+        Math.max(this.parseInteger(req.query.limit, "limit", DEFAULT_PAGE_SIZE), 1),
+        MAX_PAGE_SIZE
+      );
+      const offset = Math.max(this.parseInteger(req.query.offset, "offset", 0), 0);
+
+      const result = await this.listJobs.execute({
+        userEmail,
+        status: this.parseStatus(req.query.status),
+        type: this.parseString(req.query.type),
+        limit,
+        offset,
+      });
+
+      res.json({
+        data: result.items.map(presentJob),
+        counts: result.counts,
+        pagination: {
+          total: result.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to list jobs");
+    }
+  };
+
+  /**
+   * GET /api/admin/jobs/:id
+   */
+  job = async (req: Request, res: Response) => {
+    try {
+      const { userEmail } = getRequestAuth(res);
+      const job = await this.getJob.execute(userEmail, String(req.params.id));
+
+      res.json({ data: presentJob(job) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get job");
+    }
+  };
+
+  /**
+   * POST /api/admin/jobs/:id/retry
+   * Runs a dead job again
+   */
+  retry = async (req: Request, res: Response) => {
+    try {
+      const { userEmail } = getRequestAuth(res);
+      const job = await this.retryJob.execute(userEmail, String(req.params.id));
+
+      res.json({ data: presentJob(job) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to retry job");
+    }
+  };
+
+  private parseString(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() !== "" ? value : undefined;
+  }
+
+  private parseInteger(value: unknown, name: string, fallback: number): number {
+    const raw = this.parseString(value);
+    if (raw === undefined) {
+      return fallback;
+    }
+
+    const parsed = Number(raw);
+    if (!Number.isInteger(parsed)) {
+      throw new ValidationError(`${name} must be an integer`);
+    }
+    return parsed;
+  }
+
+  private parseStatus(value: unknown): JobStatus | undefined {
+    const raw = this.parseString(value);
+    if (raw === undefined) {
+      return undefined;
+    }
+
+    const statuses = Object.values(JobStatus) as string[];
+    if (!statuses.includes(raw)) {
+      throw new ValidationError(`status must be one of: ${statuses.join(", ")}`);
+    }
+    return raw as JobStatus;
+  }
+}
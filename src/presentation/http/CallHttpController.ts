@@ -0,0 +1,44 @@
+import type { Request, Response } from "express";
+import { GetCall } from "../../use-cases/calls/GetCall.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+import { getRequestAuth } from "./requireAuth.js";
+import { sendError } from "./sendError.js";
+import { presentCallDetail, presentCallTranscript } from "./CallPresenter.js";
+
+export class CallHttpController {
+  constructor(
+    private getCall: GetCall,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * GET /api/calls/:id
+   */
+  get = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const detail = await this.getCall.execute(userId, String(req.params.id));
+
+      res.json({ data: presentCallDetail(detail) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get call");
+    }
+  };
+
+  /**
+   * GET /api/calls/:id/transcript
+   * All participants' final text, ordered by call time
+   */
+  transcript = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const detail = await this.getCall.execute(userId, String(req.params.id));
+
+      res.json({
+        data: presentCallTranscript(detail, this.getCall.mergeTranscript(detail)),
+      });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get call transcript");
+    }
+  };
+}
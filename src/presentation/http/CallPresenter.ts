@@ -0,0 +1,41 @@
+import { Call } from "../../domain/entities/Call.js";
+import type { ICallDetail, ICallTranscriptEntry } from "../../use-cases/calls/GetCall.js";
+import { presentSessionSummary } from "./TranscriptionPresenter.js";
+
+/**
+ * JSON shapes returned by the calls REST API
+ */
+export function presentCall(call: Call) {
+  return {
+    id: call.id.toString(),
+    title: call.title,
+    createdBy: call.createdBy,
+    organizationId: call.organizationId,
+    status: call.status,
+    startedAt: call.startedAt.toISOString(),
+    endedAt: call.endedAt?.toISOString() ?? null,
+    participants: call.participants.map((participant) => ({
+      userId: participant.userId,
+      name: participant.name,
+      joinedAt: participant.joinedAt.toISOString(),
+      leftAt: participant.leftAt?.toISOString() ?? null,
+    })),
+  };
+}
+
+export function presentCallDetail(detail: ICallDetail) {
+  return {
+    ...presentCall(detail.call),
+    sessions: detail.sessions.map((session) => presentSessionSummary(session)),
+  };
+}
+
+export function presentCallTranscript(
+  detail: ICallDetail,
+  entries: ICallTranscriptEntry[]
+) {
+  return {
+    callId: detail.call.id.toString(),
+    entries,
+  };
+}
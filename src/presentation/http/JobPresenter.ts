@@ -0,0 +1,20 @@
+import type { IJob } from "../../domain/repositories/IJobRepository.js";
+
+/**
+ * JSON shape of a background job returned by the admin REST API
+ */
+export function presentJob(job: IJob) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    payload: job.payload,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAt: job.runAt.toISOString(),
+    lockedAt: job.lockedAt?.toISOString() ?? null,
+    lastError: job.lastError,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
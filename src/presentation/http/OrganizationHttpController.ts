@@ -0,0 +1,200 @@
+import type { Request, Response } from "express";
+import { GetOrganizationUsage } from "../../use-cases/usage/GetOrganizationUsage.js";
+import { CreateWebhookEndpoint } from "../../use-cases/webhooks/CreateWebhookEndpoint.js";
+import { ListWebhookEndpoints } from "../../use-cases/webhooks/ListWebhookEndpoints.js";
+import { DeleteWebhookEndpoint } from "../../use-cases/webhooks/DeleteWebhookEndpoint.js";
+import { ListWebhookDeliveries } from "../../use-cases/webhooks/ListWebhookDeliveries.js";
+import { ListVocabulary } from "../../use-cases/vocabulary/ListVocabulary.js";
+import { AddVocabularyTerm } from "../../use-cases/vocabulary/AddVocabularyTerm.js";
+import { UpdateVocabularyTerm } from "../../use-cases/vocabulary/UpdateVocabularyTerm.js";
+import { DeleteVocabularyTerm } from "../../use-cases/vocabulary/DeleteVocabularyTerm.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+import { getRequestAuth } from "./requireAuth.js";
+import { sendError } from "./sendError.js";
+import { presentOrganizationUsage } from "./UsagePresenter.js";
+import {
+  presentWebhookDelivery,
+  presentWebhookEndpoint,
+} from "./WebhookPresenter.js";
+import { presentVocabularyTerm } from "./VocabularyPresenter.js";
+
+export class OrganizationHttpController {
+  constructor(
+    private getOrganizationUsage: GetOrganizationUsage,
+    private createWebhookEndpoint: CreateWebhookEndpoint,
+    private listWebhookEndpoints: ListWebhookEndpoints,
+    private deleteWebhookEndpoint: DeleteWebhookEndpoint,
+    private listWebhookDeliveries: ListWebhookDeliveries,
+    private listVocabulary: ListVocabulary,
+    private addVocabularyTerm: AddVocabularyTerm,
+    private updateVocabularyTerm: UpdateVocabularyTerm,
+    private deleteVocabularyTerm: DeleteVocabularyTerm,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * GET /api/organizations/:id/usage
+   * Query: month (YYYY-MM, defaults to the current month)
+   */
+  usage = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const report = await this.getOrganizationUsage.execute(
+        userId,
+        String(req.params.id),
+        typeof req.query.month === "string" ? req.query.month : undefined
+      );
+
+      res.json({ data: presentOrganizationUsage(report) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get organization usage");
+    }
+  };
+
+  /**
+   * GET /api/organizations/:id/webhooks
+   */
+  listWebhooks = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const endpoints = await this.listWebhookEndpoints.execute(
+        userId,
+        String(req.params.id)
+      );
+
+      res.json({ data: endpoints.map((endpoint) => presentWebhookEndpoint(endpoint)) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to list webhooks");
+    }
+  };
+
+  /**
+   * POST /api/organizations/:id/webhooks
+   * Body: { url, events: string[], secret? }; the response holds the secret
+   */
+  createWebhook = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const endpoint = await this.createWebhookEndpoint.execute({
+        userId,
+        organizationId: String(req.params.id),
+        url: req.body?.url,
+        events: req.body?.events,
+        secret: req.body?.secret,
+      });
+
+      res.status(201).json({ data: presentWebhookEndpoint(endpoint, true) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to create webhook");
+    }
+  };
+
+  /**
+   * DELETE /api/organizations/:id/webhooks/:webhookId
+   */
+  deleteWebhook = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      await this.deleteWebhookEndpoint.execute(
+        userId,
+        String(req.params.id),
+        String(req.params.webhookId)
+      );
+
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to delete webhook");
+    }
+  };
+
+  /**
+   * GET /api/organizations/:id/webhooks/:webhookId/deliveries
+   */
+  webhookDeliveries = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const deliveries = await this.listWebhookDeliveries.execute(
+        userId,
+        String(req.params.id),
+        String(req.params.webhookId)
+      );
+
+      res.json({ data: deliveries.map(presentWebhookDelivery) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to list webhook deliveries");
+    }
+  };
+
+  /**
+   * GET /api/organizations/:id/vocabulary
+   */
+  vocabulary = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const terms = await this.listVocabulary.execute(userId, String(req.params.id));
+
+      res.json({ data: terms.map(presentVocabularyTerm) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to list vocabulary");
+    }
+  };
+
+  /**
+   * POST /api/organizations/:id/vocabulary
+   * Body: { term, misspellings?: string[] }
+   */
+  addTerm = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const term = await this.addVocabularyTerm.execute({
+        userId,
+        organizationId: String(req.params.id),
+        term: req.body?.term,
+        misspellings: req.body?.misspellings,
+      });
+
+      res.status(201).json({ data: presentVocabularyTerm(term) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to add vocabulary term");
+    }
+  };
+
+  /**
+   * PUT /api/organizations/:id/vocabulary/:termId
+   * Body: { term, misspellings?: string[] }
+   */
+  updateTerm = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const term = await this.updateVocabularyTerm.execute({
+        userId,
+        organizationId: String(req.params.id),
+        termId: String(req.params.termId),
+        term: req.body?.term,
+        misspellings: req.body?.misspellings,
+      });
+
+      res.json({ data: presentVocabularyTerm(term) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to update vocabulary term");
+    }
+  };
+
+  /**
+   * DELETE /api/organizations/:id/vocabulary/:termId
+   */
+  deleteTerm = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      await this.deleteVocabularyTerm.execute(
+        userId,
+        String(req.params.id),
+        String(req.params.termId)
+      );
+
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to delete vocabulary term");
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import type { ITranscriptRedactionsResult } from "../../use-cases/redaction/GetTranscriptRedactions.js";
+
+/**
+ * JSON shape of a session's redaction audit
+ */
+export function presentTranscriptRedactions({
+  session,
+  redactions,
+  unredactedText,
+}: ITranscriptRedactionsResult) {
+  return {
+    sessionId: session.id.toString(),
+    unredactedText,
+    redactions: redactions.map(({ redactedAt, ...redaction }) => ({
+      ...redaction,
+      redactedAt: redactedAt.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,19 @@
+import type { ITranscriptSummaryResult } from "../../use-cases/summary/GetTranscriptSummary.js";
+
+/**
+ * JSON shape of a session summary; assignees come with their speaker label
+ */
+export function presentTranscriptSummary({ session, summary }: ITranscriptSummaryResult) {
+  return {
+    sessionId: summary.sessionId,
+    summary: summary.summary,
+    actionItems: summary.actionItems.map((item) => ({
+      ...item,
+      assigneeLabel:
+        item.assignee !== null ? session.getSpeakerLabel(item.assignee) : null,
+    })),
+    decisions: summary.decisions,
+    provider: summary.provider,
+    generatedAt: summary.generatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,475 @@
+import type { NextFunction, Request, Response } from "express";
+import { Readable } from "stream";
+import type { IByteRange } from "../../domain/repositories/IAudioStorage.js";
+import { SessionStatus } from "../../domain/entities/TranscriptionSession.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { ListTranscriptions } from "../../use-cases/transcription/ListTranscriptions.js";
+import { SearchTranscriptions } from "../../use-cases/transcription/SearchTranscriptions.js";
+import { GetTranscription } from "../../use-cases/transcription/GetTranscription.js";
+import { DeleteTranscription } from "../../use-cases/transcription/DeleteTranscription.js";
+import { RenameSpeaker } from "../../use-cases/transcription/RenameSpeaker.js";
+import { CreateWatchLink } from "../../use-cases/watch/CreateWatchLink.js";
+import { GetRecording } from "../../use-cases/recording/GetRecording.js";
+import { TranscribeUpload } from "../../use-cases/batch/TranscribeUpload.js";
+import { GetUploadProgress } from "../../use-cases/batch/GetUploadProgress.js";
+import { ExportTranscription } from "../../use-cases/export/ExportTranscription.js";
+import { GetTranscriptSummary } from "../../use-cases/summary/GetTranscriptSummary.js";
+import { RegenerateTranscriptSummary } from "../../use-cases/summary/RegenerateTranscriptSummary.js";
+import { GetTranscriptRedactions } from "../../use-cases/redaction/GetTranscriptRedactions.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+import { getRequestAuth } from "./requireAuth.js";
+import { sendError } from "./sendError.js";
+import {
+  presentListItem,
+  presentSearchResult,
+  presentSessionDetail,
+} from "./TranscriptionPresenter.js";
+import { presentTranscriptSummary } from "./SummaryPresenter.js";
+import { presentTranscriptRedactions } from "./RedactionPresenter.js";
+
+const DEFAULT_PAGE_SIZE = 20;
+const WAV_CONTENT_TYPES = ["audio/wav", "audio/x-wav", "audio/wave", "audio/vnd.wave"];
+const MAX_PAGE_SIZE = 100;
+
+export class TranscriptionHttpController {
+  constructor(
+    private listTranscriptions: ListTranscriptions,
+    private getTranscription: GetTranscription,
+    private deleteTranscription: DeleteTranscription,
+    private exportTranscription: ExportTranscription,
+    private renameSpeaker: RenameSpeaker,
+    private createWatchLink: CreateWatchLink,
+    private getRecording: GetRecording,
+    private transcribeUpload: TranscribeUpload,
+    private getUploadProgress: GetUploadProgress,
+    private searchTranscriptions: SearchTranscriptions,
+    private getTranscriptSummary: GetTranscriptSummary,
+    private regenerateTranscriptSummary: RegenerateTranscriptSummary,
+    private getTranscriptRedactions: GetTranscriptRedactions,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * GET /api/transcriptions
+   * Query: limit, offset, status, organizationId, from, to (ISO dates)
+   */
+  list = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const limit = Math.min(
+        Math.max(this.parseInteger(req.query.limit, "limit", DEFAULT_PAGE_SIZE), 1),
+        MAX_PAGE_SIZE
+      );
+      const offset = Math.max(this.parseInteger(req.query.offset, "offset", 0), 0);
+
+      const result = await this.listTranscriptions.execute({
+        userId,
+        status: this.parseStatus(req.query.status),
+        organizationId: this.parseString(req.query.organizationId),
+        startedFrom: this.parseDate(req.query.from, "from"),
+        startedTo: this.parseDate(req.query.to, "to"),
+        limit,
+        offset,
+      });
+
+      res.json({
+        data: result.items.map(presentListItem),
+        pagination: {
+          total: result.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to list transcriptions");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/search
+   * Query: q (words, "quoted phrases", -excluded), limit, offset, organizationId
+   */
+  search = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const limit = Math.min(
+        Math.max(this.parseInteger(req.query.limit, "limit", DEFAULT_PAGE_SIZE), 1),
+        MAX_PAGE_SIZE
+      );
+      const offset = Math.max(this.parseInteger(req.query.offset, "offset", 0), 0);
+
+      const result = await this.searchTranscriptions.execute({
+        userId,
+        query: this.parseString(req.query.q) ?? "",
+        organizationId: this.parseString(req.query.organizationId),
+        limit,
+        offset,
+      });
+
+      res.json({
+        data: result.items.map(presentSearchResult),
+        pagination: {
+          total: result.total,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to search transcriptions");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/:id
+   */
+  get = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const session = await this.getTranscription.execute(
+        userId,
+        String(req.params.id)
+      );
+
+      res.json({ data: presentSessionDetail(session) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get transcription");
+    }
+  };
+
+  /**
+   * DELETE /api/transcriptions/:id
+   */
+  remove = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      await this.deleteTranscription.execute(userId, String(req.params.id));
+
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to delete transcription");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/:id/speakers
+   */
+  listSpeakers = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const session = await this.getTranscription.execute(
+        userId,
+        String(req.params.id)
+      );
+
+      res.json({ data: session.getSpeakers() });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to list speakers");
+    }
+  };
+
+  /**
+   * PUT /api/transcriptions/:id/speakers/:speakerId
+   * Body: { name: string | null } (null or "" restores the default label)
+   */
+  updateSpeaker = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const session = await this.renameSpeaker.execute(
+        userId,
+        String(req.params.id),
+        req.params.speakerId,
+        req.body?.name
+      );
+
+      res.json({ data: session.getSpeakers() });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to rename speaker");
+    }
+  };
+
+  /**
+   * POST /api/transcriptions/:id/watch-links
+   * Body: { expiresInSeconds?: number } (default one day, at most seven)
+   */
+  share = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const link = await this.createWatchLink.execute(
+        userId,
+        String(req.params.id),
+        req.body?.expiresInSeconds
+      );
+
+      res.status(201).json({
+        data: {
+          sessionId: link.sessionId,
+          token: link.token,
+          expiresAt: link.expiresAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to create watch link");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/:id/export?format=srt|vtt|txt|md|json
+   */
+  export = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const result = await this.exportTranscription.execute(
+        userId,
+        String(req.params.id),
+        this.parseString(req.query.format) ?? "txt"
+      );
+
+      res
+        .status(200)
+        .type(result.contentType)
+        .attachment(result.fileName)
+        .send(result.content);
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to export transcription");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/:id/summary
+   */
+  summary = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const result = await this.getTranscriptSummary.execute(userId, String(req.params.id));
+
+      res.json({ data: presentTranscriptSummary(result) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get transcript summary");
+    }
+  };
+
+  /**
+   * POST /api/transcriptions/:id/summary
+   * Replaces the stored summary with a fresh one; needs manage access
+   */
+  regenerateSummary = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const result = await this.regenerateTranscriptSummary.execute(
+        userId,
+        String(req.params.id)
+      );
+
+      res.json({ data: presentTranscriptSummary(result) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to regenerate transcript summary");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/:id/redactions
+   * Organization admins only
+   */
+  redactions = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const result = await this.getTranscriptRedactions.execute(
+        userId,
+        String(req.params.id)
+      );
+
+      res.json({ data: presentTranscriptRedactions(result) });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get transcript redactions");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/:id/audio
+   * Streams the recording; honours a single "Range: bytes=..." range
+   */
+  audio = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const recording = await this.getRecording.execute(
+        userId,
+        String(req.params.id)
+      );
+
+      const range = this.parseRange(req.headers.range, recording.size);
+      if (range === "unsatisfiable") {
+        res.status(416).set("Content-Range", `bytes */${recording.size}`).end();
+        return;
+      }
+
+      res
+        .status(range ? 206 : 200)
+        .type(recording.contentType)
+        .set("Accept-Ranges", "bytes")
+        .set(
+          "Content-Length",
+          String(range ? range.end - range.start + 1 : recording.size)
+        )
+        .set("Content-Disposition", `inline; filename="${recording.fileName}"`);
+      if (range) {
+        res.set(
+          "Content-Range",
+          `bytes ${range.start}-${range.end}/${recording.size}`
+        );
+      }
+
+      const stream = Readable.from(recording.read(range ?? undefined));
+      stream.on("error", (error) => {
+        this.logger.error("Failed to stream recording", {
+          sessionId: req.params.id,
+          error: error.message,
+        });
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get recording");
+    }
+  };
+
+  /**
+   * Refuse uploads while the server is busy, before their body is buffered
+   */
+  uploadCapacity = (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      this.transcribeUpload.assertCapacity();
+      next();
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to transcribe upload");
+    }
+  };
+
+  /**
+   * POST /api/transcriptions/upload
+   * Body: a WAV file (Content-Type audio/wav), or raw PCM described by the
+   * sampleRate, channels and format query parameters.
+   * Query: targetLanguages, languageHints (comma-separated)
+   */
+  upload = async (req: Request, res: Response) => {
+    try {
+      const { userId, organizationId } = getRequestAuth(res);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError("Request body must contain the audio file");
+      }
+
+      const targetLanguages = this.parseString(req.query.targetLanguages);
+      const languageHints = this.parseString(req.query.languageHints);
+      const progress = await this.transcribeUpload.execute(
+        { userId, organizationId },
+        {
+          data: req.body,
+          container: req.is(WAV_CONTENT_TYPES) ? "wav" : "raw",
+          audio: {
+            sampleRate: this.parseString(req.query.sampleRate),
+            channels: this.parseString(req.query.channels),
+            format: this.parseString(req.query.format),
+          },
+          targetLanguages: targetLanguages?.split(","),
+          languageHints: languageHints?.split(","),
+        }
+      );
+
+      res
+        .status(202)
+        .location(`${req.baseUrl}/${progress.sessionId}/progress`)
+        .json({ data: progress });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to transcribe upload");
+    }
+  };
+
+  /**
+   * GET /api/transcriptions/:id/progress
+   */
+  progress = async (req: Request, res: Response) => {
+    try {
+      const { userId } = getRequestAuth(res);
+      const progress = await this.getUploadProgress.execute(
+        userId,
+        String(req.params.id)
+      );
+
+      res.json({ data: progress });
+    } catch (error) {
+      sendError(res, error, this.logger, "Failed to get upload progress");
+    }
+  };
+
+  /**
+   * Single byte range ("bytes=0-99", "bytes=100-", "bytes=-500"); other
+   * forms, including multiple ranges, are served as the full file
+   */
+  private parseRange(
+    header: string | undefined,
+    size: number
+  ): IByteRange | "unsatisfiable" | null {
+    const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+    if (!match || (match[1] === "" && match[2] === "")) {
+      return null;
+    }
+
+    let start: number;
+    let end: number;
+    if (match[1] === "") {
+      // Suffix range: the last N bytes
+      start = Math.max(0, size - Number(match[2]));
+      end = size - 1;
+    } else {
+      start = Number(match[1]);
+      end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+    }
+
+    if (start >= size || start > end) {
+      return "unsatisfiable";
+    }
+    return { start, end };
+  }
+
+  private parseString(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() !== "" ? value : undefined;
+  }
+
+  private parseInteger(value: unknown, name: string, fallback: number): number {
+    const raw = this.parseString(value);
+    if (raw === undefined) {
+      return fallback;
+    }
+
+    const parsed = Number(raw);
+    if (!Number.isInteger(parsed)) {
+      throw new ValidationError(`${name} must be an integer`);
+    }
+    return parsed;
+  }
+
+  private parseDate(value: unknown, name: string): Date | undefined {
+    const raw = this.parseString(value);
+    if (raw === undefined) {
+      return undefined;
+    }
+
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) {
+      throw new ValidationError(`${name} must be an ISO 8601 date`);
+    }
+    return date;
+  }
+
+  private parseStatus(value: unknown): SessionStatus | undefined {
+    const raw = this.parseString(value);
+    if (raw === undefined) {
+      return undefined;
+    }
+
+    const statuses = Object.values(SessionStatus) as string[];
+    if (!statuses.includes(raw)) {
+      throw new ValidationError(`status must be one of: ${statuses.join(", ")}`);
+    }
+    return raw as SessionStatus;
+  }
+}
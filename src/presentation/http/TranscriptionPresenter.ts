@@ -0,0 +1,72 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionListItem } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { ITranscriptSearchResult } from "../../use-cases/transcription/SearchTranscriptions.js";
+
+/**
+ * Figures a summary takes from the tokens, for sessions listed without them
+ */
+export interface ISessionOverview {
+  tokenCount: number;
+  detectedLanguages: string[];
+}
+
+/**
+ * JSON shapes returned by the transcription REST API
+ */
+export function presentSessionSummary(
+  session: TranscriptionSession,
+  overview: ISessionOverview = {
+    tokenCount: session.results.length,
+    detectedLanguages: session.getDetectedLanguages(),
+  }
+) {
+  return {
+    id: session.id.toString(),
+    userId: session.userId,
+    organizationId: session.organizationId,
+    status: session.status,
+    audioConfig: {
+      sampleRate: session.audioConfig.sampleRate,
+      channels: session.audioConfig.channels,
+      bitDepth: session.audioConfig.bitDepth,
+      format: session.audioConfig.format,
+    },
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt?.toISOString() ?? null,
+    durationMs: session.endedAt ? session.getDurationMs() : null,
+    audioDurationMs: Math.round(session.audioDurationMs),
+    hasRecording: session.recordingKey !== null,
+    tokenCount: overview.tokenCount,
+    targetLanguages: session.targetLanguages,
+    languageHints: session.languageHints,
+    detectedLanguages: overview.detectedLanguages,
+    errorMessage: session.errorMessage ?? null,
+  };
+}
+
+export function presentListItem({ session, ...overview }: ITranscriptionListItem) {
+  return presentSessionSummary(session, overview);
+}
+
+/**
+ * Search hit: the session summary plus where the transcript matched
+ */
+export function presentSearchResult({ snippet, matches, ...item }: ITranscriptSearchResult) {
+  return {
+    ...presentListItem(item),
+    snippet,
+    matches,
+  };
+}
+
+export function presentSessionDetail(session: TranscriptionSession) {
+  return {
+    ...presentSessionSummary(session),
+    text: session.getTranscribedText(),
+    speakers: session.getSpeakers(),
+    turns: session.getSpeakerTurns(),
+    segments: session.getSegments(),
+    tokens: session.results,
+    translations: session.translations,
+  };
+}
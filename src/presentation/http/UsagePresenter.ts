@@ -0,0 +1,29 @@
+import type { IOrganizationUsageReport } from "../../use-cases/usage/GetOrganizationUsage.js";
+
+const MS_PER_MINUTE = 60_000;
+
+function toMinutes(ms: number): number {
+  return Math.round((ms / MS_PER_MINUTE) * 100) / 100;
+}
+
+/**
+ * JSON shape returned by the organization usage REST API
+ */
+export function presentOrganizationUsage(report: IOrganizationUsageReport) {
+  return {
+    organizationId: report.organizationId,
+    period: report.period.toString(),
+    periodStart: report.period.start.toISOString(),
+    periodEnd: report.period.end.toISOString(),
+    usedMinutes: toMinutes(report.usedMs),
+    limitMinutes: report.limitMs === null ? null : toMinutes(report.limitMs),
+    remainingMinutes:
+      report.limitMs === null
+        ? null
+        : toMinutes(Math.max(0, report.limitMs - report.usedMs)),
+    users: report.users.map((usage) => ({
+      userId: usage.userId,
+      usedMinutes: toMinutes(usage.audioMs),
+    })),
+  };
+}
@@ -0,0 +1,16 @@
+import type { IVocabularyTerm } from "../../domain/repositories/IVocabularyRepository.js";
+
+/**
+ * JSON shape of an organization glossary entry
+ */
+export function presentVocabularyTerm(term: IVocabularyTerm) {
+  return {
+    id: term.id,
+    organizationId: term.organizationId,
+    term: term.term,
+    misspellings: term.misspellings,
+    createdBy: term.createdBy,
+    createdAt: term.createdAt.toISOString(),
+    updatedAt: term.updatedAt.toISOString(),
+  };
+}
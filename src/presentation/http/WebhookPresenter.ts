@@ -0,0 +1,37 @@
+import type {
+  IWebhookDelivery,
+  IWebhookEndpoint,
+} from "../../domain/repositories/IWebhookRepository.js";
+
+/**
+ * JSON shape of a webhook endpoint; the secret is only included right
+ * after creation
+ */
+export function presentWebhookEndpoint(
+  endpoint: IWebhookEndpoint,
+  includeSecret = false
+) {
+  return {
+    id: endpoint.id,
+    organizationId: endpoint.organizationId,
+    url: endpoint.url,
+    events: endpoint.events,
+    createdBy: endpoint.createdBy,
+    createdAt: endpoint.createdAt.toISOString(),
+    ...(includeSecret ? { secret: endpoint.secret } : {}),
+  };
+}
+
+export function presentWebhookDelivery(delivery: IWebhookDelivery) {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    lastError: delivery.lastError,
+    lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+    deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { AdminHttpController } from "./AdminHttpController.js";
+import { requireAuth } from "./requireAuth.js";
+
+/**
+ * Routes mounted at /api/admin; restricted to ADMIN_EMAILS
+ */
+export function createAdminRouter(controller: AdminHttpController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get("/jobs", controller.jobs);
+  router.get("/jobs/:id", controller.job);
+  router.post("/jobs/:id/retry", controller.retry);
+
+  return router;
+}
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { CallHttpController } from "./CallHttpController.js";
+import { requireAuth } from "./requireAuth.js";
+
+/**
+ * Routes mounted at /api/calls
+ */
+export function createCallRouter(controller: CallHttpController): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get("/:id", controller.get);
+  router.get("/:id/transcript", controller.transcript);
+
+  return router;
+}
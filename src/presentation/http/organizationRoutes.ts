@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { OrganizationHttpController } from "./OrganizationHttpController.js";
+import { requireAuth } from "./requireAuth.js";
+
+/**
+ * Routes mounted at /api/organizations
+ */
+export function createOrganizationRouter(
+  controller: OrganizationHttpController
+): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get("/:id/usage", controller.usage);
+  router.get("/:id/webhooks", controller.listWebhooks);
+  router.post("/:id/webhooks", controller.createWebhook);
+  router.delete("/:id/webhooks/:webhookId", controller.deleteWebhook);
+  router.get("/:id/webhooks/:webhookId/deliveries", controller.webhookDeliveries);
+  router.get("/:id/vocabulary", controller.vocabulary);
+  router.post("/:id/vocabulary", controller.addTerm);
+  router.put("/:id/vocabulary/:termId", controller.updateTerm);
+  router.delete("/:id/vocabulary/:termId", controller.deleteTerm);
+
+  return router;
+}
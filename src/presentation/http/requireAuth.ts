@@ -0,0 +1,37 @@
+import type { NextFunction, Request, Response } from "express";
+import { getAuthContext, type IAuthContext } from "../../lib/authSession.js";
+import { logger } from "../../lib/logger.js";
+
+/**
+ * Express middleware that rejects requests without a valid Better Auth session
+ */
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const authContext = await getAuthContext(req.headers);
+    if (!authContext) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    res.locals.auth = authContext;
+    next();
+  } catch (error) {
+    logger.error("HTTP authentication failed", {
+      path: req.path,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(401).json({ error: "Authentication failed" });
+  }
+}
+
+export function getRequestAuth(res: Response): IAuthContext {
+  const authContext = res.locals.auth as IAuthContext | undefined;
+  if (!authContext) {
+    throw new Error("Request is not authenticated. Mount requireAuth first.");
+  }
+  return authContext;
+}
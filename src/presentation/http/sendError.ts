@@ -0,0 +1,43 @@
+import type { Response } from "express";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { QuotaExceededError } from "../../domain/errors/QuotaExceededError.js";
+import { CapacityExceededError } from "../../domain/errors/CapacityExceededError.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+
+/**
+ * Map domain errors to HTTP status codes; anything else is a 500
+ */
+export function sendError(
+  res: Response,
+  error: unknown,
+  logger: ILogger,
+  fallbackMessage: string
+): void {
+  if (error instanceof ValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  if (error instanceof ForbiddenError) {
+    res.status(403).json({ error: error.message });
+    return;
+  }
+  if (error instanceof QuotaExceededError) {
+    res.status(429).json({ error: error.message, code: "quota_exceeded" });
+    return;
+  }
+  if (error instanceof CapacityExceededError) {
+    res.status(503).set("Retry-After", "60").json({ error: error.message, code: "capacity_exceeded" });
+    return;
+  }
+  if (error instanceof NotFoundError) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+
+  logger.error(fallbackMessage, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  res.status(500).json({ error: fallbackMessage });
+}
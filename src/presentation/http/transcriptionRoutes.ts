@@ -0,0 +1,39 @@
+import express, { Router } from "express";
+import { TranscriptionHttpController } from "./TranscriptionHttpController.js";
+import { requireAuth } from "./requireAuth.js";
+
+const UPLOAD_CONTENT_TYPES = ["audio/*", "application/octet-stream"];
+const MAX_UPLOAD_SIZE = "100mb";
+
+/**
+ * Routes mounted at /api/transcriptions
+ */
+export function createTranscriptionRouter(
+  controller: TranscriptionHttpController
+): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  router.get("/", controller.list);
+  router.get("/search", controller.search);
+  router.post(
+    "/upload",
+    controller.uploadCapacity,
+    express.raw({ type: UPLOAD_CONTENT_TYPES, limit: MAX_UPLOAD_SIZE }),
+    controller.upload
+  );
+  router.get("/:id", controller.get);
+  router.get("/:id/export", controller.export);
+  router.get("/:id/summary", controller.summary);
+  router.post("/:id/summary", controller.regenerateSummary);
+  router.get("/:id/redactions", controller.redactions);
+  router.get("/:id/audio", controller.audio);
+  router.get("/:id/progress", controller.progress);
+  router.get("/:id/speakers", controller.listSpeakers);
+  router.put("/:id/speakers/:speakerId", controller.updateSpeaker);
+  router.post("/:id/watch-links", controller.share);
+  router.delete("/:id", controller.remove);
+
+  return router;
+}
@@ -0,0 +1,160 @@
+import { Socket } from "socket.io";
+import type { Call } from "../../domain/entities/Call.js";
+import { CreateCall } from "../../use-cases/calls/CreateCall.js";
+import { JoinCall } from "../../use-cases/calls/JoinCall.js";
+import { LeaveCall } from "../../use-cases/calls/LeaveCall.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+import { TranscriptionController } from "./TranscriptionController.js";
+import {
+  CallCommands,
+  callRoom,
+  getJoinedCallId,
+  toParticipantPayload,
+  type ICallAckPayload,
+  type ICreateCallPayload,
+  type IJoinCallPayload,
+} from "./CallEvents.js";
+import { getSessionOwner, getSocketAuth } from "./SocketAuth.js";
+import { extractAck, extractPayload, toSocketError } from "./socketArgs.js";
+
+export class CallController {
+  constructor(
+    private createCall: CreateCall,
+    private joinCall: JoinCall,
+    private leaveCall: LeaveCall,
+    private transcriptionController: TranscriptionController,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Handle create_call command; the creator joins the new call
+   */
+  handleCreate = (socket: Socket) => {
+    socket.on(CallCommands.CREATE, async (...args: unknown[]) => {
+      const callback = extractAck<ICallAckPayload>(args);
+
+      try {
+        this.requireNoCall(socket);
+        const payload = extractPayload<ICreateCallPayload>(args);
+        const call = await this.createCall.execute(
+          getSessionOwner(socket),
+          this.participantName(socket),
+          payload.title
+        );
+
+        await this.enterRoom(socket, call);
+        callback?.(this.toAck(call));
+      } catch (error) {
+        callback?.(toSocketError("Failed to create call", error));
+      }
+    });
+  };
+
+  /**
+   * Handle join_call command
+   */
+  handleJoin = (socket: Socket) => {
+    socket.on(CallCommands.JOIN, async (...args: unknown[]) => {
+      const callback = extractAck<ICallAckPayload>(args);
+
+      try {
+        this.requireNoCall(socket);
+        const payload = extractPayload<IJoinCallPayload>(args);
+        const call = await this.joinCall.execute(
+          payload.callId,
+          getSocketAuth(socket).userId,
+          this.participantName(socket)
+        );
+
+        await this.enterRoom(socket, call);
+        callback?.(this.toAck(call));
+      } catch (error) {
+        callback?.(toSocketError("Failed to join call", error));
+      }
+    });
+  };
+
+  /**
+   * Handle leave_call command; stops this socket's session in the call
+   */
+  handleLeave = (socket: Socket) => {
+    socket.on(CallCommands.LEAVE, async (...args: unknown[]) => {
+      const callback = extractAck<ICallAckPayload>(args);
+
+      try {
+        const callId = getJoinedCallId(socket);
+        if (!callId) {
+          throw new Error("Not in a call. Call join_call first.");
+        }
+
+        const call = await this.exitCall(socket, callId);
+        if (!call) {
+          throw new Error("Call not found");
+        }
+        callback?.(this.toAck(call));
+      } catch (error) {
+        callback?.(toSocketError("Failed to leave call", error));
+      }
+    });
+  };
+
+  /**
+   * Leave the joined call when the socket goes away
+   */
+  handleDisconnect = (socket: Socket) => {
+    socket.on("disconnect", async () => {
+      const callId = getJoinedCallId(socket);
+      if (!callId) {
+        return;
+      }
+
+      try {
+        await this.exitCall(socket, callId);
+      } catch (error) {
+        this.logger.error("Failed to leave call on disconnect", {
+          clientId: socket.id,
+          callId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  };
+
+  private async enterRoom(socket: Socket, call: Call): Promise<void> {
+    const callId = call.id.toString();
+    await socket.join(callRoom(callId));
+    socket.data.callId = callId;
+
+    this.logger.info("Socket joined call", { clientId: socket.id, callId });
+  }
+
+  private async exitCall(socket: Socket, callId: string): Promise<Call | null> {
+    await this.transcriptionController.stopCallSession(callId);
+
+    socket.data.callId = undefined;
+    await socket.leave(callRoom(callId));
+
+    return this.leaveCall.execute(callId, getSocketAuth(socket).userId);
+  }
+
+  private requireNoCall(socket: Socket): void {
+    if (getJoinedCallId(socket)) {
+      throw new Error("Already in a call. Call leave_call first.");
+    }
+  }
+
+  private participantName(socket: Socket): string {
+    const { userName, userEmail } = getSocketAuth(socket);
+    return userName || userEmail;
+  }
+
+  private toAck(call: Call): ICallAckPayload {
+    return {
+      callId: call.id.toString(),
+      title: call.title,
+      status: call.status,
+      startedAt: call.startedAt.toISOString(),
+      participants: call.participants.map(toParticipantPayload),
+    };
+  }
+}
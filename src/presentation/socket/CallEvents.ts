@@ -0,0 +1,86 @@
+import type { Socket } from "socket.io";
+import type { CallStatus, ICallParticipant } from "../../domain/entities/Call.js";
+import type { ICallTranscriptUpdate } from "../../use-cases/interfaces/ICallNotifier.js";
+
+/**
+ * Socket.IO commands for multi-party calls. After joining, the socket's
+ * start_transcription adds its audio to the call as one participant.
+ */
+export const CallCommands = {
+  CREATE: "create_call",
+  JOIN: "join_call",
+  LEAVE: "leave_call",
+} as const;
+
+/**
+ * Socket.IO events broadcast to everyone in a call
+ */
+export const CallEvents = {
+  TRANSCRIPT_PARTIAL: "call_transcript_partial",
+  TRANSCRIPT_FINAL: "call_transcript_final",
+  PARTICIPANT_JOINED: "participant_joined",
+  PARTICIPANT_LEFT: "participant_left",
+  CALL_ENDED: "call_ended",
+} as const;
+
+export interface ICreateCallPayload {
+  title?: string;
+}
+
+export interface IJoinCallPayload {
+  callId: string;
+}
+
+/**
+ * Payload for call_transcript_partial / call_transcript_final; timestamps
+ * are ms since the call started
+ */
+export type ICallTranscriptEventPayload = ICallTranscriptUpdate;
+
+export interface ICallParticipantPayload {
+  userId: string;
+  name: string;
+  joinedAt: string;
+  leftAt: string | null;
+}
+
+export interface ICallParticipantEventPayload {
+  callId: string;
+  participant: ICallParticipantPayload;
+}
+
+/**
+ * Ack payload returned by call commands
+ */
+export interface ICallAckPayload {
+  callId: string;
+  title: string | null;
+  status: CallStatus;
+  startedAt: string;
+  participants: ICallParticipantPayload[];
+}
+
+/**
+ * Socket.IO room of a call
+ */
+export function callRoom(callId: string): string {
+  return `call:${callId}`;
+}
+
+/**
+ * The call this socket has joined, if any
+ */
+export function getJoinedCallId(socket: Socket): string | null {
+  return (socket.data.callId as string | undefined) ?? null;
+}
+
+export function toParticipantPayload(
+  participant: ICallParticipant
+): ICallParticipantPayload {
+  return {
+    userId: participant.userId,
+    name: participant.name,
+    joinedAt: participant.joinedAt.toISOString(),
+    leftAt: participant.leftAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,19 @@
+import type { Socket } from "socket.io";
+import type { ISessionOwner } from "../../domain/entities/TranscriptionSession.js";
+import type { IAuthContext } from "../../lib/authSession.js";
+
+/**
+ * Identity attached to socket.data by the handshake middleware
+ */
+export function getSocketAuth(socket: Socket): IAuthContext {
+  const authData = socket.data.auth as IAuthContext | undefined;
+  if (!authData) {
+    throw new Error("Socket is not authenticated");
+  }
+  return authData;
+}
+
+export function getSessionOwner(socket: Socket): ISessionOwner {
+  const { userId, organizationId } = getSocketAuth(socket);
+  return { userId, organizationId };
+}
@@ -0,0 +1,61 @@
+import type { Server as SocketIOServer } from "socket.io";
+import type { ICallParticipant } from "../../domain/entities/Call.js";
+import type {
+  ICallNotifier,
+  ICallTranscriptUpdate,
+} from "../../use-cases/interfaces/ICallNotifier.js";
+import {
+  CallEvents,
+  callRoom,
+  toParticipantPayload,
+  type ICallParticipantEventPayload,
+  type ICallTranscriptEventPayload,
+} from "./CallEvents.js";
+
+/**
+ * Broadcasts call activity to the call's Socket.IO room
+ */
+export class SocketCallNotifier implements ICallNotifier {
+  constructor(private io: SocketIOServer) {}
+
+  transcript(update: ICallTranscriptUpdate): void {
+    const payload: ICallTranscriptEventPayload = update;
+    this.io
+      .to(callRoom(update.callId))
+      .emit(
+        update.is_final
+          ? CallEvents.TRANSCRIPT_FINAL
+          : CallEvents.TRANSCRIPT_PARTIAL,
+        payload
+      );
+  }
+
+  participantJoined(callId: string, participant: ICallParticipant): void {
+    this.io
+      .to(callRoom(callId))
+      .emit(
+        CallEvents.PARTICIPANT_JOINED,
+        this.toParticipantEvent(callId, participant)
+      );
+  }
+
+  participantLeft(callId: string, participant: ICallParticipant): void {
+    this.io
+      .to(callRoom(callId))
+      .emit(
+        CallEvents.PARTICIPANT_LEFT,
+        this.toParticipantEvent(callId, participant)
+      );
+  }
+
+  callEnded(callId: string): void {
+    this.io.to(callRoom(callId)).emit(CallEvents.CALL_ENDED, { callId });
+  }
+
+  private toParticipantEvent(
+    callId: string,
+    participant: ICallParticipant
+  ): ICallParticipantEventPayload {
+    return { callId, participant: toParticipantPayload(participant) };
+  }
+}
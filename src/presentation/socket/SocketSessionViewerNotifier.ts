@@ -0,0 +1,66 @@
+import type { Server as SocketIOServer } from "socket.io";
+import type { SessionStatus } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ITranslationUpdate } from "../../use-cases/translation/TranslateTranscript.js";
+import type { ISessionViewerNotifier } from "../../use-cases/interfaces/ISessionViewerNotifier.js";
+import {
+  TranscriptionEvents,
+  type ITranscriptEventPayload,
+  type ITranslationEventPayload,
+} from "./TranscriptionEvents.js";
+import {
+  WatchEvents,
+  watchRoom,
+  type ISessionStatusEventPayload,
+} from "./WatchEvents.js";
+
+/**
+ * Relays a session's events to the Socket.IO room of its viewers
+ */
+export class SocketSessionViewerNotifier implements ISessionViewerNotifier {
+  constructor(private io: SocketIOServer) {}
+
+  transcript(sessionId: string, result: ITranscriptionResult): void {
+    const payload: ITranscriptEventPayload = {
+      sessionId,
+      is_final: result.is_final,
+      tokens: result.tokens,
+      speaker: result.speaker,
+    };
+
+    this.io
+      .to(watchRoom(sessionId))
+      .emit(
+        result.is_final
+          ? TranscriptionEvents.TRANSCRIPT_FINAL
+          : TranscriptionEvents.TRANSCRIPT_PARTIAL,
+        payload
+      );
+  }
+
+  translation(sessionId: string, update: ITranslationUpdate): void {
+    const payload: ITranslationEventPayload = {
+      sessionId,
+      is_final: update.is_final,
+      language: update.language,
+      text: update.text,
+      source_text: update.source_text,
+      start_ms: update.start_ms,
+      end_ms: update.end_ms,
+    };
+
+    this.io
+      .to(watchRoom(sessionId))
+      .emit(
+        update.is_final
+          ? TranscriptionEvents.TRANSLATION_FINAL
+          : TranscriptionEvents.TRANSLATION_PARTIAL,
+        payload
+      );
+  }
+
+  statusChanged(sessionId: string, status: SessionStatus): void {
+    const payload: ISessionStatusEventPayload = { sessionId, status };
+    this.io.to(watchRoom(sessionId)).emit(WatchEvents.SESSION_STATUS, payload);
+  }
+}
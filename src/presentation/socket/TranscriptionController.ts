@@ -1,71 +1,293 @@
 import { Socket } from "socket.io";
+import type {
+  ITranscriptSegment,
+  TranscriptionSession,
+} from "../../domain/entities/TranscriptionSession.js";
+import { LanguageCode } from "../../domain/value-objects/LanguageCode.js";
+import { AudioConfig } from "../../domain/value-objects/AudioConfig.js";
 import { StartTranscription } from "../../use-cases/transcription/StartTranscription.js";
 import { ProcessAudioChunk } from "../../use-cases/transcription/ProcessAudioChunk.js";
+import { PauseTranscription } from "../../use-cases/transcription/PauseTranscription.js";
+import { ResumeTranscription } from "../../use-cases/transcription/ResumeTranscription.js";
 import { StopTranscription } from "../../use-cases/transcription/StopTranscription.js";
-import type { ITranscriptionProvider } from "../../domain/repositories/ITranscriptionProvider.js";
+import { RenameSpeaker } from "../../use-cases/transcription/RenameSpeaker.js";
+import { LiveCallRegistry } from "../../use-cases/calls/LiveCallRegistry.js";
+import { LiveSessionRegistry } from "../../use-cases/watch/LiveSessionRegistry.js";
+import type {
+  ITranscriptionConnectionEvent,
+  ITranscriptionProvider,
+  ITranscriptionResult,
+} from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ITranslationUpdate } from "../../use-cases/translation/TranslateTranscript.js";
 import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+import {
+  TranscriptionCommands,
+  TranscriptionEvents,
+  type IProviderConnectionEventPayload,
+  type IRenameSpeakerPayload,
+  type ISessionAckPayload,
+  type ISpeakersAckPayload,
+  type IStartTranscriptionPayload,
+  type ITranscriptEventPayload,
+  type ITranslationEventPayload,
+  type IUtteranceEndEventPayload,
+} from "./TranscriptionEvents.js";
+import { getSessionOwner, getSocketAuth } from "./SocketAuth.js";
+import { extractAck, extractPayload, toSocketError } from "./socketArgs.js";
+import { getJoinedCallId } from "./CallEvents.js";
+
+const MAX_TARGET_LANGUAGES = 5;
+const MAX_LANGUAGE_HINTS = 5;
 
 export class TranscriptionController {
+  // Current session for this socket; a socket runs sessions one at a time
+  private session: TranscriptionSession | null = null;
+  private isStarting: boolean = false;
+
   constructor(
     private startTranscription: StartTranscription,
     private processAudioChunk: ProcessAudioChunk,
+    private pauseTranscription: PauseTranscription,
+    private resumeTranscription: ResumeTranscription,
     private stopTranscription: StopTranscription,
+    private renameSpeaker: RenameSpeaker,
+    private liveCalls: LiveCallRegistry,
+    private liveSessions: LiveSessionRegistry,
     private transcriptionProvider: ITranscriptionProvider,
     private logger: ILogger
   ) {}
 
   /**
-   * Auto-initialize transcription on first connection
+   * Handle start_transcription command
    */
-  private async initializeTranscription(clientId: string, socket: Socket): Promise<void> {
-    try {
-      // Start transcription use case
-      const session = await this.startTranscription.execute(clientId);
-
-      // Setup event listeners for this provider
-      this.setupProviderListeners(socket, session.id.toString());
-
-      this.logger.info("Transcription initialized", {
-        clientId,
-        sessionId: session.id.toString(),
-      });
-    } catch (error) {
-      this.logger.error("Failed to initialize transcription", error);
-      throw error;
-    }
-  }
+  handleStart = (socket: Socket) => {
+    socket.on(
+      TranscriptionCommands.START,
+      async (...args: unknown[]) => {
+        const callback = extractAck<ISessionAckPayload>(args);
+
+        if (this.isStarting || (this.session && !this.isFinished(this.session))) {
+          callback?.(
+            toSocketError(
+              "Failed to start transcription",
+              new Error(
+                "A transcription session is already running. Call stop_transcription first."
+              )
+            )
+          );
+          return;
+        }
+
+        try {
+          const payload = extractPayload<IStartTranscriptionPayload>(args);
+          const targetLanguages = LanguageCode.parseList(
+            payload.targetLanguages,
+            MAX_TARGET_LANGUAGES
+          ).map((code) => code.toString());
+          const languageHints = LanguageCode.parseList(
+            payload.languageHints,
+            MAX_LANGUAGE_HINTS
+          ).map((code) => code.toString());
+          const audioConfig = AudioConfig.parse(payload.audio);
+
+          // Inside a call, this socket's audio becomes one participant's channel
+          const callId = getJoinedCallId(socket);
+          if (callId && !this.liveCalls.get(callId)) {
+            throw new Error("The call has ended. Leave it before starting a new session.");
+          }
+
+          this.isStarting = true;
+
+          // A session that failed mid-stream is cleaned up before the next
+          if (this.session?.hasError()) {
+            await this.stopCurrentSession();
+          }
+
+          // Start transcription use case, forwarding provider results to the
+          // socket, its viewers and, inside a call, to every participant
+          let sessionId = "";
+          let started: TranscriptionSession | null = null;
+          const session = await this.startTranscription.execute(
+            socket.id,
+            getSessionOwner(socket),
+            {
+              audioConfig,
+              targetLanguages,
+              languageHints,
+              callId,
+              record: payload.record === true,
+            },
+            {
+              onResult: (result) => {
+                this.emitResult(socket, sessionId, result);
+                if (started) {
+                  this.liveSessions.publishResult(started, result);
+                }
+                if (started?.callId) {
+                  this.liveCalls.publishResult(started, result);
+                }
+              },
+              onUtteranceEnd: (segment) =>
+                this.emitUtteranceEnd(socket, sessionId, segment),
+              onTranslation: (update) => {
+                this.emitTranslation(socket, sessionId, update);
+                if (started) {
+                  this.liveSessions.publishTranslation(started, update);
+                }
+              },
+              onConnectionEvent: (event) =>
+                this.emitConnectionEvent(socket, sessionId, event),
+            }
+          );
+
+          // The socket left while the session was starting: nothing else
+          // will stop it, so release it right away
+          if (!socket.connected) {
+            await this.stopTranscription.execute(session);
+            this.logger.info("Transcription stopped after client left during start", {
+              clientId: socket.id,
+              sessionId: session.id.toString(),
+            });
+            return;
+          }
+
+          sessionId = session.id.toString();
+          started = session;
+          this.session = session;
+          this.liveSessions.register(session);
+
+          this.logger.info("Transcription initialized", {
+            clientId: socket.id,
+            sessionId,
+          });
+
+          callback?.(this.toAck(session));
+        } catch (error) {
+          callback?.(toSocketError("Failed to start transcription", error));
+        } finally {
+          this.isStarting = false;
+        }
+      }
+    );
+  };
 
   /**
-   * Handle audio_chunk event
+   * Handle pause_transcription command
    */
-  handleAudioChunk = (socket: Socket) => {
-    socket.on("audio_chunk", async (data: Uint8Array, callback?: (error: any) => void) => {
-      try {
-        const clientId = socket.id;
+  handlePause = (socket: Socket) => {
+    socket.on(
+      TranscriptionCommands.PAUSE,
+      async (...args: unknown[]) => {
+        const callback = extractAck<ISessionAckPayload>(args);
+
+        try {
+          const session = await this.pauseTranscription.execute(
+            this.requireSession()
+          );
+          this.liveSessions.publishStatus(session);
+          callback?.(this.toAck(session));
+        } catch (error) {
+          callback?.(toSocketError("Failed to pause transcription", error));
+        }
+      }
+    );
+  };
+
+  /**
+   * Handle resume_transcription command
+   */
+  handleResume = (socket: Socket) => {
+    socket.on(
+      TranscriptionCommands.RESUME,
+      async (...args: unknown[]) => {
+        const callback = extractAck<ISessionAckPayload>(args);
+
+        try {
+          const session = await this.resumeTranscription.execute(
+            this.requireSession()
+          );
+          this.liveSessions.publishStatus(session);
+          callback?.(this.toAck(session));
+        } catch (error) {
+          callback?.(toSocketError("Failed to resume transcription", error));
+        }
+      }
+    );
+  };
+
+  /**
+   * Handle stop_transcription command; the socket stays connected and may
+   * start another session afterwards
+   */
+  handleStop = (socket: Socket) => {
+    socket.on(
+      TranscriptionCommands.STOP,
+      async (...args: unknown[]) => {
+        const callback = extractAck<ISessionAckPayload>(args);
 
-        // Initialize transcription on first chunk if not already done
         try {
-          await this.initializeTranscription(clientId, socket);
-        } catch (initError) {
-          // If initialization fails, acknowledge and return
-          if (typeof callback === "function") {
-            callback(initError instanceof Error ? initError : new Error(String(initError)));
+          const session = await this.stopCurrentSession();
+          if (!session) {
+            throw new Error(
+              "Transcription session not found. Call start_transcription first."
+            );
           }
-          return;
+          callback?.(this.toAck(session));
+        } catch (error) {
+          callback?.(toSocketError("Failed to stop transcription", error));
+        }
+      }
+    );
+  };
+
+  /**
+   * Handle rename_speaker command for the current session
+   */
+  handleRenameSpeaker = (socket: Socket) => {
+    socket.on(
+      TranscriptionCommands.RENAME_SPEAKER,
+      async (...args: unknown[]) => {
+        const callback = extractAck<ISpeakersAckPayload>(args);
+
+        try {
+          const payload = extractPayload<IRenameSpeakerPayload>(args);
+          const session = this.requireSession();
+          const renamed = await this.renameSpeaker.execute(
+            getSocketAuth(socket).userId,
+            session.id.toString(),
+            payload.speakerId,
+            payload.name ?? null
+          );
+
+          // Stored names are authoritative, including REST renames
+          session.speakerNames = { ...renamed.speakerNames };
+
+          callback?.({
+            sessionId: session.id.toString(),
+            speakers: session.getSpeakers(),
+          });
+        } catch (error) {
+          callback?.(toSocketError("Failed to rename speaker", error));
         }
+      }
+    );
+  };
 
+  /**
+   * Handle audio_chunk event
+   */
+  handleAudioChunk = (socket: Socket) => {
+    socket.on(TranscriptionCommands.AUDIO_CHUNK, async (data: Uint8Array, callback?: (error: any) => void) => {
+      try {
         // Process audio chunk use case
-        await this.processAudioChunk.execute(clientId, data);
+        await this.processAudioChunk.execute(this.session, data);
 
         // Acknowledge success to client
         if (typeof callback === "function") {
           callback(null);
         }
       } catch (error) {
-        const errorMsg = {
-          error: "Failed to process audio chunk",
-          details: error instanceof Error ? error.message : String(error),
-        };
+        const errorMsg = toSocketError("Failed to process audio chunk", error);
 
         this.logger.error("Audio chunk processing error", errorMsg);
 
@@ -86,16 +308,16 @@ export class TranscriptionController {
       try {
         const clientId = socket.id;
 
-        // Attempt to stop active transcription
-        await this.stopTranscription.execute(clientId);
+        // Stop the session, or clean it up if it failed; a session still
+        // starting is stopped once its start completes
+        await this.stopCurrentSession();
 
         this.logger.info("Client disconnected and cleaned up", {
           clientId,
           reason,
         });
       } catch (error) {
-        // Session might not exist, which is fine
-        this.logger.debug("Disconnect cleanup (session may not exist)", {
+        this.logger.warn("Failed to clean up after disconnect", {
           clientId: socket.id,
           error: error instanceof Error ? error.message : String(error),
         });
@@ -104,9 +326,147 @@ export class TranscriptionController {
   };
 
   /**
-   * Setup provider event listeners
+   * Stop this socket's session if it belongs to the given call, e.g. when
+   * the socket leaves the call
    */
-  private setupProviderListeners(socket: Socket, sessionId: string): void {
-    // Provider listeners are set up in the StartTranscription use case
+  async stopCallSession(callId: string): Promise<void> {
+    if (
+      this.session &&
+      this.session.callId === callId &&
+      !this.session.isStopped()
+    ) {
+      await this.stopCurrentSession();
+    }
+  }
+
+  /**
+   * Stop this socket's session; null when there is none
+   */
+  private async stopCurrentSession(): Promise<TranscriptionSession | null> {
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+    // Failed sessions still go through stop, which releases what they hold
+    if (session.isStopped()) {
+      throw new Error("Transcription session is already stopped");
+    }
+
+    // Detach first so a stop racing with new commands cannot be reused
+    this.session = null;
+    try {
+      return await this.stopTranscription.execute(session);
+    } finally {
+      this.liveSessions.remove(session);
+    }
+  }
+
+  private requireSession(): TranscriptionSession {
+    if (!this.session) {
+      throw new Error(
+        "Transcription session not found. Call start_transcription first."
+      );
+    }
+    return this.session;
+  }
+
+  private isFinished(session: TranscriptionSession): boolean {
+    return session.isStopped() || session.hasError();
+  }
+
+  private toAck(session: TranscriptionSession): ISessionAckPayload {
+    return {
+      sessionId: session.id.toString(),
+      status: session.status,
+      languageHints: session.languageHints,
+      audio: {
+        sampleRate: session.audioConfig.sampleRate,
+        channels: session.audioConfig.channels,
+        format: session.audioConfig.format,
+      },
+    };
+  }
+
+  /**
+   * Forward a provider result to the originating socket
+   */
+  private emitResult(
+    socket: Socket,
+    sessionId: string,
+    result: ITranscriptionResult
+  ): void {
+    const payload: ITranscriptEventPayload = {
+      sessionId,
+      is_final: result.is_final,
+      tokens: result.tokens,
+      speaker: result.speaker,
+    };
+
+    socket.emit(
+      result.is_final
+        ? TranscriptionEvents.TRANSCRIPT_FINAL
+        : TranscriptionEvents.TRANSCRIPT_PARTIAL,
+      payload
+    );
+  }
+
+  /**
+   * Tell the originating socket an utterance is complete
+   */
+  private emitUtteranceEnd(
+    socket: Socket,
+    sessionId: string,
+    segment: ITranscriptSegment
+  ): void {
+    const payload: IUtteranceEndEventPayload = { sessionId, segment };
+    socket.emit(TranscriptionEvents.UTTERANCE_END, payload);
+  }
+
+  /**
+   * Forward a translation to the originating socket
+   */
+  private emitTranslation(
+    socket: Socket,
+    sessionId: string,
+    update: ITranslationUpdate
+  ): void {
+    const payload: ITranslationEventPayload = {
+      sessionId,
+      is_final: update.is_final,
+      language: update.language,
+      text: update.text,
+      source_text: update.source_text,
+      start_ms: update.start_ms,
+      end_ms: update.end_ms,
+    };
+
+    socket.emit(
+      update.is_final
+        ? TranscriptionEvents.TRANSLATION_FINAL
+        : TranscriptionEvents.TRANSLATION_PARTIAL,
+      payload
+    );
+  }
+
+  /**
+   * Let the originating socket know the provider stream dropped or recovered
+   */
+  private emitConnectionEvent(
+    socket: Socket,
+    sessionId: string,
+    event: ITranscriptionConnectionEvent
+  ): void {
+    const payload: IProviderConnectionEventPayload = {
+      sessionId,
+      attempt: event.attempt,
+      delay_ms: event.delay_ms,
+    };
+
+    socket.emit(
+      event.type === "reconnecting"
+        ? TranscriptionEvents.PROVIDER_RECONNECTING
+        : TranscriptionEvents.PROVIDER_RECONNECTED,
+      payload
+    );
   }
 }
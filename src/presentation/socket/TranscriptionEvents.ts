@@ -0,0 +1,128 @@
+import type {
+  ISessionSpeaker,
+  ITranscriptSegment,
+  SessionStatus,
+} from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+
+/**
+ * Socket.IO commands accepted from transcription clients
+ */
+export const TranscriptionCommands = {
+  START: "start_transcription",
+  PAUSE: "pause_transcription",
+  RESUME: "resume_transcription",
+  STOP: "stop_transcription",
+  AUDIO_CHUNK: "audio_chunk",
+  RENAME_SPEAKER: "rename_speaker",
+} as const;
+
+/**
+ * Socket.IO event names emitted to transcription clients
+ */
+export const TranscriptionEvents = {
+  TRANSCRIPT_PARTIAL: "transcript_partial",
+  TRANSCRIPT_FINAL: "transcript_final",
+  UTTERANCE_END: "utterance_end",
+  TRANSLATION_PARTIAL: "translation_partial",
+  TRANSLATION_FINAL: "translation_final",
+  PROVIDER_RECONNECTING: "provider_reconnecting",
+  PROVIDER_RECONNECTED: "provider_reconnected",
+} as const;
+
+/**
+ * Optional payload of start_transcription
+ */
+export interface IStartTranscriptionPayload {
+  audio?: {
+    sampleRate?: number; // 8000, 16000, 24000, 44100 or 48000
+    channels?: number; // 1 or 2
+    format?: string; // pcm_s16le, pcm_f32le, mulaw, webm_opus or ogg_opus
+  };
+  targetLanguages?: string[];
+  languageHints?: string[]; // spoken languages to expect; defaults to the user's or organization's
+  record?: boolean; // store the audio for replay via GET /api/transcriptions/:id/audio
+}
+
+/**
+ * Payload of rename_speaker; a null or empty name restores "Speaker N"
+ */
+export interface IRenameSpeakerPayload {
+  speakerId: string;
+  name: string | null;
+}
+
+/**
+ * Payload for transcript_partial / transcript_final events
+ */
+export interface ITranscriptEventPayload {
+  sessionId: string;
+  is_final: boolean;
+  tokens: ITranscriptionResult["tokens"];
+  speaker?: string;
+}
+
+/**
+ * Payload for utterance_end, sent once the final tokens of an utterance
+ * are in
+ */
+export interface IUtteranceEndEventPayload {
+  sessionId: string;
+  segment: ITranscriptSegment;
+}
+
+/**
+ * Payload for translation_partial / translation_final events
+ */
+export interface ITranslationEventPayload {
+  sessionId: string;
+  is_final: boolean;
+  language: string;
+  text: string;
+  source_text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+/**
+ * Payload for provider_reconnecting / provider_reconnected events; audio
+ * sent meanwhile is buffered and replayed, so clients keep streaming
+ */
+export interface IProviderConnectionEventPayload {
+  sessionId: string;
+  attempt: number;
+  delay_ms?: number;
+}
+
+/**
+ * Ack payload returned by session lifecycle commands
+ */
+export interface ISessionAckPayload {
+  sessionId: string;
+  status: SessionStatus;
+  languageHints: string[];
+  audio: {
+    sampleRate: number;
+    channels: number;
+    format: string;
+  };
+}
+
+/**
+ * Ack payload returned by rename_speaker
+ */
+export interface ISpeakersAckPayload {
+  sessionId: string;
+  speakers: ISessionSpeaker[];
+}
+
+/**
+ * Ack payload returned when a command fails
+ */
+export interface ISocketErrorPayload {
+  error: string;
+  details?: string;
+  code?: "validation_error" | "quota_exceeded";
+}
+
+export type SocketAck<T> = (response: T | ISocketErrorPayload) => void;
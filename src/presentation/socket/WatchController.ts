@@ -0,0 +1,86 @@
+import { Socket } from "socket.io";
+import { WatchSession } from "../../use-cases/watch/WatchSession.js";
+import type { ILogger } from "../../use-cases/interfaces/ILogger.js";
+import type { IAuthContext } from "../../lib/authSession.js";
+import {
+  WatchCommands,
+  getWatchedSessionId,
+  watchRoom,
+  type IWatchAckPayload,
+  type IWatchSessionPayload,
+} from "./WatchEvents.js";
+import { extractAck, extractPayload, toSocketError } from "./socketArgs.js";
+
+export class WatchController {
+  constructor(
+    private watchSession: WatchSession,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Handle watch_session command; a socket watches one session at a time
+   */
+  handleWatch = (socket: Socket) => {
+    socket.on(WatchCommands.WATCH, async (...args: unknown[]) => {
+      const callback = extractAck<IWatchAckPayload>(args);
+
+      try {
+        const payload = extractPayload<IWatchSessionPayload>(args);
+        const auth = socket.data.auth as IAuthContext | undefined;
+        const { session, live } = await this.watchSession.execute({
+          userId: auth?.userId,
+          sessionId: payload.sessionId,
+          // Viewers without an account connected with a watch link
+          token: payload.token ?? socket.data.watchToken,
+        });
+        const sessionId = session.id.toString();
+
+        // Join and snapshot without yielding, so no final is missed or repeated
+        this.leaveWatchedSession(socket);
+        if (live) {
+          socket.join(watchRoom(sessionId));
+          socket.data.watchedSessionId = sessionId;
+        }
+
+        callback?.({
+          sessionId,
+          status: session.status,
+          live,
+          startedAt: session.startedAt.toISOString(),
+          results: [...session.results],
+          translations: [...session.translations],
+          speakers: session.getSpeakers(),
+        });
+
+        this.logger.info("Viewer watching session", {
+          clientId: socket.id,
+          sessionId,
+          userId: auth?.userId ?? null,
+          live,
+        });
+      } catch (error) {
+        callback?.(toSocketError("Failed to watch session", error));
+      }
+    });
+  };
+
+  /**
+   * Handle unwatch_session command
+   */
+  handleUnwatch = (socket: Socket) => {
+    socket.on(WatchCommands.UNWATCH, (...args: unknown[]) => {
+      const callback = extractAck<{ sessionId: string | null }>(args);
+      const sessionId = this.leaveWatchedSession(socket);
+      callback?.({ sessionId });
+    });
+  };
+
+  private leaveWatchedSession(socket: Socket): string | null {
+    const sessionId = getWatchedSessionId(socket);
+    if (sessionId) {
+      socket.leave(watchRoom(sessionId));
+      socket.data.watchedSessionId = undefined;
+    }
+    return sessionId;
+  }
+}
@@ -0,0 +1,68 @@
+import type { Socket } from "socket.io";
+import type {
+  ISessionSpeaker,
+  ITranscriptionToken,
+  ITranslationSegment,
+  SessionStatus,
+} from "../../domain/entities/TranscriptionSession.js";
+
+/**
+ * Socket.IO commands for read-only viewers. A watched session's
+ * transcript_* and translation_* events are relayed to its viewers as-is.
+ */
+export const WatchCommands = {
+  WATCH: "watch_session",
+  UNWATCH: "unwatch_session",
+} as const;
+
+/**
+ * Socket.IO events sent only to viewers
+ */
+export const WatchEvents = {
+  SESSION_STATUS: "session_status",
+} as const;
+
+/**
+ * Payload of watch_session: a watch link token, or the id of a session
+ * the signed-in user can read
+ */
+export interface IWatchSessionPayload {
+  token?: string;
+  sessionId?: string;
+}
+
+/**
+ * Ack payload of watch_session; late joiners render results first, then
+ * apply live events
+ */
+export interface IWatchAckPayload {
+  sessionId: string;
+  status: SessionStatus;
+  live: boolean;
+  startedAt: string;
+  results: ITranscriptionToken[];
+  translations: ITranslationSegment[];
+  speakers: ISessionSpeaker[];
+}
+
+/**
+ * Payload for session_status, sent on pause, resume and when the session ends
+ */
+export interface ISessionStatusEventPayload {
+  sessionId: string;
+  status: SessionStatus;
+}
+
+/**
+ * Socket.IO room of a session's viewers
+ */
+export function watchRoom(sessionId: string): string {
+  return `watch:${sessionId}`;
+}
+
+/**
+ * The session this socket is watching, if any
+ */
+export function getWatchedSessionId(socket: Socket): string | null {
+  return (socket.data.watchedSessionId as string | undefined) ?? null;
+}
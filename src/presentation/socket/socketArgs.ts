@@ -0,0 +1,35 @@
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { QuotaExceededError } from "../../domain/errors/QuotaExceededError.js";
+import type { ISocketErrorPayload, SocketAck } from "./TranscriptionEvents.js";
+
+/**
+ * Socket.IO passes the ack as the last argument; commands may be emitted
+ * with or without a payload before it
+ */
+export function extractAck<T>(args: unknown[]): SocketAck<T> | undefined {
+  const last = args[args.length - 1];
+  return typeof last === "function" ? (last as SocketAck<T>) : undefined;
+}
+
+/**
+ * The optional payload precedes the ack; absent or malformed payloads
+ * are treated as empty
+ */
+export function extractPayload<T extends object>(args: unknown[]): Partial<T> {
+  const first = args[0];
+  return first && typeof first === "object" && !Array.isArray(first)
+    ? (first as Partial<T>)
+    : {};
+}
+
+export function toSocketError(
+  message: string,
+  error: unknown
+): ISocketErrorPayload {
+  return {
+    error: message,
+    details: error instanceof Error ? error.message : String(error),
+    ...(error instanceof ValidationError && { code: "validation_error" }),
+    ...(error instanceof QuotaExceededError && { code: "quota_exceeded" }),
+  };
+}
@@ -8,10 +8,15 @@ import { logger } from "./lib/logger.js";
 import { db } from "./lib/db.js";
 import { initializeSocketIO } from "./lib/socket.js";
 import { DependencyFactory } from "./config/DependencyFactory.js";
+import { createTranscriptionRouter } from "./presentation/http/transcriptionRoutes.js";
+import { createCallRouter } from "./presentation/http/callRoutes.js";
+import { createOrganizationRouter } from "./presentation/http/organizationRoutes.js";
+import { createAdminRouter } from "./presentation/http/adminRoutes.js";
 
 const app = express();
 const httpServer = createServer(app);
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
+const RECORDING_RETENTION_INTERVAL_MS = 60 * 60 * 1000;
 
 // Initialize Dependency Factory (composition root)
 DependencyFactory.initialize(db);
@@ -61,6 +66,34 @@ app.all("/api/auth/*splat", async (req, res, next) => {
   }
 });
 
+// Transcription REST API
+app.use(
+  "/api/transcriptions",
+  createTranscriptionRouter(
+    DependencyFactory.getInstance().createTranscriptionHttpController()
+  ),
+);
+
+// Multi-party call REST API
+app.use(
+  "/api/calls",
+  createCallRouter(DependencyFactory.getInstance().createCallHttpController()),
+);
+
+// Organization REST API (usage metering)
+app.use(
+  "/api/organizations",
+  createOrganizationRouter(
+    DependencyFactory.getInstance().createOrganizationHttpController()
+  ),
+);
+
+// Admin REST API (background job status)
+app.use(
+  "/api/admin",
+  createAdminRouter(DependencyFactory.getInstance().createAdminHttpController()),
+);
+
 // Error handling middleware (for sync errors)
 app.use(
   (
@@ -80,3 +113,15 @@ app.use(
 httpServer.listen(port, () => {
   logger.info("Server started", { port });
 });
+
+// Delete recordings past their retention period, at startup and hourly
+const purgeExpiredRecordings =
+  DependencyFactory.getInstance().createPurgeExpiredRecordingsUseCase();
+void purgeExpiredRecordings.execute();
+setInterval(
+  () => void purgeExpiredRecordings.execute(),
+  RECORDING_RETENTION_INTERVAL_MS
+).unref();
+
+// Run queued post-session jobs in the background
+DependencyFactory.getInstance().createJobWorker().start();
@@ -0,0 +1,25 @@
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+
+/**
+ * Decides who may use the operator-only admin API: users whose email is
+ * on the configured admin list
+ */
+export class AdminAccessPolicy {
+  private adminEmails: Set<string>;
+
+  constructor(adminEmails: string[]) {
+    this.adminEmails = new Set(
+      adminEmails.map((email) => email.trim().toLowerCase()).filter(Boolean)
+    );
+  }
+
+  isAdmin(userEmail: string): boolean {
+    return this.adminEmails.has(userEmail.toLowerCase());
+  }
+
+  assertAdmin(userEmail: string): void {
+    if (!this.isAdmin(userEmail)) {
+      throw new ForbiddenError("Admin access required");
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { GetTranscription } from "../transcription/GetTranscription.js";
+import { UPLOAD_SOCKET_ID } from "./TranscribeUpload.js";
+import { UploadProgressRegistry, type IUploadProgress } from "./UploadProgressRegistry.js";
+
+export class GetUploadProgress {
+  constructor(
+    private getTranscription: GetTranscription,
+    private progressRegistry: UploadProgressRegistry
+  ) {}
+
+  /**
+   * Progress of an upload the user can read. Jobs no longer tracked by
+   * this server are reported from the stored session.
+   */
+  async execute(userId: string, sessionId: string): Promise<IUploadProgress> {
+    const session = await this.getTranscription.execute(userId, sessionId);
+    if (session.socketId !== UPLOAD_SOCKET_ID) {
+      throw new NotFoundError("Upload not found");
+    }
+
+    const tracked = this.progressRegistry.get(sessionId);
+    if (tracked) {
+      return tracked;
+    }
+
+    const durationMs = Math.round(session.audioDurationMs);
+    if (session.isStopped() && !session.errorMessage) {
+      return {
+        sessionId,
+        status: "completed",
+        processedMs: durationMs,
+        totalMs: durationMs,
+      };
+    }
+
+    return {
+      sessionId,
+      status: "failed",
+      processedMs: durationMs,
+      totalMs: durationMs,
+      error: session.errorMessage ?? "Upload processing was interrupted",
+    };
+  }
+}
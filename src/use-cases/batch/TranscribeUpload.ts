@@ -0,0 +1,208 @@
+import type {
+  ISessionOwner,
+  TranscriptionSession,
+} from "../../domain/entities/TranscriptionSession.js";
+import { AudioConfig } from "../../domain/value-objects/AudioConfig.js";
+import { LanguageCode } from "../../domain/value-objects/LanguageCode.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { CapacityExceededError } from "../../domain/errors/CapacityExceededError.js";
+import { StartTranscription } from "../transcription/StartTranscription.js";
+import { ProcessAudioChunk } from "../transcription/ProcessAudioChunk.js";
+import { StopTranscription } from "../transcription/StopTranscription.js";
+import { parseWavFile } from "../recording/wavHeader.js";
+import { UploadProgressRegistry, type IUploadProgress } from "./UploadProgressRegistry.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+// Uploads are fed in chunks like a live client would send them, faster than
+// real time but slow enough for streaming providers to keep up
+const CHUNK_MS = 100;
+const PLAYBACK_SPEED = 4;
+const MAX_TARGET_LANGUAGES = 5;
+const MAX_LANGUAGE_HINTS = 5;
+// Sessions of uploads have no socket; this marks them in socket_id
+export const UPLOAD_SOCKET_ID = "upload";
+
+/**
+ * The use cases a live socket runs, wired to one provider connection
+ */
+export interface ITranscriptionPipeline {
+  start: StartTranscription;
+  processAudioChunk: ProcessAudioChunk;
+  stop: StopTranscription;
+}
+
+export type TranscriptionPipelineFactory = (
+  owner: ISessionOwner
+) => Promise<ITranscriptionPipeline>;
+
+export interface IAudioUpload {
+  data: Uint8Array;
+  /** "wav" files describe themselves; "raw" PCM needs the audio config */
+  container: "wav" | "raw";
+  audio?: unknown;
+  targetLanguages?: unknown;
+  languageHints?: unknown;
+}
+
+/**
+ * Transcribes uploaded files. Each upload is held in memory while it is
+ * fed, so only maxConcurrentUploads run at once on this server.
+ * Note: One instance per server
+ */
+export class TranscribeUpload {
+  private activeUploads = 0;
+
+  constructor(
+    private createPipeline: TranscriptionPipelineFactory,
+    private progressRegistry: UploadProgressRegistry,
+    private maxConcurrentUploads: number,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Reject an upload while the server is transcribing as many as it may,
+   * e.g. before its body is read
+   */
+  assertCapacity(): void {
+    if (this.activeUploads >= this.maxConcurrentUploads) {
+      throw new CapacityExceededError(
+        "Too many uploads are being transcribed right now. Try again in a few minutes."
+      );
+    }
+  }
+
+  /**
+   * Start a session for an uploaded file and transcribe it in the
+   * background through the same pipeline as live audio, so the stored
+   * session, usage and exports match a live one. Resolves once the
+   * session has started; progress is tracked by session id.
+   */
+  async execute(owner: ISessionOwner, upload: IAudioUpload): Promise<IUploadProgress> {
+    const { audioConfig, data } = this.parseAudio(upload);
+    const targetLanguages = this.parseLanguages(upload.targetLanguages, MAX_TARGET_LANGUAGES);
+    const languageHints = this.parseLanguages(upload.languageHints, MAX_LANGUAGE_HINTS);
+
+    const frameBytes = audioConfig.getBytesPerFrame();
+    const audio = data.subarray(0, data.length - (data.length % frameBytes));
+    if (audio.length === 0) {
+      throw new ValidationError("The uploaded file contains no audio");
+    }
+
+    // The slot is taken before anything is awaited and held until the
+    // feed finishes
+    this.assertCapacity();
+    this.activeUploads++;
+
+    let pipeline: ITranscriptionPipeline;
+    let session: TranscriptionSession;
+    try {
+      pipeline = await this.createPipeline(owner);
+      session = await pipeline.start.execute(
+        UPLOAD_SOCKET_ID,
+        owner,
+        { audioConfig, targetLanguages, languageHints },
+        { onResult: () => undefined, onTranslation: () => undefined }
+      );
+    } catch (error) {
+      this.activeUploads--;
+      throw error;
+    }
+
+    const progress = this.progressRegistry.start(
+      session.id.toString(),
+      Math.round(audioConfig.bytesToDurationMs(audio.length))
+    );
+
+    this.logger.info("Upload transcription started", {
+      sessionId: session.id.toString(),
+      userId: owner.userId,
+      bytes: audio.length,
+      durationMs: progress.totalMs,
+    });
+
+    void this.feed(pipeline, session, audio, progress).finally(() => {
+      this.activeUploads--;
+    });
+
+    return progress;
+  }
+
+  private async feed(
+    pipeline: ITranscriptionPipeline,
+    session: TranscriptionSession,
+    audio: Uint8Array,
+    progress: IUploadProgress
+  ): Promise<void> {
+    const { audioConfig } = session;
+    const chunkBytes =
+      Math.round((audioConfig.sampleRate * CHUNK_MS) / 1000) *
+      audioConfig.getBytesPerFrame();
+    let failure: string | undefined;
+
+    try {
+      for (let offset = 0; offset < audio.length; offset += chunkBytes) {
+        const chunk = audio.subarray(offset, offset + chunkBytes);
+        await pipeline.processAudioChunk.execute(session, chunk);
+
+        progress.processedMs = Math.round(
+          audioConfig.bytesToDurationMs(offset + chunk.length)
+        );
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_MS / PLAYBACK_SPEED));
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    // Stopping flushes the provider's last finals and persists the
+    // session, in error if the audio could not be fed through
+    try {
+      await pipeline.stop.execute(session, failure);
+    } catch (error) {
+      failure ??= error instanceof Error ? error.message : String(error);
+    }
+    if (session.hasError()) {
+      failure ??= session.errorMessage ?? "Transcription failed";
+    }
+
+    this.progressRegistry.finish(progress, failure);
+
+    if (failure) {
+      this.logger.error("Upload transcription failed", {
+        sessionId: session.id.toString(),
+        processedMs: progress.processedMs,
+        error: failure,
+      });
+    } else {
+      this.logger.info("Upload transcription completed", {
+        sessionId: session.id.toString(),
+        durationMs: progress.totalMs,
+      });
+    }
+  }
+
+  private parseAudio(upload: IAudioUpload): { audioConfig: AudioConfig; data: Uint8Array } {
+    try {
+      if (upload.container === "wav") {
+        return parseWavFile(upload.data);
+      }
+
+      const audioConfig = AudioConfig.parse(upload.audio);
+      if (audioConfig.isCompressed()) {
+        throw new Error("Compressed audio cannot be uploaded as raw PCM; upload a WAV file");
+      }
+      return { audioConfig, data: upload.data };
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private parseLanguages(value: unknown, maxLength: number): string[] {
+    try {
+      return LanguageCode.parseList(value, maxLength).map((code) =>
+        code.toString()
+      );
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
@@ -0,0 +1,49 @@
+// Finished jobs stay queryable for a while; afterwards progress is read
+// from the session status
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export type UploadJobStatus = "processing" | "completed" | "failed";
+
+export interface IUploadProgress {
+  sessionId: string;
+  status: UploadJobStatus;
+  processedMs: number;
+  totalMs: number;
+  error?: string;
+}
+
+/**
+ * Progress of upload transcriptions running on this server
+ */
+export class UploadProgressRegistry {
+  private jobs = new Map<string, IUploadProgress>();
+
+  start(sessionId: string, totalMs: number): IUploadProgress {
+    const progress: IUploadProgress = {
+      sessionId,
+      status: "processing",
+      processedMs: 0,
+      totalMs,
+    };
+    this.jobs.set(sessionId, progress);
+    return progress;
+  }
+
+  get(sessionId: string): IUploadProgress | undefined {
+    return this.jobs.get(sessionId);
+  }
+
+  finish(progress: IUploadProgress, error?: string): void {
+    progress.status = error ? "failed" : "completed";
+    progress.error = error;
+    if (!error) {
+      progress.processedMs = progress.totalMs;
+    }
+
+    setTimeout(() => {
+      if (this.jobs.get(progress.sessionId) === progress) {
+        this.jobs.delete(progress.sessionId);
+      }
+    }, FINISHED_JOB_TTL_MS).unref();
+  }
+}
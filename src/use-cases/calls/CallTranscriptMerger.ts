@@ -0,0 +1,55 @@
+import type {
+  ICallNotifier,
+  ICallTranscriptUpdate,
+} from "../interfaces/ICallNotifier.js";
+
+const REORDER_WINDOW_MS = 1000;
+
+/**
+ * Merges the participants' result streams of one call. Partials are
+ * forwarded as they come; finals are held for a short window and released
+ * in call-time order, since participants' providers finalize at different
+ * speeds.
+ */
+export class CallTranscriptMerger {
+  private pending: ICallTranscriptUpdate[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private notifier: ICallNotifier,
+    private reorderWindowMs: number = REORDER_WINDOW_MS
+  ) {}
+
+  publish(update: ICallTranscriptUpdate): void {
+    if (update.tokens.length === 0) {
+      return;
+    }
+
+    if (!update.is_final) {
+      this.notifier.transcript(update);
+      return;
+    }
+
+    this.pending.push(update);
+    this.timer ??= setTimeout(() => this.flush(), this.reorderWindowMs);
+  }
+
+  /**
+   * Release every held final, oldest first
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const ready = this.pending.sort(
+      (a, b) => a.tokens[0]!.start_ms - b.tokens[0]!.start_ms
+    );
+    this.pending = [];
+
+    for (const update of ready) {
+      this.notifier.transcript(update);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { Call } from "../../domain/entities/Call.js";
+import type { ISessionOwner } from "../../domain/entities/TranscriptionSession.js";
+import type { ICallRepository } from "../../domain/repositories/ICallRepository.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { LiveCallRegistry } from "./LiveCallRegistry.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+const MAX_TITLE_LENGTH = 200;
+
+export class CreateCall {
+  constructor(
+    private callRepository: ICallRepository,
+    private liveCalls: LiveCallRegistry,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Start a call in the owner's active organization with the owner as
+   * its first participant
+   */
+  async execute(
+    owner: ISessionOwner,
+    participantName: string,
+    title?: unknown
+  ): Promise<Call> {
+    const call = Call.create(owner, this.parseTitle(title));
+    call.join(owner.userId, participantName);
+
+    await this.callRepository.save(call);
+    this.liveCalls.register(call);
+    this.liveCalls.attach(call.id.toString(), owner.userId);
+
+    this.logger.info("Call created", {
+      callId: call.id.toString(),
+      userId: owner.userId,
+      organizationId: owner.organizationId,
+    });
+
+    return call;
+  }
+
+  private parseTitle(value: unknown): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (typeof value !== "string") {
+      throw new ValidationError("title must be a string");
+    }
+
+    const title = value.trim();
+    if (title.length > MAX_TITLE_LENGTH) {
+      throw new ValidationError(
+        `title must be at most ${MAX_TITLE_LENGTH} characters`
+      );
+    }
+    return title === "" ? null : title;
+  }
+}
@@ -0,0 +1,111 @@
+import { Call } from "../../domain/entities/Call.js";
+import {
+  joinTokenText,
+  TranscriptionSession,
+  type ITranscriptionToken,
+} from "../../domain/entities/TranscriptionSession.js";
+import type { ICallRepository } from "../../domain/repositories/ICallRepository.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { TranscriptionAccessPolicy } from "../transcription/TranscriptionAccessPolicy.js";
+
+// Silence that splits one participant's speech into separate entries, on
+// top of the utterance ends the provider detects
+const UTTERANCE_PAUSE_MS = 800;
+
+export interface ICallDetail {
+  call: Call;
+  sessions: TranscriptionSession[];
+}
+
+/**
+ * One participant's utterance on the call timeline
+ */
+export interface ICallTranscriptEntry {
+  sessionId: string;
+  userId: string;
+  participantName: string;
+  speaker?: string;
+  start_ms: number;
+  end_ms: number;
+  text: string;
+}
+
+export class GetCall {
+  constructor(
+    private callRepository: ICallRepository,
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy
+  ) {}
+
+  /**
+   * Participants and members of the call's organization may read a call;
+   * anyone else is told it does not exist
+   */
+  async execute(userId: string, callId: string): Promise<ICallDetail> {
+    const call = await this.callRepository.findById(callId);
+    if (!call) {
+      throw new NotFoundError("Call not found");
+    }
+
+    if (!call.hasParticipant(userId)) {
+      const access = await this.accessPolicy.resolve(userId);
+      if (
+        call.organizationId === null ||
+        !access.organizationIds.includes(call.organizationId)
+      ) {
+        throw new NotFoundError("Call not found");
+      }
+    }
+
+    const sessions = await this.transcriptionRepository.findByCallId(callId);
+    return { call, sessions };
+  }
+
+  /**
+   * Interleave every participant's final tokens into one transcript,
+   * ordered by call time
+   */
+  mergeTranscript(detail: ICallDetail): ICallTranscriptEntry[] {
+    const entries: ICallTranscriptEntry[] = [];
+
+    for (const session of detail.sessions) {
+      const offsetMs = detail.call.getOffsetMs(session.startedAt);
+      const participantName =
+        detail.call.findParticipant(session.userId)?.name ?? session.userId;
+
+      let run: ITranscriptionToken[] = [];
+      const flush = () => {
+        const text = joinTokenText(run);
+        if (text !== "") {
+          entries.push({
+            sessionId: session.id.toString(),
+            userId: session.userId,
+            participantName,
+            speaker: run[0]!.speaker,
+            start_ms: run[0]!.start_ms + offsetMs,
+            end_ms: run[run.length - 1]!.end_ms + offsetMs,
+            text,
+          });
+        }
+        run = [];
+      };
+
+      for (const token of session.results) {
+        const last = run[run.length - 1];
+        if (
+          last &&
+          (last.speaker !== token.speaker ||
+            last.segment !== token.segment ||
+            token.start_ms - last.end_ms >= UTTERANCE_PAUSE_MS)
+        ) {
+          flush();
+        }
+        run.push(token);
+      }
+      flush();
+    }
+
+    return entries.sort((a, b) => a.start_ms - b.start_ms);
+  }
+}
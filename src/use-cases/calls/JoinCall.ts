@@ -0,0 +1,75 @@
+import { Call } from "../../domain/entities/Call.js";
+import type { ICallRepository } from "../../domain/repositories/ICallRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { TranscriptionAccessPolicy } from "../transcription/TranscriptionAccessPolicy.js";
+import { LiveCallRegistry } from "./LiveCallRegistry.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class JoinCall {
+  constructor(
+    private callRepository: ICallRepository,
+    private liveCalls: LiveCallRegistry,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Add a user to an active call. Members of the call's organization may
+   * join; a call outside any organization only takes back its creator and
+   * earlier participants. Anyone else is told the call does not exist.
+   */
+  async execute(
+    callId: unknown,
+    userId: string,
+    participantName: string
+  ): Promise<Call> {
+    if (typeof callId !== "string" || callId.trim() === "") {
+      throw new ValidationError("callId is required");
+    }
+
+    const live = this.liveCalls.get(callId) ?? (await this.restore(callId));
+    const call = live.call;
+    await this.assertCanJoin(call, userId);
+
+    const participant = call.join(userId, participantName);
+    this.liveCalls.attach(callId, userId);
+    await this.callRepository.update(call);
+
+    this.liveCalls.getNotifier().participantJoined(callId, participant);
+
+    this.logger.info("Call joined", { callId, userId });
+
+    return call;
+  }
+
+  private async assertCanJoin(call: Call, userId: string): Promise<void> {
+    if (call.createdBy === userId || call.hasParticipant(userId)) {
+      return;
+    }
+
+    const access = await this.accessPolicy.resolve(userId);
+    if (
+      call.organizationId === null ||
+      !access.organizationIds.includes(call.organizationId)
+    ) {
+      throw new NotFoundError("Call not found");
+    }
+  }
+
+  /**
+   * Calls outlive a server restart in the database only; pick an active
+   * one back up on the next join
+   */
+  private async restore(callId: string) {
+    const call = await this.callRepository.findById(callId);
+    if (!call) {
+      throw new NotFoundError("Call not found");
+    }
+    if (!call.isActive()) {
+      throw new ValidationError("Call has ended");
+    }
+
+    return this.liveCalls.get(callId) ?? this.liveCalls.register(call);
+  }
+}
@@ -0,0 +1,50 @@
+import { Call } from "../../domain/entities/Call.js";
+import type { ICallRepository } from "../../domain/repositories/ICallRepository.js";
+import { LiveCallRegistry } from "./LiveCallRegistry.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class LeaveCall {
+  constructor(
+    private callRepository: ICallRepository,
+    private liveCalls: LiveCallRegistry,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Remove one of the user's sockets from a call. The user leaves once
+   * their last socket is gone, and the call ends with its last participant.
+   */
+  async execute(callId: string, userId: string): Promise<Call | null> {
+    const live = this.liveCalls.get(callId);
+    if (!live) {
+      return null;
+    }
+
+    const call = live.call;
+    if (this.liveCalls.detach(callId, userId) > 0) {
+      return call;
+    }
+
+    call.leave(userId);
+    const participant = call.findParticipant(userId);
+    if (participant) {
+      this.liveCalls.getNotifier().participantLeft(callId, participant);
+    }
+
+    if (call.getPresentParticipants().length === 0) {
+      call.end();
+      this.liveCalls.remove(callId);
+      this.liveCalls.getNotifier().callEnded(callId);
+    }
+
+    await this.callRepository.update(call);
+
+    this.logger.info("Call left", {
+      callId,
+      userId,
+      callStatus: call.status,
+    });
+
+    return call;
+  }
+}
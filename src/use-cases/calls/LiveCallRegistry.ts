@@ -0,0 +1,105 @@
+import { Call } from "../../domain/entities/Call.js";
+import type { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ICallNotifier } from "../interfaces/ICallNotifier.js";
+import { CallTranscriptMerger } from "./CallTranscriptMerger.js";
+
+export interface ILiveCall {
+  call: Call;
+  merger: CallTranscriptMerger;
+  /** Open sockets per participant; a user may join from several tabs */
+  connections: Map<string, number>;
+}
+
+/**
+ * Calls in progress on this server, shared by all sockets
+ */
+export class LiveCallRegistry {
+  private calls = new Map<string, ILiveCall>();
+
+  constructor(private notifier: ICallNotifier) {}
+
+  register(call: Call): ILiveCall {
+    const live: ILiveCall = {
+      call,
+      merger: new CallTranscriptMerger(this.notifier),
+      connections: new Map(),
+    };
+    this.calls.set(call.id.toString(), live);
+    return live;
+  }
+
+  get(callId: string): ILiveCall | undefined {
+    return this.calls.get(callId);
+  }
+
+  /**
+   * Drop a finished call after releasing its held transcript
+   */
+  remove(callId: string): void {
+    this.calls.get(callId)?.merger.flush();
+    this.calls.delete(callId);
+  }
+
+  attach(callId: string, userId: string): void {
+    const live = this.calls.get(callId);
+    if (live) {
+      live.connections.set(userId, (live.connections.get(userId) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Returns how many of the user's sockets remain in the call
+   */
+  detach(callId: string, userId: string): number {
+    const live = this.calls.get(callId);
+    if (!live) {
+      return 0;
+    }
+
+    const remaining = Math.max(0, (live.connections.get(userId) ?? 0) - 1);
+    if (remaining === 0) {
+      live.connections.delete(userId);
+    } else {
+      live.connections.set(userId, remaining);
+    }
+    return remaining;
+  }
+
+  getNotifier(): ICallNotifier {
+    return this.notifier;
+  }
+
+  /**
+   * Share a participant's result with the call, shifting its timestamps
+   * from the session's clock to the call's
+   */
+  publishResult(
+    session: TranscriptionSession,
+    result: ITranscriptionResult
+  ): void {
+    const live = session.callId ? this.calls.get(session.callId) : undefined;
+    if (!live) {
+      return;
+    }
+
+    const participant = live.call.findParticipant(session.userId);
+    const offsetMs = live.call.getOffsetMs(session.startedAt);
+
+    live.merger.publish({
+      callId: live.call.id.toString(),
+      sessionId: session.id.toString(),
+      participant: {
+        userId: session.userId,
+        name: participant?.name ?? session.userId,
+      },
+      is_final: result.is_final,
+      speaker: result.speaker,
+      tokens: result.tokens.map((token) => ({
+        ...token,
+        start_ms: token.start_ms + offsetMs,
+        end_ms: token.end_ms + offsetMs,
+      })),
+    });
+  }
+}
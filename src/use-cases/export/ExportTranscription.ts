@@ -0,0 +1,91 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ITranscriptCue,
+  type ITranscriptDocument,
+  type ITranscriptExporter,
+} from "../../domain/repositories/ITranscriptExporter.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { GetTranscription } from "../transcription/GetTranscription.js";
+import { TranscriptSegmenter } from "./TranscriptSegmenter.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export interface IExportResult {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+export class ExportTranscription {
+  private exporters: Map<ExportFormat, ITranscriptExporter>;
+
+  constructor(
+    private getTranscription: GetTranscription,
+    exporters: ITranscriptExporter[],
+    private segmenter: TranscriptSegmenter,
+    private logger: ILogger
+  ) {
+    this.exporters = new Map(
+      exporters.map((exporter) => [exporter.format, exporter])
+    );
+  }
+
+  async execute(
+    userId: string,
+    sessionId: string,
+    format: string
+  ): Promise<IExportResult> {
+    const exporter = this.exporters.get(format as ExportFormat);
+    if (!exporter) {
+      throw new ValidationError(
+        `Unsupported export format "${format}". Use one of: ${EXPORT_FORMATS.join(", ")}`
+      );
+    }
+
+    const session = await this.getTranscription.execute(userId, sessionId);
+    const content = exporter.render(this.buildDocument(session));
+
+    this.logger.info("Transcription exported", {
+      sessionId,
+      userId,
+      format: exporter.format,
+      bytes: Buffer.byteLength(content),
+    });
+
+    return {
+      content,
+      contentType: exporter.contentType,
+      fileName: `transcript-${sessionId}.${exporter.fileExtension}`,
+    };
+  }
+
+  buildDocument(session: TranscriptionSession): ITranscriptDocument {
+    // Segment on diarization ids so speakers sharing a name stay apart
+    const cues = this.segmenter.segment(session.results);
+    const turns = this.segmenter.groupTurns(cues);
+    const labelled = (cue: ITranscriptCue): ITranscriptCue => ({
+      ...cue,
+      speaker:
+        cue.speaker !== undefined
+          ? session.getSpeakerLabel(cue.speaker)
+          : undefined,
+    });
+
+    return {
+      sessionId: session.id.toString(),
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      durationMs: session.getDurationMs(),
+      text: session.getTranscribedText(),
+      cues: cues.map(labelled),
+      turns: turns.map(labelled),
+      speakers: session
+        .getSpeakers()
+        .map(({ id, label }) => ({ id, label })),
+      languages: session.getDetectedLanguages(),
+      segments: session.getSegments(),
+      tokens: session.results,
+    };
+  }
+}
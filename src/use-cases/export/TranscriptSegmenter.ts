@@ -0,0 +1,138 @@
+import {
+  joinTokenText,
+  rankLanguages,
+} from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IExportToken,
+  ITranscriptCue,
+} from "../../domain/repositories/ITranscriptExporter.js";
+
+export interface ISegmenterOptions {
+  /** Silence between tokens that starts a new cue */
+  pauseThresholdMs: number;
+  /** Longest a single cue may stay on screen */
+  maxCueDurationMs: number;
+  /** Characters per subtitle line */
+  maxLineLength: number;
+  /** Lines per subtitle cue */
+  maxLinesPerCue: number;
+}
+
+export const DEFAULT_SEGMENTER_OPTIONS: ISegmenterOptions = {
+  pauseThresholdMs: 800,
+  maxCueDurationMs: 7000,
+  maxLineLength: 42,
+  maxLinesPerCue: 2,
+};
+
+/**
+ * Splits a token stream into subtitle-sized cues on utterance ends, pauses,
+ * speaker changes, duration and length limits. Within an utterance cues
+ * only break between words, never inside one.
+ */
+export class TranscriptSegmenter {
+  private options: ISegmenterOptions;
+
+  constructor(options: Partial<ISegmenterOptions> = {}) {
+    this.options = { ...DEFAULT_SEGMENTER_OPTIONS, ...options };
+  }
+
+  segment(tokens: IExportToken[]): ITranscriptCue[] {
+    const cues: ITranscriptCue[] = [];
+    let current: IExportToken[] = [];
+
+    for (const token of tokens) {
+      if (current.length > 0 && this.shouldBreak(current, token)) {
+        cues.push(this.toCue(current));
+        current = [];
+      }
+      current.push(token);
+    }
+
+    if (current.length > 0) {
+      cues.push(this.toCue(current));
+    }
+
+    return cues.filter((cue) => cue.text !== "");
+  }
+
+  /**
+   * Merge consecutive cues of the same speaker into one paragraph
+   */
+  groupTurns(cues: ITranscriptCue[]): ITranscriptCue[] {
+    const turns: ITranscriptCue[] = [];
+
+    for (const cue of cues) {
+      const last = turns[turns.length - 1];
+      if (last && last.speaker === cue.speaker) {
+        last.end_ms = cue.end_ms;
+        last.text = `${last.text} ${cue.text}`;
+        last.lines = [last.text];
+      } else {
+        turns.push({ ...cue, lines: [cue.text] });
+      }
+    }
+
+    return turns;
+  }
+
+  private shouldBreak(current: IExportToken[], next: IExportToken): boolean {
+    const first = current[0]!;
+    const last = current[current.length - 1]!;
+
+    if (next.speaker !== last.speaker || next.segment !== last.segment) {
+      return true;
+    }
+    // Tokens without leading whitespace continue the previous word
+    if (!/^\s/.test(next.text)) {
+      return false;
+    }
+    if (next.start_ms - last.end_ms >= this.options.pauseThresholdMs) {
+      return true;
+    }
+    if (next.end_ms - first.start_ms > this.options.maxCueDurationMs) {
+      return true;
+    }
+
+    const maxChars = this.options.maxLineLength * this.options.maxLinesPerCue;
+    return joinTokenText([...current, next]).length > maxChars;
+  }
+
+  private toCue(tokens: IExportToken[]): ITranscriptCue {
+    const text = joinTokenText(tokens);
+
+    return {
+      start_ms: tokens[0]!.start_ms,
+      end_ms: tokens[tokens.length - 1]!.end_ms,
+      text,
+      lines: wrapText(text, this.options.maxLineLength),
+      speaker: tokens[0]!.speaker,
+      language: rankLanguages(tokens)[0],
+    };
+  }
+}
+
+/**
+ * Greedy word wrap; words longer than a line are kept whole
+ */
+export function wrapText(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(" ")) {
+    if (line === "") {
+      line = word;
+    } else if (line.length + 1 + word.length <= maxLineLength) {
+      line += ` ${word}`;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+
+  if (line !== "") {
+    lines.push(line);
+  }
+
+  return lines;
+}
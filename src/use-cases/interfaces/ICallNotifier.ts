@@ -0,0 +1,27 @@
+import type { ICallParticipant } from "../../domain/entities/Call.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+
+/**
+ * A participant's transcription result placed on the call timeline
+ */
+export interface ICallTranscriptUpdate {
+  callId: string;
+  sessionId: string;
+  participant: {
+    userId: string;
+    name: string;
+  };
+  is_final: boolean;
+  speaker?: string;
+  tokens: ITranscriptionResult["tokens"]; // ms since the call started
+}
+
+/**
+ * Delivers call activity to everyone in the call
+ */
+export interface ICallNotifier {
+  transcript(update: ICallTranscriptUpdate): void;
+  participantJoined(callId: string, participant: ICallParticipant): void;
+  participantLeft(callId: string, participant: ICallParticipant): void;
+  callEnded(callId: string): void;
+}
@@ -0,0 +1,21 @@
+import type { IJob } from "../../domain/repositories/IJobRepository.js";
+
+/**
+ * Runs background jobs of one type. Throwing fails the attempt; the job
+ * is retried with backoff until it runs out of attempts.
+ */
+export interface IJobHandler {
+  readonly type: string;
+  handle(job: IJob): Promise<void>;
+
+  /**
+   * Called once the job is given up on: it failed its last attempt, or
+   * its worker stopped during it
+   */
+  onDeadLetter?(job: IJob, error: string): Promise<void>;
+
+  /**
+   * Called before a dead job is queued again with a fresh set of attempts
+   */
+  onRequeue?(job: IJob): Promise<void>;
+}
@@ -0,0 +1,12 @@
+import type { SessionStatus } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ITranslationUpdate } from "../translation/TranslateTranscript.js";
+
+/**
+ * Delivers a live session's activity to its read-only viewers
+ */
+export interface ISessionViewerNotifier {
+  transcript(sessionId: string, result: ITranscriptionResult): void;
+  translation(sessionId: string, update: ITranslationUpdate): void;
+  statusChanged(sessionId: string, status: SessionStatus): void;
+}
@@ -0,0 +1,16 @@
+/**
+ * What a watch link grants: read-only access to one session until it expires
+ */
+export interface IWatchTokenClaims {
+  sessionId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Issues and checks the signed tokens behind shareable watch links
+ */
+export interface IWatchTokenService {
+  sign(claims: IWatchTokenClaims): string;
+  /** Returns null for tampered, malformed or expired tokens */
+  verify(token: string): IWatchTokenClaims | null;
+}
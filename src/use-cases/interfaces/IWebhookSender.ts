@@ -0,0 +1,18 @@
+/**
+ * A signed POST of one event to one endpoint
+ */
+export interface IWebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  event: string;
+  body: string; // JSON
+}
+
+/**
+ * Posts webhook events; resolves with the receiver's HTTP status and
+ * rejects when no response arrives (network error or timeout)
+ */
+export interface IWebhookSender {
+  send(request: IWebhookRequest): Promise<{ status: number }>;
+}
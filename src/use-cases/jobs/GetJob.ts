@@ -0,0 +1,20 @@
+import type { IJob, IJobRepository } from "../../domain/repositories/IJobRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { AdminAccessPolicy } from "../admin/AdminAccessPolicy.js";
+
+export class GetJob {
+  constructor(
+    private jobRepository: IJobRepository,
+    private adminPolicy: AdminAccessPolicy
+  ) {}
+
+  async execute(userEmail: string, jobId: string): Promise<IJob> {
+    this.adminPolicy.assertAdmin(userEmail);
+
+    const job = await this.jobRepository.findById(jobId);
+    if (!job) {
+      throw new NotFoundError("Job not found");
+    }
+    return job;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Background job types and the payload each one carries
+ */
+export const JobTypes = {
+  RECORDING_EXPIRE: "recording.expire", // { sessionId }
+  WEBHOOK_DELIVER: "webhook.deliver", // { deliveryId }
+  SESSION_SUMMARIZE: "session.summarize", // { sessionId }
+} as const;
@@ -0,0 +1,200 @@
+import type { IJob, IJobRepository } from "../../domain/repositories/IJobRepository.js";
+import type { IJobHandler } from "../interfaces/IJobHandler.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const STALE_LOCK_ERROR = "Worker stopped before finishing the job";
+
+export interface IJobWorkerOptions {
+  pollIntervalMs: number; // idle time between queue checks
+  lockTimeoutMs: number; // a running job locked longer than this is claimed again
+  retryBaseDelayMs: number; // delay after the first failure; doubles each attempt
+  retryMaxDelayMs: number;
+  completedRetentionMs: number; // completed jobs are deleted after this long
+}
+
+export const DEFAULT_JOB_WORKER_OPTIONS: IJobWorkerOptions = {
+  pollIntervalMs: 5_000,
+  lockTimeoutMs: 10 * 60 * 1000,
+  retryBaseDelayMs: 30_000,
+  retryMaxDelayMs: MS_PER_HOUR,
+  completedRetentionMs: 7 * 24 * MS_PER_HOUR,
+};
+
+/**
+ * Runs queued jobs one at a time with the handler registered for their
+ * type. Failed jobs are retried with exponential backoff and dead-lettered
+ * once out of attempts. Several workers (e.g. one per server instance) may
+ * share the queue.
+ */
+export class JobWorker {
+  private handlers = new Map<string, IJobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private lastCleanupAt = 0;
+
+  constructor(
+    private jobRepository: IJobRepository,
+    handlers: IJobHandler[],
+    private options: IJobWorkerOptions,
+    private logger: ILogger
+  ) {
+    for (const handler of handlers) {
+      this.handlers.set(handler.type, handler);
+    }
+  }
+
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.schedule(0);
+
+    this.logger.info("Job worker started", {
+      types: [...this.handlers.keys()],
+    });
+  }
+
+  /**
+   * Stop polling; a job already running still finishes
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run jobs until none is due. Returns how many ran.
+   */
+  async drain(): Promise<number> {
+    let ran = 0;
+    while (!this.stopped && (await this.runNext())) {
+      ran++;
+    }
+    return ran;
+  }
+
+  /**
+   * Claim and run the next due job; false when there is none
+   */
+  async runNext(now: Date = new Date()): Promise<boolean> {
+    const types = [...this.handlers.keys()];
+    const staleBefore = new Date(now.getTime() - this.options.lockTimeoutMs);
+
+    // A stale job that already used its last attempt is given up on
+    // rather than run again, like a job that failed on it
+    for (const stale of await this.jobRepository.deadLetterStale(
+      types,
+      staleBefore,
+      STALE_LOCK_ERROR
+    )) {
+      await this.deadLettered(stale, STALE_LOCK_ERROR);
+    }
+
+    const job = await this.jobRepository.claimNext(types, now, staleBefore);
+    if (!job) {
+      return false;
+    }
+
+    try {
+      await this.handlers.get(job.type)!.handle(job);
+      await this.jobRepository.complete(job.id);
+
+      this.logger.debug("Job completed", {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+      });
+    } catch (error) {
+      await this.fail(job, error instanceof Error ? error.message : String(error));
+    }
+
+    return true;
+  }
+
+  private async fail(job: IJob, message: string): Promise<void> {
+    if (job.attempts >= job.maxAttempts) {
+      await this.jobRepository.deadLetter(job.id, message);
+      await this.deadLettered(job, message);
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.options.retryBaseDelayMs * 2 ** (job.attempts - 1),
+      this.options.retryMaxDelayMs
+    );
+    await this.jobRepository.retry(job.id, new Date(Date.now() + delayMs), message);
+
+    this.logger.warn("Job failed, retrying", {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      retryInMs: delayMs,
+      error: message,
+    });
+  }
+
+  /**
+   * Let the job's handler settle what the job was working on
+   */
+  private async deadLettered(job: IJob, message: string): Promise<void> {
+    this.logger.error("Job failed permanently", {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      error: message,
+    });
+
+    try {
+      await this.handlers.get(job.type)?.onDeadLetter?.(job, message);
+    } catch (error) {
+      this.logger.error("Failed to handle dead-lettered job", {
+        jobId: job.id,
+        type: job.type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => void this.poll(), delayMs);
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.drain();
+      await this.cleanup();
+    } catch (error) {
+      this.logger.error("Job worker poll failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    this.schedule(this.options.pollIntervalMs);
+  }
+
+  /**
+   * Delete old completed jobs, at most once an hour; dead jobs stay
+   */
+  private async cleanup(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastCleanupAt < MS_PER_HOUR) {
+      return;
+    }
+    this.lastCleanupAt = now;
+
+    const deleted = await this.jobRepository.deleteCompletedBefore(
+      new Date(now - this.options.completedRetentionMs)
+    );
+    if (deleted > 0) {
+      this.logger.info("Completed jobs deleted", { count: deleted });
+    }
+  }
+}
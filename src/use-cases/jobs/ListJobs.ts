@@ -0,0 +1,43 @@
+import type {
+  IJob,
+  IJobRepository,
+  JobStatus,
+  JobStatusCounts,
+} from "../../domain/repositories/IJobRepository.js";
+import type { IPaginatedResult } from "../../domain/repositories/ITranscriptionRepository.js";
+import { AdminAccessPolicy } from "../admin/AdminAccessPolicy.js";
+
+export interface IListJobsInput {
+  userEmail: string;
+  status?: JobStatus;
+  type?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface IJobList extends IPaginatedResult<IJob> {
+  counts: JobStatusCounts; // whole queue, ignoring the filters
+}
+
+export class ListJobs {
+  constructor(
+    private jobRepository: IJobRepository,
+    private adminPolicy: AdminAccessPolicy
+  ) {}
+
+  async execute(input: IListJobsInput): Promise<IJobList> {
+    this.adminPolicy.assertAdmin(input.userEmail);
+
+    const [result, counts] = await Promise.all([
+      this.jobRepository.findMany({
+        status: input.status,
+        type: input.type,
+        limit: input.limit,
+        offset: input.offset,
+      }),
+      this.jobRepository.countByStatus(),
+    ]);
+
+    return { ...result, counts };
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  JobStatus,
+  type IJob,
+  type IJobRepository,
+} from "../../domain/repositories/IJobRepository.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { GetJob } from "./GetJob.js";
+import type { IJobHandler } from "../interfaces/IJobHandler.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class RetryJob {
+  private handlers = new Map<string, IJobHandler>();
+
+  constructor(
+    private getJob: GetJob,
+    private jobRepository: IJobRepository,
+    handlers: IJobHandler[],
+    private logger: ILogger
+  ) {
+    for (const handler of handlers) {
+      this.handlers.set(handler.type, handler);
+    }
+  }
+
+  /**
+   * Queue a dead-lettered job again, to run now with a fresh set of attempts
+   */
+  async execute(userEmail: string, jobId: string): Promise<IJob> {
+    const job = await this.getJob.execute(userEmail, jobId);
+    if (job.status !== JobStatus.DEAD) {
+      throw new ValidationError(
+        `Only dead jobs can be retried; this one is ${job.status}`
+      );
+    }
+
+    // The handler resets what it tracks (e.g. a webhook delivery) before
+    // the job can run again
+    await this.handlers.get(job.type)?.onRequeue?.(job);
+
+    const runAt = new Date();
+    await this.jobRepository.requeue(jobId, runAt);
+
+    this.logger.info("Job requeued", { jobId, type: job.type, userEmail });
+    return { ...job, status: JobStatus.PENDING, attempts: 0, runAt };
+  }
+}
@@ -0,0 +1,68 @@
+import type { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { IJobRepository, INewJob } from "../../domain/repositories/IJobRepository.js";
+import { RecordingRetentionPolicy } from "../recording/RecordingRetentionPolicy.js";
+import { JobTypes } from "./JobTypes.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+/**
+ * Queues the background work that follows a finished session, so stopping
+ * only waits for what the client needs
+ */
+export class ScheduleSessionJobs {
+  constructor(
+    private jobRepository: IJobRepository,
+    private retentionPolicy: RecordingRetentionPolicy,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Failures are logged, not thrown: the session itself is already saved
+   */
+  async execute(session: TranscriptionSession): Promise<void> {
+    const sessionId = session.id.toString();
+
+    try {
+      const jobs = await this.plan(session);
+      for (const job of jobs) {
+        await this.jobRepository.enqueue(job);
+      }
+
+      if (jobs.length > 0) {
+        this.logger.debug("Session jobs scheduled", {
+          sessionId,
+          types: jobs.map((job) => job.type),
+        });
+      }
+    } catch (error) {
+      this.logger.error("Failed to schedule session jobs", {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async plan(session: TranscriptionSession): Promise<INewJob[]> {
+    const sessionId = session.id.toString();
+    const jobs: INewJob[] = [];
+
+    if (session.isStopped()) {
+      jobs.push({ type: JobTypes.SESSION_SUMMARIZE, payload: { sessionId } });
+    }
+
+    if (session.recordingKey && session.endedAt) {
+      const expiresAt = await this.retentionPolicy.getExpiry(
+        session.organizationId,
+        session.endedAt
+      );
+      if (expiresAt) {
+        jobs.push({
+          type: JobTypes.RECORDING_EXPIRE,
+          payload: { sessionId },
+          runAt: expiresAt,
+        });
+      }
+    }
+
+    return jobs;
+  }
+}
@@ -0,0 +1,44 @@
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { IAudioStorage } from "../../domain/repositories/IAudioStorage.js";
+import type { IJob } from "../../domain/repositories/IJobRepository.js";
+import { RecordingRetentionPolicy } from "./RecordingRetentionPolicy.js";
+import { JobTypes } from "../jobs/JobTypes.js";
+import type { IJobHandler } from "../interfaces/IJobHandler.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+/**
+ * Deletes one session's recording when its retention period ends.
+ * Scheduled when the session stops; PurgeExpiredRecordings remains the
+ * sweep for recordings whose retention changed afterwards.
+ */
+export class ExpireRecording implements IJobHandler {
+  readonly type = JobTypes.RECORDING_EXPIRE;
+
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private retentionPolicy: RecordingRetentionPolicy,
+    private storage: IAudioStorage,
+    private logger: ILogger
+  ) {}
+
+  async handle(job: IJob): Promise<void> {
+    const sessionId = String(job.payload.sessionId);
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session?.recordingKey || !session.endedAt) {
+      return; // session or recording deleted meanwhile
+    }
+
+    const expiresAt = await this.retentionPolicy.getExpiry(
+      session.organizationId,
+      session.endedAt
+    );
+    if (!expiresAt || expiresAt.getTime() > Date.now()) {
+      return; // retention turned off or extended since the job was queued
+    }
+
+    await this.storage.delete(session.recordingKey);
+    await this.transcriptionRepository.clearRecording(sessionId);
+
+    this.logger.info("Recording expired", { sessionId });
+  }
+}
@@ -0,0 +1,51 @@
+import type { IAudioStorage, IByteRange } from "../../domain/repositories/IAudioStorage.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { GetTranscription } from "../transcription/GetTranscription.js";
+
+const CONTENT_TYPES: Record<string, string> = {
+  wav: "audio/wav",
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+};
+
+export interface IRecording {
+  fileName: string;
+  contentType: string;
+  size: number;
+  read(range?: IByteRange): AsyncIterable<Uint8Array>;
+}
+
+export class GetRecording {
+  constructor(
+    private getTranscription: GetTranscription,
+    private storage: IAudioStorage
+  ) {}
+
+  /**
+   * The recorded audio of a session the user can read; available once
+   * the session has finished
+   */
+  async execute(userId: string, sessionId: string): Promise<IRecording> {
+    const session = await this.getTranscription.execute(userId, sessionId);
+    const key = session.recordingKey;
+    if (!key) {
+      throw new NotFoundError("This session has no recording");
+    }
+    if (!session.isStopped() && !session.hasError()) {
+      throw new NotFoundError("The recording is available once the session has stopped");
+    }
+
+    const size = await this.storage.getSize(key);
+    if (size === null) {
+      throw new NotFoundError("This session has no recording");
+    }
+
+    const extension = key.slice(key.lastIndexOf(".") + 1);
+    return {
+      fileName: `transcription-${sessionId}.${extension}`,
+      contentType: CONTENT_TYPES[extension] ?? "application/octet-stream",
+      size,
+      read: (range) => this.storage.read(key, range),
+    };
+  }
+}
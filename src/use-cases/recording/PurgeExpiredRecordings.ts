@@ -0,0 +1,71 @@
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { IAudioStorage } from "../../domain/repositories/IAudioStorage.js";
+import { RecordingRetentionPolicy } from "./RecordingRetentionPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+export class PurgeExpiredRecordings {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private retentionPolicy: RecordingRetentionPolicy,
+    private storage: IAudioStorage,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Delete recordings of sessions that ended more than their retention
+   * period ago. Returns how many recordings were deleted.
+   */
+  async execute(now: Date = new Date()): Promise<number> {
+    let deleted = 0;
+
+    try {
+      const organizationIds =
+        await this.transcriptionRepository.findRecordingOrganizationIds();
+
+      for (const organizationId of organizationIds) {
+        const retentionDays =
+          await this.retentionPolicy.getRetentionDays(organizationId);
+        if (!retentionDays) {
+          continue;
+        }
+
+        const endedBefore = new Date(now.getTime() - retentionDays * MS_PER_DAY);
+        deleted += await this.purge(organizationId, endedBefore);
+      }
+    } catch (error) {
+      this.logger.error("Failed to purge expired recordings", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (deleted > 0) {
+      this.logger.info("Expired recordings deleted", { count: deleted });
+    }
+    return deleted;
+  }
+
+  private async purge(organizationId: string | null, endedBefore: Date): Promise<number> {
+    let deleted = 0;
+
+    for (;;) {
+      const recordings = await this.transcriptionRepository.findRecordingsEndedBefore(
+        organizationId,
+        endedBefore,
+        BATCH_SIZE
+      );
+
+      for (const recording of recordings) {
+        await this.storage.delete(recording.recordingKey);
+        await this.transcriptionRepository.clearRecording(recording.sessionId);
+        deleted++;
+      }
+
+      if (recordings.length < BATCH_SIZE) {
+        return deleted;
+      }
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import type { IOrganizationSettingsRepository } from "../../domain/repositories/IOrganizationSettingsRepository.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How long recordings are kept: the organization's "recordingRetentionDays"
+ * setting, else the default (null: forever)
+ */
+export class RecordingRetentionPolicy {
+  constructor(
+    private organizationSettingsRepository: IOrganizationSettingsRepository,
+    private defaultRetentionDays: number | null
+  ) {}
+
+  async getRetentionDays(organizationId: string | null): Promise<number | null> {
+    if (!organizationId) {
+      return this.defaultRetentionDays;
+    }
+
+    const settings =
+      await this.organizationSettingsRepository.findByOrganizationId(organizationId);
+    return settings.recordingRetentionDays ?? this.defaultRetentionDays;
+  }
+
+  /**
+   * When the recording of a session that ended at endedAt is due for
+   * deletion; null when it is kept
+   */
+  async getExpiry(organizationId: string | null, endedAt: Date): Promise<Date | null> {
+    const retentionDays = await this.getRetentionDays(organizationId);
+    return retentionDays ? new Date(endedAt.getTime() + retentionDays * MS_PER_DAY) : null;
+  }
+}
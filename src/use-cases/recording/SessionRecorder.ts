@@ -0,0 +1,142 @@
+import type { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IAudioStorage,
+  IAudioStorageWriter,
+} from "../../domain/repositories/IAudioStorage.js";
+import { buildWavHeader, WAV_HEADER_BYTES } from "./wavHeader.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+interface ActiveRecording {
+  session: TranscriptionSession;
+  writer: IAudioStorageWriter;
+  dataBytes: number;
+  writes: Promise<void>;
+  failed: boolean;
+}
+
+/**
+ * Writes the client's audio of sessions that opted into recording. Raw
+ * samples become a WAV file whose header is completed when the session
+ * stops; WebM/Ogg streams are stored as sent. A storage failure drops the
+ * recording but never the session.
+ * Note: One instance per socket, shared by its start, audio and stop use cases
+ */
+export class SessionRecorder {
+  private current: ActiveRecording | null = null;
+
+  constructor(
+    private storage: IAudioStorage,
+    private logger: ILogger
+  ) {}
+
+  async begin(session: TranscriptionSession): Promise<void> {
+    const key = session.recordingKey;
+    if (!key) {
+      return;
+    }
+
+    try {
+      const writer = await this.storage.createWriter(key);
+      if (!session.audioConfig.isCompressed()) {
+        // Placeholder until the data size is known
+        await writer.append(new Uint8Array(WAV_HEADER_BYTES));
+      }
+
+      this.current = {
+        session,
+        writer,
+        dataBytes: 0,
+        writes: Promise.resolve(),
+        failed: false,
+      };
+    } catch (error) {
+      session.recordingKey = null;
+      this.logger.error("Failed to start recording", {
+        sessionId: session.id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Queue a chunk of the client's audio, in the session's declared format
+   */
+  write(session: TranscriptionSession, audioData: Uint8Array): void {
+    const recording = this.current;
+    if (!recording || recording.session !== session || recording.failed) {
+      return;
+    }
+
+    recording.dataBytes += audioData.length;
+    recording.writes = recording.writes
+      .then(() => (recording.failed ? undefined : recording.writer.append(audioData)))
+      .catch((error) => {
+        recording.failed = true;
+        this.logger.error("Failed to write recording", {
+          sessionId: session.id.toString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  /**
+   * Discard the session's recording, e.g. when the session failed to start
+   */
+  async abort(session: TranscriptionSession): Promise<void> {
+    const recording = this.current;
+    if (!recording || recording.session !== session) {
+      return;
+    }
+    this.current = null;
+    session.recordingKey = null;
+
+    await recording.writes;
+    try {
+      await recording.writer.abort();
+    } catch (error) {
+      this.logger.error("Failed to discard recording", {
+        sessionId: session.id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Finish the session's recording; the session forgets a recording that
+   * could not be written completely
+   */
+  async end(session: TranscriptionSession): Promise<void> {
+    const recording = this.current;
+    if (!recording || recording.session !== session) {
+      return;
+    }
+    this.current = null;
+
+    await recording.writes;
+    try {
+      if (recording.failed) {
+        await recording.writer.abort();
+        session.recordingKey = null;
+        return;
+      }
+
+      await recording.writer.close(
+        session.audioConfig.isCompressed()
+          ? undefined
+          : buildWavHeader(session.audioConfig, recording.dataBytes)
+      );
+
+      this.logger.info("Recording saved", {
+        sessionId: session.id.toString(),
+        key: session.recordingKey,
+        bytes: recording.dataBytes,
+      });
+    } catch (error) {
+      session.recordingKey = null;
+      this.logger.error("Failed to finish recording", {
+        sessionId: session.id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { AudioConfig, type AudioEncoding } from "../../domain/value-objects/AudioConfig.js";
+
+export const WAV_HEADER_BYTES = 44;
+
+// WAVE fmt chunk format tags
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_MULAW = 7;
+
+/**
+ * Canonical 44-byte RIFF/WAVE header for raw samples in the given format.
+ * Sizes saturate at 4 GiB, the most a RIFF file can declare.
+ */
+export function buildWavHeader(audioConfig: AudioConfig, dataBytes: number): Uint8Array {
+  if (audioConfig.isCompressed()) {
+    throw new Error(`${audioConfig.format} audio cannot be stored as WAV`);
+  }
+
+  const header = Buffer.alloc(WAV_HEADER_BYTES);
+  const formatTag =
+    audioConfig.format === "pcm_f32le"
+      ? WAVE_FORMAT_IEEE_FLOAT
+      : audioConfig.format === "mulaw"
+        ? WAVE_FORMAT_MULAW
+        : WAVE_FORMAT_PCM;
+  const blockAlign = audioConfig.getBytesPerFrame();
+  const dataSize = Math.min(dataBytes, 0xffffffff - (WAV_HEADER_BYTES - 8));
+
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(dataSize + WAV_HEADER_BYTES - 8, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(formatTag, 20);
+  header.writeUInt16LE(audioConfig.channels, 22);
+  header.writeUInt32LE(audioConfig.sampleRate, 24);
+  header.writeUInt32LE(audioConfig.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(audioConfig.bitDepth, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataSize, 40);
+
+  return header;
+}
+
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Audio found in a WAV file
+ */
+export interface IWavFile {
+  audioConfig: AudioConfig;
+  data: Uint8Array;
+}
+
+/**
+ * Locate the samples of a WAV file and describe their format. Streamed
+ * files that never patched their data size are read to the end.
+ */
+export function parseWavFile(file: Uint8Array): IWavFile {
+  const bytes = Buffer.from(file.buffer, file.byteOffset, file.byteLength);
+  if (
+    bytes.length < 12 ||
+    bytes.toString("ascii", 0, 4) !== "RIFF" ||
+    bytes.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: { tag: number; channels: number; sampleRate: number; bitDepth: number } | null =
+    null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const chunkId = bytes.toString("ascii", offset, offset + 4);
+    const chunkSize = bytes.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === "fmt " && body + 16 <= bytes.length) {
+      let tag = bytes.readUInt16LE(body);
+      if (tag === WAVE_FORMAT_EXTENSIBLE && body + 26 <= bytes.length) {
+        tag = bytes.readUInt16LE(body + 24); // first bytes of the sub-format GUID
+      }
+      format = {
+        tag,
+        channels: bytes.readUInt16LE(body + 2),
+        sampleRate: bytes.readUInt32LE(body + 4),
+        bitDepth: bytes.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === "data") {
+      if (!format) {
+        throw new Error("WAV data chunk precedes its fmt chunk");
+      }
+      const end =
+        chunkSize === 0 || chunkSize === 0xffffffff
+          ? bytes.length
+          : Math.min(body + chunkSize, bytes.length);
+      return {
+        audioConfig: new AudioConfig({
+          sampleRate: format.sampleRate,
+          channels: format.channels,
+          bitDepth: format.bitDepth,
+          format: toEncoding(format.tag, format.bitDepth),
+        }),
+        data: file.subarray(body, end),
+      };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2); // chunks are word-aligned
+  }
+
+  throw new Error("WAV file has no data chunk");
+}
+
+function toEncoding(tag: number, bitDepth: number): AudioEncoding {
+  if (tag === WAVE_FORMAT_PCM && bitDepth === 16) {
+    return "pcm_s16le";
+  }
+  if (tag === WAVE_FORMAT_IEEE_FLOAT && bitDepth === 32) {
+    return "pcm_f32le";
+  }
+  if (tag === WAVE_FORMAT_MULAW && bitDepth === 8) {
+    return "mulaw";
+  }
+  throw new Error(
+    `Unsupported WAV encoding (format ${tag}, ${bitDepth}-bit). Use 16-bit PCM, 32-bit float or 8-bit mu-law`
+  );
+}
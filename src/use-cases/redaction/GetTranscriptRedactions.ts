@@ -0,0 +1,58 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IStoredRedaction,
+  ITranscriptionRepository,
+} from "../../domain/repositories/ITranscriptionRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { TranscriptionAccessPolicy } from "../transcription/TranscriptionAccessPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export interface ITranscriptRedactionsResult {
+  session: TranscriptionSession;
+  redactions: IStoredRedaction[];
+  /** Null unless the organization keeps unredacted transcripts */
+  unredactedText: string | null;
+}
+
+export class GetTranscriptRedactions {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * What was redacted from a session's transcript, and the unredacted
+   * text when it was kept; organization admins only
+   */
+  async execute(userId: string, sessionId: string): Promise<ITranscriptRedactionsResult> {
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Transcription session not found");
+    }
+
+    const access = await this.accessPolicy.resolve(userId);
+    if (!this.accessPolicy.canView(session, access)) {
+      throw new NotFoundError("Transcription session not found");
+    }
+    if (!this.accessPolicy.canViewRedactions(session, access)) {
+      throw new ForbiddenError("Only an organization admin can view redactions");
+    }
+
+    const redactions = await this.transcriptionRepository.findRedactions(sessionId);
+    const unredactedText = redactions.some((redaction) => redaction.original_text !== null)
+      ? session.getUnredactedText(redactions)
+      : null;
+
+    // Access to unredacted text is audited too
+    this.logger.info("Transcript redactions viewed", {
+      sessionId,
+      userId,
+      count: redactions.length,
+      unredacted: unredactedText !== null,
+    });
+
+    return { session, redactions, unredactedText };
+  }
+}
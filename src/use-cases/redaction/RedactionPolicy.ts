@@ -0,0 +1,27 @@
+import type { ISessionOwner } from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IOrganizationSettingsRepository,
+  IRedactionSettings,
+} from "../../domain/repositories/IOrganizationSettingsRepository.js";
+
+/**
+ * Decides what is redacted from a session's transcript: the organization's
+ * "redaction" setting applies to every member's session; personal sessions
+ * are kept as spoken
+ */
+export class RedactionPolicy {
+  constructor(
+    private organizationSettingsRepository: IOrganizationSettingsRepository
+  ) {}
+
+  async resolve(owner: ISessionOwner): Promise<IRedactionSettings | null> {
+    if (!owner.organizationId) {
+      return null;
+    }
+
+    const settings = await this.organizationSettingsRepository.findByOrganizationId(
+      owner.organizationId
+    );
+    return settings.redaction ?? null;
+  }
+}
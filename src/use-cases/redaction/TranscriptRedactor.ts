@@ -0,0 +1,214 @@
+import type { RedactionEntity } from "../../domain/entities/TranscriptionSession.js";
+import type { IRedactionSettings } from "../../domain/repositories/IOrganizationSettingsRepository.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+
+type Token = ITranscriptionResult["tokens"][number];
+
+/**
+ * A token of the redacted output that replaced sensitive text
+ */
+export interface IRedactedToken {
+  index: number; // position in the redacted tokens
+  entity: RedactionEntity;
+  original_text: string | null; // text of the tokens it replaced, when kept
+}
+
+export interface IRedactionResult {
+  tokens: Token[];
+  redactions: IRedactedToken[];
+}
+
+export interface IRedactedStreamResult {
+  result: ITranscriptionResult;
+  redactions: IRedactedToken[]; // positions in result.tokens
+}
+
+interface IMatch {
+  entity: RedactionEntity;
+  start: number; // character offsets in the joined token text
+  end: number;
+}
+
+// In order of precedence: a card number is not also reported as a phone number
+const PATTERNS: Array<[RedactionEntity, RegExp]> = [
+  ["email", /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu],
+  ["card_number", /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g],
+  // US social security and UK national insurance numbers
+  ["national_id", /(?<!\d)\d{3}[- ]\d{2}[- ]\d{4}(?!\d)|\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi],
+  ["phone_number", /(?<![\w+])\+?\(?\d[\d ().-]{5,}\d(?!\d)/g],
+  [
+    "profanity",
+    /\b(?:(?:mother)?fuck\w*|shit\w*|bullshit\w*|bitch\w*|bastards?|assholes?|cunts?|dickheads?|piss(?:ed)?|wankers?)\b/gi,
+  ],
+];
+
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+// Finals held for an utterance that does not end are released past this
+const MAX_PENDING_TOKENS = 200;
+
+/**
+ * Hides the entity types an organization chose in transcript tokens,
+ * either masking them ("***-***-****") or tagging them ("[PHONE_NUMBER]").
+ * Patterns run over joined token text, so an entity spread over several
+ * tokens is found and replaced by a single token. One instance redacts
+ * one stream.
+ */
+export class TranscriptRedactor {
+  private patterns: Array<[RedactionEntity, RegExp]>;
+  // Final tokens of the utterance in progress
+  private pending: Token[] = [];
+
+  constructor(private settings: IRedactionSettings | null) {
+    this.patterns = PATTERNS.filter(([entity]) =>
+      settings?.entities.includes(entity)
+    );
+  }
+
+  /**
+   * Redact the next result of the stream. Final tokens are held until
+   * their utterance ends, so an entity the provider finalizes over several
+   * results is still found whole; meanwhile they are sent as partials
+   * ahead of the partial tokens.
+   */
+  redactResult(result: ITranscriptionResult): IRedactedStreamResult {
+    if (this.patterns.length === 0) {
+      return { result, redactions: [] };
+    }
+
+    if (!result.is_final) {
+      const { tokens } = this.redact([...this.pending, ...result.tokens]);
+      return { result: { ...result, tokens }, redactions: [] };
+    }
+
+    // Tokens keep their speaker once the result they came with is gone
+    this.pending.push(
+      ...result.tokens.map((token) => ({ ...token, speaker: token.speaker ?? result.speaker }))
+    );
+    if (!result.utterance_end && this.pending.length < MAX_PENDING_TOKENS) {
+      const { tokens } = this.redact(this.pending);
+      return { result: { ...result, tokens, is_final: false }, redactions: [] };
+    }
+
+    const { tokens, redactions } = this.redact(this.pending);
+    this.pending = [];
+    return {
+      result: { ...result, tokens, speaker: tokens[0]?.speaker ?? result.speaker },
+      redactions,
+    };
+  }
+
+  redact(tokens: Token[]): IRedactionResult {
+    const text = tokens.map((token) => token.text).join("");
+    const matches = this.patterns.length > 0 ? this.findMatches(text) : [];
+    if (matches.length === 0) {
+      return { tokens, redactions: [] };
+    }
+
+    const starts: number[] = [];
+    let offset = 0;
+    for (const token of tokens) {
+      starts.push(offset);
+      offset += token.text.length;
+    }
+
+    const redacted: Token[] = [];
+    const redactions: IRedactedToken[] = [];
+    let i = 0;
+
+    for (const match of matches) {
+      while (i < tokens.length && starts[i]! + tokens[i]!.text.length <= match.start) {
+        redacted.push(tokens[i]!);
+        i++;
+      }
+      // Starts inside a token already replaced by the previous match
+      if (i >= tokens.length || starts[i]! > match.start) {
+        continue;
+      }
+
+      let j = i;
+      while (j + 1 < tokens.length && starts[j + 1]! < match.end) {
+        j++;
+      }
+
+      // Text around the entity in its first and last token is kept
+      const matched = tokens.slice(i, j + 1);
+      const original = matched.map((token) => token.text).join("");
+      const before = original.slice(0, match.start - starts[i]!);
+      const after = original.slice(match.end - starts[i]!);
+
+      redactions.push({
+        index: redacted.length,
+        entity: match.entity,
+        original_text: this.settings?.keepOriginal ? original : null,
+      });
+      redacted.push({
+        ...matched[0]!,
+        text: before + this.replace(match.entity, text.slice(match.start, match.end)) + after,
+        confidence: Math.min(...matched.map((token) => token.confidence)),
+        end_ms: matched[matched.length - 1]!.end_ms,
+        redacted: match.entity,
+      });
+      i = j + 1;
+    }
+
+    redacted.push(...tokens.slice(i));
+    return { tokens: redacted, redactions };
+  }
+
+  private findMatches(text: string): IMatch[] {
+    const matches: IMatch[] = [];
+
+    for (const [entity, pattern] of this.patterns) {
+      for (const found of text.matchAll(pattern)) {
+        const start = found.index;
+        const end = start + found[0].length;
+        if (!this.isEntity(entity, found[0])) {
+          continue;
+        }
+        if (matches.some((match) => start < match.end && end > match.start)) {
+          continue;
+        }
+        matches.push({ entity, start, end });
+      }
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  private isEntity(entity: RedactionEntity, value: string): boolean {
+    const digits = value.replace(/\D/g, "");
+    switch (entity) {
+      case "card_number":
+        return passesLuhn(digits);
+      case "phone_number":
+        return digits.length >= MIN_PHONE_DIGITS && digits.length <= MAX_PHONE_DIGITS;
+      default:
+        return true;
+    }
+  }
+
+  private replace(entity: RedactionEntity, value: string): string {
+    return this.settings?.mode === "tag"
+      ? `[${entity.toUpperCase()}]`
+      : value.replace(/[\p{L}\p{N}]/gu, "*");
+  }
+}
+
+/**
+ * Card number checksum; rules out most digit runs that are not cards
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
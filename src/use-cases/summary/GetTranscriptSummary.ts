@@ -0,0 +1,36 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type {
+  ISummaryRepository,
+  ITranscriptSummary,
+} from "../../domain/repositories/ISummaryRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { GetTranscription } from "../transcription/GetTranscription.js";
+
+export interface ITranscriptSummaryResult {
+  session: TranscriptionSession;
+  summary: ITranscriptSummary;
+}
+
+export class GetTranscriptSummary {
+  constructor(
+    private getTranscription: GetTranscription,
+    private summaryRepository: ISummaryRepository
+  ) {}
+
+  /**
+   * Return the session's stored summary
+   */
+  async execute(userId: string, sessionId: string): Promise<ITranscriptSummaryResult> {
+    const session = await this.getTranscription.execute(userId, sessionId);
+    if (!session.isStopped()) {
+      throw new NotFoundError("Summary is available once the session has stopped");
+    }
+
+    const summary = await this.summaryRepository.findBySessionId(sessionId);
+    if (!summary) {
+      throw new NotFoundError("Summary has not been generated yet");
+    }
+
+    return { session, summary };
+  }
+}
@@ -0,0 +1,42 @@
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { TranscriptionAccessPolicy } from "../transcription/TranscriptionAccessPolicy.js";
+import type { ITranscriptSummaryResult } from "./GetTranscriptSummary.js";
+import { SummarizeSession } from "./SummarizeSession.js";
+
+export class RegenerateTranscriptSummary {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private summarizeSession: SummarizeSession
+  ) {}
+
+  /**
+   * Replace the session's summary with a freshly generated one, or
+   * generate it when the summary job has not stored one yet. Viewers may
+   * read the summary, but only those who manage the session regenerate it.
+   */
+  async execute(userId: string, sessionId: string): Promise<ITranscriptSummaryResult> {
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Transcription session not found");
+    }
+
+    const access = await this.accessPolicy.resolve(userId);
+    if (!this.accessPolicy.canView(session, access)) {
+      throw new NotFoundError("Transcription session not found");
+    }
+    if (!this.accessPolicy.canManage(session, access)) {
+      throw new ForbiddenError(
+        "Only the session owner or an organization admin can regenerate its summary"
+      );
+    }
+
+    if (!session.isStopped()) {
+      throw new NotFoundError("Summary is available once the session has stopped");
+    }
+
+    return { session, summary: await this.summarizeSession.execute(session) };
+  }
+}
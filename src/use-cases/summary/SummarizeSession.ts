@@ -0,0 +1,61 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { ISummarizationProvider } from "../../domain/repositories/ISummarizationProvider.js";
+import type {
+  ISummaryRepository,
+  ITranscriptSummary,
+} from "../../domain/repositories/ISummaryRepository.js";
+import type { IJob } from "../../domain/repositories/IJobRepository.js";
+import { JobTypes } from "../jobs/JobTypes.js";
+import type { IJobHandler } from "../interfaces/IJobHandler.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+/**
+ * Generates and stores the summary, action items and decisions of a
+ * stopped session. Runs as a job queued when the session stops, and on
+ * demand when a summary is regenerated.
+ */
+export class SummarizeSession implements IJobHandler {
+  readonly type = JobTypes.SESSION_SUMMARIZE;
+
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private summaryRepository: ISummaryRepository,
+    private summarizationProvider: ISummarizationProvider,
+    private logger: ILogger
+  ) {}
+
+  async handle(job: IJob): Promise<void> {
+    const session = await this.transcriptionRepository.findById(
+      String(job.payload.sessionId)
+    );
+    if (!session?.isStopped()) {
+      return; // session deleted meanwhile
+    }
+
+    await this.execute(session);
+  }
+
+  async execute(session: TranscriptionSession): Promise<ITranscriptSummary> {
+    const content = await this.summarizationProvider.summarize(
+      session.getSpeakerTurns()
+    );
+    const summary: ITranscriptSummary = {
+      sessionId: session.id.toString(),
+      ...content,
+      provider: this.summarizationProvider.name,
+      generatedAt: new Date(),
+    };
+
+    await this.summaryRepository.save(summary);
+
+    this.logger.info("Transcript summarized", {
+      sessionId: summary.sessionId,
+      provider: summary.provider,
+      actionItems: summary.actionItems.length,
+      decisions: summary.decisions.length,
+    });
+
+    return summary;
+  }
+}
@@ -0,0 +1,45 @@
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { IAudioStorage } from "../../domain/repositories/IAudioStorage.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { TranscriptionAccessPolicy } from "./TranscriptionAccessPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class DeleteTranscription {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private audioStorage: IAudioStorage,
+    private logger: ILogger
+  ) {}
+
+  async execute(userId: string, sessionId: string): Promise<void> {
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Transcription session not found");
+    }
+
+    const access = await this.accessPolicy.resolve(userId);
+    if (!this.accessPolicy.canView(session, access)) {
+      throw new NotFoundError("Transcription session not found");
+    }
+    if (!this.accessPolicy.canManage(session, access)) {
+      throw new ForbiddenError(
+        "Only the session owner or an organization admin can delete it"
+      );
+    }
+    if (!session.isStopped() && !session.hasError()) {
+      throw new ValidationError(
+        `Cannot delete a session in ${session.status} status. Stop it first.`
+      );
+    }
+
+    await this.transcriptionRepository.delete(sessionId);
+    if (session.recordingKey) {
+      await this.audioStorage.delete(session.recordingKey);
+    }
+
+    this.logger.info("Transcription deleted", { sessionId, userId });
+  }
+}
@@ -0,0 +1,26 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { TranscriptionAccessPolicy } from "./TranscriptionAccessPolicy.js";
+
+export class GetTranscription {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy
+  ) {}
+
+  async execute(userId: string, sessionId: string): Promise<TranscriptionSession> {
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Transcription session not found");
+    }
+
+    // Sessions outside the user's scope are reported as missing
+    const access = await this.accessPolicy.resolve(userId);
+    if (!this.accessPolicy.canView(session, access)) {
+      throw new NotFoundError("Transcription session not found");
+    }
+
+    return session;
+  }
+}
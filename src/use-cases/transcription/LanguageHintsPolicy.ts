@@ -0,0 +1,38 @@
+import type { ISessionOwner } from "../../domain/entities/TranscriptionSession.js";
+import type { IUserSettingsRepository } from "../../domain/repositories/IUserSettingsRepository.js";
+import type { IOrganizationSettingsRepository } from "../../domain/repositories/IOrganizationSettingsRepository.js";
+
+/**
+ * Languages a session's provider should expect: the ones the client asked
+ * for, else the user's default ("languageHints" user field), else the
+ * organization's ("languageHints" setting), else the server default.
+ * Providers still detect and report the language actually spoken.
+ */
+export class LanguageHintsPolicy {
+  constructor(
+    private userSettingsRepository: IUserSettingsRepository,
+    private organizationSettingsRepository: IOrganizationSettingsRepository,
+    private defaultHints: string[]
+  ) {}
+
+  async resolve(owner: ISessionOwner, requested: string[] = []): Promise<string[]> {
+    if (requested.length > 0) {
+      return requested;
+    }
+
+    const userSettings = await this.userSettingsRepository.findByUserId(owner.userId);
+    if (userSettings.languageHints) {
+      return userSettings.languageHints;
+    }
+
+    if (owner.organizationId) {
+      const organizationSettings =
+        await this.organizationSettingsRepository.findByOrganizationId(owner.organizationId);
+      if (organizationSettings.languageHints) {
+        return organizationSettings.languageHints;
+      }
+    }
+
+    return this.defaultHints;
+  }
+}
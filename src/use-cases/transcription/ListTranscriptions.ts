@@ -0,0 +1,58 @@
+import { SessionStatus } from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IPaginatedResult,
+  ITranscriptionListItem,
+  ITranscriptionRepository,
+} from "../../domain/repositories/ITranscriptionRepository.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { TranscriptionAccessPolicy } from "./TranscriptionAccessPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export interface IListTranscriptionsInput {
+  userId: string;
+  status?: SessionStatus;
+  organizationId?: string;
+  startedFrom?: Date;
+  startedTo?: Date;
+  limit: number;
+  offset: number;
+}
+
+export class ListTranscriptions {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  async execute(
+    input: IListTranscriptionsInput
+  ): Promise<IPaginatedResult<ITranscriptionListItem>> {
+    const access = await this.accessPolicy.resolve(input.userId);
+
+    if (
+      input.organizationId &&
+      !access.organizationIds.includes(input.organizationId)
+    ) {
+      throw new ForbiddenError("You are not a member of this organization");
+    }
+
+    const result = await this.transcriptionRepository.findMany({
+      scope: access,
+      status: input.status,
+      organizationId: input.organizationId,
+      startedFrom: input.startedFrom,
+      startedTo: input.startedTo,
+      limit: input.limit,
+      offset: input.offset,
+    });
+
+    this.logger.debug("Transcriptions listed", {
+      userId: input.userId,
+      count: result.items.length,
+      total: result.total,
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,36 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { ITranscriptionProvider } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class PauseTranscription {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private transcriptionProvider: ITranscriptionProvider,
+    private logger: ILogger
+  ) {}
+
+  async execute(session: TranscriptionSession): Promise<TranscriptionSession> {
+    try {
+      session.pause();
+
+      // Keep the provider connection open while no audio is flowing
+      this.transcriptionProvider.pause();
+
+      await this.transcriptionRepository.update(session);
+
+      this.logger.info("Transcription paused", {
+        sessionId: session.id.toString(),
+      });
+
+      return session;
+    } catch (error) {
+      this.logger.error("Failed to pause transcription", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(
+        `Failed to pause transcription: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
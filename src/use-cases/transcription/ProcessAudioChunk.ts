@@ -1,17 +1,31 @@
 import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
-import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
 import type { ITranscriptionProvider } from "../../domain/repositories/ITranscriptionProvider.js";
+import type {
+  AudioConverterFactory,
+  IAudioConverter,
+} from "../../domain/repositories/IAudioConverter.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { QuotaExceededError } from "../../domain/errors/QuotaExceededError.js";
+import { UsageMeter } from "../usage/UsageMeter.js";
+import { SessionRecorder } from "../recording/SessionRecorder.js";
+import { resolveStreamAudioConfig } from "./resolveStreamAudioConfig.js";
 import type { ILogger } from "../interfaces/ILogger.js";
 
 export class ProcessAudioChunk {
+  // Converter for the current session's stream (stateful across chunks)
+  private converter: { sessionId: string; instance: IAudioConverter } | null =
+    null;
+
   constructor(
-    private transcriptionRepository: ITranscriptionRepository,
     private transcriptionProvider: ITranscriptionProvider,
+    private createConverter: AudioConverterFactory,
+    private usageMeter: UsageMeter,
+    private sessionRecorder: SessionRecorder,
     private logger: ILogger
   ) {}
 
   async execute(
-    socketId: string,
+    session: TranscriptionSession | null,
     audioData: Uint8Array
   ): Promise<void> {
     try {
@@ -20,8 +34,6 @@ export class ProcessAudioChunk {
         throw new Error("Audio chunk is empty or invalid");
       }
 
-      // Get current session
-      const session = await this.transcriptionRepository.findBySocketId(socketId);
       if (!session) {
         throw new Error(
           "Transcription session not found. Call start_transcription first."
@@ -35,18 +47,51 @@ export class ProcessAudioChunk {
         );
       }
 
+      // Convert from the client's declared format to the provider's
+      // (containers the provider decodes natively pass through); chunks
+      // the converter rejects are neither metered nor recorded
+      const converted = this.getConverter(session).convert(audioData);
+
+      // Meter the chunk; rejected once the monthly quota is used up
+      this.usageMeter.record(session, audioData.length);
+
+      // Recordings keep the audio exactly as the client sent it
+      this.sessionRecorder.write(session, audioData);
+
       // Send to provider
-      this.transcriptionProvider.sendAudio(audioData);
+      if (converted.length > 0) {
+        this.transcriptionProvider.sendAudio(converted);
+      }
 
       this.logger.debug("Audio chunk processed", {
         sessionId: session.id.toString(),
         size: audioData.length,
+        convertedSize: converted.length,
       });
     } catch (error) {
+      // Bad client audio and quota errors are reported back as-is through the ack
+      if (error instanceof ValidationError || error instanceof QuotaExceededError) {
+        throw error;
+      }
+
       this.logger.error("Failed to process audio chunk", error);
       throw new Error(
         `Failed to process audio chunk: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
+
+  private getConverter(session: TranscriptionSession): IAudioConverter {
+    const sessionId = session.id.toString();
+    if (this.converter?.sessionId !== sessionId) {
+      this.converter = {
+        sessionId,
+        instance: this.createConverter(
+          session.audioConfig,
+          resolveStreamAudioConfig(this.transcriptionProvider, session.audioConfig)
+        ),
+      };
+    }
+    return this.converter.instance;
+  }
 }
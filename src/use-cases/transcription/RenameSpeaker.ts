@@ -0,0 +1,85 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { TranscriptionAccessPolicy } from "./TranscriptionAccessPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+const MAX_SPEAKER_ID_LENGTH = 32;
+const MAX_SPEAKER_NAME_LENGTH = 100;
+
+export class RenameSpeaker {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Name a diarized speaker of a session; an empty or null name restores
+   * the default "Speaker N" label
+   */
+  async execute(
+    userId: string,
+    sessionId: string,
+    speakerId: unknown,
+    name: unknown
+  ): Promise<TranscriptionSession> {
+    const id = this.parseSpeakerId(speakerId);
+    const displayName = this.parseName(name);
+
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Transcription session not found");
+    }
+
+    const access = await this.accessPolicy.resolve(userId);
+    if (!this.accessPolicy.canView(session, access)) {
+      throw new NotFoundError("Transcription session not found");
+    }
+    if (!this.accessPolicy.canManage(session, access)) {
+      throw new ForbiddenError(
+        "Only the session owner or an organization admin can rename speakers"
+      );
+    }
+
+    await this.transcriptionRepository.saveSpeakerName(sessionId, id, displayName);
+    session.renameSpeaker(id, displayName);
+
+    this.logger.info("Speaker renamed", { sessionId, userId, speakerId: id });
+
+    return session;
+  }
+
+  private parseSpeakerId(value: unknown): string {
+    const id = typeof value === "number" ? String(value) : value;
+    if (
+      typeof id !== "string" ||
+      id.trim() === "" ||
+      id.length > MAX_SPEAKER_ID_LENGTH
+    ) {
+      throw new ValidationError(
+        `speakerId must be a non-empty string of at most ${MAX_SPEAKER_ID_LENGTH} characters`
+      );
+    }
+    return id.trim();
+  }
+
+  private parseName(value: unknown): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value !== "string") {
+      throw new ValidationError("name must be a string or null");
+    }
+
+    const name = value.trim().replace(/\s+/g, " ");
+    if (name.length > MAX_SPEAKER_NAME_LENGTH) {
+      throw new ValidationError(
+        `name must be at most ${MAX_SPEAKER_NAME_LENGTH} characters`
+      );
+    }
+    return name === "" ? null : name;
+  }
+}
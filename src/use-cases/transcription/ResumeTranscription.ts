@@ -0,0 +1,38 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { ITranscriptionProvider } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class ResumeTranscription {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private transcriptionProvider: ITranscriptionProvider,
+    private logger: ILogger
+  ) {}
+
+  async execute(session: TranscriptionSession): Promise<TranscriptionSession> {
+    try {
+      if (!this.transcriptionProvider.isConnected()) {
+        throw new Error("Transcription provider connection was lost");
+      }
+
+      session.resume();
+      this.transcriptionProvider.resume();
+
+      await this.transcriptionRepository.update(session);
+
+      this.logger.info("Transcription resumed", {
+        sessionId: session.id.toString(),
+      });
+
+      return session;
+    } catch (error) {
+      this.logger.error("Failed to resume transcription", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(
+        `Failed to resume transcription: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  groupTokenWords,
+  joinTokenText,
+} from "../../domain/entities/TranscriptionSession.js";
+import type {
+  IPaginatedResult,
+  ITranscriptionListItem,
+  ITranscriptionRepository,
+} from "../../domain/repositories/ITranscriptionRepository.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { TranscriptionAccessPolicy } from "./TranscriptionAccessPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_MATCHES_PER_SESSION = 50;
+
+export interface ISearchTranscriptionsInput {
+  userId: string;
+  query: string;
+  organizationId?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A final token that matched a search term, so clients can seek to it
+ */
+export interface ITranscriptMatch {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+  speaker?: string;
+}
+
+export interface ITranscriptSearchResult extends ITranscriptionListItem {
+  snippet: string;
+  matches: ITranscriptMatch[];
+}
+
+export class SearchTranscriptions {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  async execute(
+    input: ISearchTranscriptionsInput
+  ): Promise<IPaginatedResult<ITranscriptSearchResult>> {
+    const query = input.query.trim();
+    if (query === "") {
+      throw new ValidationError("q is required");
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new ValidationError(`q must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    const access = await this.accessPolicy.resolve(input.userId);
+    if (
+      input.organizationId &&
+      !access.organizationIds.includes(input.organizationId)
+    ) {
+      throw new ForbiddenError("You are not a member of this organization");
+    }
+
+    const result = await this.transcriptionRepository.search({
+      scope: access,
+      text: query,
+      organizationId: input.organizationId,
+      limit: input.limit,
+      offset: input.offset,
+    });
+
+    // Only the tokens of matching words are loaded, not whole transcripts
+    const matches = await this.transcriptionRepository.findMatchingWords(
+      result.items.map((hit) => hit.session.id.toString()),
+      [...this.parseTerms(query)],
+      MAX_MATCHES_PER_SESSION
+    );
+    const items = result.items.map((hit) => ({
+      ...hit,
+      matches: groupTokenWords(matches.get(hit.session.id.toString()) ?? []).map(
+        (word) => ({
+          text: joinTokenText(word),
+          start_ms: word[0]!.start_ms,
+          end_ms: word[word.length - 1]!.end_ms,
+          speaker: word[0]!.speaker,
+        })
+      ),
+    }));
+
+    this.logger.debug("Transcriptions searched", {
+      userId: input.userId,
+      count: items.length,
+      total: result.total,
+    });
+
+    return { items, total: result.total };
+  }
+
+  /**
+   * Words the search looks for; excluded (-word) terms and the "or"
+   * operator are left out
+   */
+  private parseTerms(query: string): Set<string> {
+    const terms = new Set<string>();
+    for (const part of query.match(/-?"[^"]*"?|\S+/g) ?? []) {
+      if (part.startsWith("-")) {
+        continue;
+      }
+      for (const word of toWords(part)) {
+        if (word !== "or") {
+          terms.add(word);
+        }
+      }
+    }
+    return terms;
+  }
+}
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word !== "");
+}
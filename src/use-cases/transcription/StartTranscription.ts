@@ -1,49 +1,234 @@
-import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import {
+  TranscriptionSession,
+  type ISessionOptions,
+  type ISessionOwner,
+  type ITranscriptSegment,
+} from "../../domain/entities/TranscriptionSession.js";
 import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
-import type { ITranscriptionProvider } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { IVocabularyRepository } from "../../domain/repositories/IVocabularyRepository.js";
+import type {
+  ITranscriptionConnectionEvent,
+  ITranscriptionProvider,
+  ITranscriptionResult,
+} from "../../domain/repositories/ITranscriptionProvider.js";
+import {
+  TranslateTranscript,
+  type ITranslationUpdate,
+} from "../translation/TranslateTranscript.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { QuotaExceededError } from "../../domain/errors/QuotaExceededError.js";
+import { UsageMeter } from "../usage/UsageMeter.js";
+import { SessionRecorder } from "../recording/SessionRecorder.js";
+import { TranscriptWriter } from "./TranscriptWriter.js";
+import { VocabularyCorrector } from "../vocabulary/VocabularyCorrector.js";
+import { LanguageHintsPolicy } from "./LanguageHintsPolicy.js";
+import { RedactionPolicy } from "../redaction/RedactionPolicy.js";
+import { TranscriptRedactor } from "../redaction/TranscriptRedactor.js";
+import { PublishSessionEvent } from "../webhooks/PublishSessionEvent.js";
+import { WebhookEvents } from "../webhooks/WebhookEvents.js";
+import { resolveStreamAudioConfig } from "./resolveStreamAudioConfig.js";
 import type { ILogger } from "../interfaces/ILogger.js";
 
+export interface ITranscriptionCallbacks {
+  onResult: (result: ITranscriptionResult) => void;
+  onTranslation: (update: ITranslationUpdate) => void;
+  onUtteranceEnd?: (segment: ITranscriptSegment) => void;
+  onConnectionEvent?: (event: ITranscriptionConnectionEvent) => void;
+}
+
 export class StartTranscription {
   constructor(
     private transcriptionRepository: ITranscriptionRepository,
+    private vocabularyRepository: IVocabularyRepository,
+    private languageHintsPolicy: LanguageHintsPolicy,
+    private redactionPolicy: RedactionPolicy,
     private transcriptionProvider: ITranscriptionProvider,
+    private translateTranscript: TranslateTranscript,
+    private usageMeter: UsageMeter,
+    private sessionRecorder: SessionRecorder,
+    private transcriptWriter: TranscriptWriter,
+    private publishSessionEvent: PublishSessionEvent,
     private logger: ILogger
   ) {}
 
-  async execute(socketId: string): Promise<TranscriptionSession> {
+  async execute(
+    socketId: string,
+    owner: ISessionOwner,
+    options: ISessionOptions,
+    callbacks: ITranscriptionCallbacks
+  ): Promise<TranscriptionSession> {
+    // What a failed start has to undo
+    let metered: TranscriptionSession | null = null;
+    let connected = false;
     try {
       // Create new transcription session
-      const session = TranscriptionSession.create(socketId);
+      const languageHints = await this.languageHintsPolicy.resolve(
+        owner,
+        options.languageHints
+      );
+      const session = TranscriptionSession.create(socketId, owner, {
+        ...options,
+        languageHints,
+      });
+
+      // Rejects formats the provider can neither ingest nor have converted
+      const streamAudioConfig = resolveStreamAudioConfig(
+        this.transcriptionProvider,
+        session.audioConfig
+      );
+
+      // Rejects the session when the owner's monthly quota is used up
+      await this.usageMeter.begin(session);
+      metered = session;
+
+      this.translateTranscript.start(session, callbacks.onTranslation);
+
+      // The organization's glossary guides the provider and fixes what it
+      // still mishears; later glossary changes apply to the next session
+      const vocabulary = session.organizationId
+        ? await this.vocabularyRepository.findByOrganizationId(session.organizationId)
+        : [];
+      const corrector = new VocabularyCorrector(vocabulary);
+      const redactor = new TranscriptRedactor(await this.redactionPolicy.resolve(owner));
 
       // Connect to transcription provider
       await this.transcriptionProvider.connect(
-        (result) => {
-          // Handle result in the use case if needed
-          // For now, this is handled at controller level
+        streamAudioConfig,
+        (providerResult) => {
+          // Partials are redacted too, so clients and viewers never see
+          // what the finals hide
+          const { result, redactions } = redactor.redactResult(
+            providerResult.is_final
+              ? { ...providerResult, tokens: corrector.correct(providerResult.tokens) }
+              : providerResult
+          );
+
+          // Final tokens are appended to the session so they get persisted,
+          // with an audit of what was redacted
+          if (result.is_final && session.isAcceptingResults()) {
+            const firstSeq = session.results.length;
+            for (const token of result.tokens) {
+              session.addResult({
+                text: token.text,
+                confidence: token.confidence,
+                start_ms: token.start_ms,
+                end_ms: token.end_ms,
+                speaker: token.speaker ?? result.speaker,
+                language: token.language,
+                redacted: token.redacted,
+              });
+            }
+            for (const redaction of redactions) {
+              const token = result.tokens[redaction.index]!;
+              session.addRedaction({
+                seq: firstSeq + redaction.index,
+                entity: redaction.entity,
+                start_ms: token.start_ms,
+                end_ms: token.end_ms,
+                original_text: redaction.original_text,
+              });
+            }
+            this.transcriptWriter.record(session);
+          }
+
+          // An endpoint may arrive without tokens of its own
+          if (result.tokens.length > 0) {
+            callbacks.onResult(result);
+            this.translateTranscript.handleResult(result);
+          }
+
+          if (result.utterance_end && session.isAcceptingResults()) {
+            const segment = session.endUtterance();
+            if (segment) {
+              callbacks.onUtteranceEnd?.(segment);
+            }
+          }
         },
         (error) => {
-          // Handle error
+          // The error is stored right away; stopping the session later
+          // releases the provider, meter and recording
           session.markError(error.error);
+          this.transcriptionRepository.update(session).catch((updateError) => {
+            this.logger.error("Failed to store transcription error", {
+              sessionId: session.id.toString(),
+              error: updateError instanceof Error ? updateError.message : String(updateError),
+            });
+          });
+          void this.publishSessionEvent.execute(WebhookEvents.SESSION_ERROR, session);
+        },
+        (event) => {
+          this.logger.info("Transcription provider connection event", {
+            sessionId: session.id.toString(),
+            type: event.type,
+            attempt: event.attempt,
+          });
+          callbacks.onConnectionEvent?.(event);
+        },
+        {
+          vocabulary: vocabulary.map((entry) => entry.term),
+          languageHints: session.languageHints,
         }
       );
+      connected = true;
 
       // Activate session
       session.activate();
 
+      // Opted-in sessions keep their audio; the key is dropped if storage fails
+      await this.sessionRecorder.begin(session);
+
       // Persist to database
       await this.transcriptionRepository.save(session);
 
+      // Final tokens are stored in batches from here on
+      this.transcriptWriter.begin(session);
+
+      // Notify webhooks without delaying the client's ack
+      void this.publishSessionEvent.execute(WebhookEvents.SESSION_STARTED, session);
+
       this.logger.info("Transcription started", {
         sessionId: session.id.toString(),
         socketId,
+        userId: owner.userId,
+        targetLanguages: session.targetLanguages,
+        languageHints: session.languageHints,
       });
 
       return session;
     } catch (error) {
+      if (metered) {
+        await this.release(metered, connected);
+      }
+
+      // Bad audio config and quota errors reach the client as-is through the ack
+      if (error instanceof ValidationError || error instanceof QuotaExceededError) {
+        throw error;
+      }
+
       this.logger.error("Failed to start transcription", error);
       throw new Error(
         `Failed to start transcription: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
+
+  /**
+   * Undo what a session that failed to start had already set up; nothing
+   * is persisted and no usage was metered
+   */
+  private async release(session: TranscriptionSession, connected: boolean): Promise<void> {
+    this.translateTranscript.stop();
+    if (connected) {
+      try {
+        await this.transcriptionProvider.close();
+      } catch (error) {
+        this.logger.error("Failed to close transcription provider", {
+          sessionId: session.id.toString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    await this.usageMeter.end(session);
+    await this.sessionRecorder.abort(session);
+  }
 }
@@ -1,39 +1,88 @@
 import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
 import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
 import type { ITranscriptionProvider } from "../../domain/repositories/ITranscriptionProvider.js";
+import { TranslateTranscript } from "../translation/TranslateTranscript.js";
+import { UsageMeter } from "../usage/UsageMeter.js";
+import { SessionRecorder } from "../recording/SessionRecorder.js";
+import { TranscriptWriter } from "./TranscriptWriter.js";
+import { ScheduleSessionJobs } from "../jobs/ScheduleSessionJobs.js";
+import { PublishSessionEvent } from "../webhooks/PublishSessionEvent.js";
+import { WebhookEvents } from "../webhooks/WebhookEvents.js";
 import type { ILogger } from "../interfaces/ILogger.js";
 
 export class StopTranscription {
   constructor(
     private transcriptionRepository: ITranscriptionRepository,
     private transcriptionProvider: ITranscriptionProvider,
+    private translateTranscript: TranslateTranscript,
+    private usageMeter: UsageMeter,
+    private sessionRecorder: SessionRecorder,
+    private transcriptWriter: TranscriptWriter,
+    private scheduleSessionJobs: ScheduleSessionJobs,
+    private publishSessionEvent: PublishSessionEvent,
     private logger: ILogger
   ) {}
 
-  async execute(socketId: string): Promise<TranscriptionSession> {
+  /**
+   * Stop the given in-memory session. The session instance is the one
+   * returned by StartTranscription, which holds the accumulated results.
+   * A session that failed is cleaned up the same way and keeps its error
+   * status; passing a failure ends the session in error, e.g. an upload
+   * whose audio could not be processed.
+   */
+  async execute(
+    session: TranscriptionSession,
+    failure?: string
+  ): Promise<TranscriptionSession> {
     try {
-      // Get current session
-      const session = await this.transcriptionRepository.findBySocketId(socketId);
-      if (!session) {
-        throw new Error(
-          "Transcription session not found. No active transcription to stop."
-        );
-      }
-
       // Mark for stopping
       session.markForStopping();
 
-      // Close provider connection
+      // Close provider connection (flushes remaining final results)
       await this.transcriptionProvider.close();
 
-      // Mark stopped
-      session.markStopped();
+      // Let translations of the flushed results land before persisting
+      await this.translateTranscript.flush();
+
+      // Store the audio metered since the last usage write
+      await this.usageMeter.end(session);
+
+      // Complete the recording before its key is persisted
+      await this.sessionRecorder.end(session);
+
+      // Store the final tokens not yet written; tokens that could not be
+      // stored fail the session, which is still stopped and saved below
+      try {
+        await this.transcriptWriter.end(session);
+      } catch (error) {
+        failure ??= error instanceof Error ? error.message : String(error);
+      }
+
+      // Mark stopped or failed; sessions that failed earlier already carry
+      // their end time
+      if (!session.hasError()) {
+        if (failure) {
+          session.markError(failure);
+          void this.publishSessionEvent.execute(WebhookEvents.SESSION_ERROR, session);
+        } else {
+          session.markStopped();
+        }
+      }
 
       // Update in database
       await this.transcriptionRepository.update(session);
 
+      // Hand follow-up work to the job worker; failed sessions only get
+      // their recording expiry, and were announced by SESSION_ERROR
+      await this.scheduleSessionJobs.execute(session);
+      if (session.isStopped()) {
+        await this.publishSessionEvent.execute(WebhookEvents.SESSION_STOPPED, session);
+        await this.publishSessionEvent.execute(WebhookEvents.TRANSCRIPT_READY, session);
+      }
+
       this.logger.info("Transcription stopped", {
         sessionId: session.id.toString(),
+        status: session.status,
         durationMs: session.getDurationMs(),
         transcribedText: session.getTranscribedText().substring(0, 100), // Log first 100 chars
       });
@@ -0,0 +1,132 @@
+import type { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+// Store final tokens once this many are waiting, or this long after the
+// first of them arrived
+const BATCH_SIZE = 20;
+const MAX_DELAY_MS = 2_000;
+
+interface WrittenTranscript {
+  session: TranscriptionSession;
+  storedCount: number; // tokens of session.results already stored
+  timer: NodeJS.Timeout | null;
+  queued: boolean;
+}
+
+/**
+ * Stores a running session's final tokens in small batches, so a crash
+ * loses at most the last few seconds of transcript. A failed batch stays
+ * pending and is retried with the next one.
+ * Note: One instance per socket, shared by its start and stop use cases
+ */
+export class TranscriptWriter {
+  private current: WrittenTranscript | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Start writing a session's tokens; call once the session is saved
+   */
+  begin(session: TranscriptionSession): void {
+    this.current = { session, storedCount: 0, timer: null, queued: false };
+    this.record(session);
+  }
+
+  /**
+   * Note that final tokens were added to the session
+   */
+  record(session: TranscriptionSession): void {
+    const transcript = this.current;
+    if (!transcript || transcript.session !== session) {
+      return;
+    }
+
+    const pending = session.results.length - transcript.storedCount;
+    if (pending >= BATCH_SIZE) {
+      void this.flush();
+    } else if (pending > 0 && !transcript.timer) {
+      transcript.timer = setTimeout(() => void this.flush(), MAX_DELAY_MS);
+      transcript.timer.unref();
+    }
+  }
+
+  /**
+   * Store the tokens that have not been stored yet
+   */
+  flush(): Promise<void> {
+    const transcript = this.current;
+    if (!transcript) {
+      return this.writing;
+    }
+
+    if (transcript.timer) {
+      clearTimeout(transcript.timer);
+      transcript.timer = null;
+    }
+
+    // Writes are chained so batches are stored in order; a queued write
+    // picks up every token that arrives before it runs
+    if (!transcript.queued) {
+      transcript.queued = true;
+      this.writing = this.writing.then(() => {
+        transcript.queued = false;
+        return this.write(transcript);
+      });
+    }
+    return this.writing;
+  }
+
+  /**
+   * Store the rest of the session's tokens and stop writing it; throws
+   * when some could not be stored
+   */
+  async end(session: TranscriptionSession): Promise<void> {
+    const transcript = this.current;
+    if (transcript?.session !== session) {
+      return;
+    }
+
+    await this.flush();
+    this.current = null;
+
+    const unstored = session.results.length - transcript.storedCount;
+    if (unstored > 0) {
+      throw new Error(`${unstored} transcript tokens could not be stored`);
+    }
+  }
+
+  private async write(transcript: WrittenTranscript): Promise<void> {
+    const firstSeq = transcript.storedCount;
+    const tokens = transcript.session.results.slice(firstSeq);
+    if (tokens.length === 0) {
+      return;
+    }
+
+    // Redactions go with the batch holding their tokens
+    const redactions = transcript.session.redactions.filter(
+      (redaction) => redaction.seq >= firstSeq
+    );
+
+    try {
+      await this.transcriptionRepository.appendTokens(
+        transcript.session.id.toString(),
+        firstSeq,
+        tokens,
+        redactions
+      );
+      transcript.storedCount = firstSeq + tokens.length;
+    } catch (error) {
+      this.logger.error("Failed to store transcript tokens", {
+        sessionId: transcript.session.id.toString(),
+        firstSeq,
+        count: tokens.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
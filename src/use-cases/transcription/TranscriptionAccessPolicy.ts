@@ -0,0 +1,54 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { IMembershipRepository } from "../../domain/repositories/IMembershipRepository.js";
+import type { ITranscriptionAccessScope } from "../../domain/repositories/ITranscriptionRepository.js";
+
+export const ORGANIZATION_MANAGER_ROLES = ["owner", "admin"];
+
+export interface ITranscriptionAccess extends ITranscriptionAccessScope {
+  managedOrganizationIds: string[];
+}
+
+/**
+ * Decides which transcription sessions a user may read or manage.
+ * Users see their own sessions and every session of their organizations;
+ * organization admins may also delete sessions of their organization and
+ * see what was redacted from them.
+ */
+export class TranscriptionAccessPolicy {
+  constructor(private membershipRepository: IMembershipRepository) {}
+
+  async resolve(userId: string): Promise<ITranscriptionAccess> {
+    const memberships = await this.membershipRepository.findByUserId(userId);
+
+    return {
+      userId,
+      organizationIds: memberships.map((m) => m.organizationId),
+      managedOrganizationIds: memberships
+        .filter((m) => ORGANIZATION_MANAGER_ROLES.includes(m.role))
+        .map((m) => m.organizationId),
+    };
+  }
+
+  canView(session: TranscriptionSession, access: ITranscriptionAccess): boolean {
+    return (
+      session.isOwnedBy(access.userId) ||
+      (session.organizationId !== null &&
+        access.organizationIds.includes(session.organizationId))
+    );
+  }
+
+  canManage(session: TranscriptionSession, access: ITranscriptionAccess): boolean {
+    return (
+      session.isOwnedBy(access.userId) ||
+      (session.organizationId !== null &&
+        access.managedOrganizationIds.includes(session.organizationId))
+    );
+  }
+
+  canViewRedactions(session: TranscriptionSession, access: ITranscriptionAccess): boolean {
+    return (
+      session.organizationId !== null &&
+      access.managedOrganizationIds.includes(session.organizationId)
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import type { ITranscriptionProvider } from "../../domain/repositories/ITranscriptionProvider.js";
+import { AudioConfig } from "../../domain/value-objects/AudioConfig.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+
+/**
+ * Format actually streamed to the provider for a client-declared format:
+ * passed through when the provider ingests it natively, otherwise raw PCM
+ * converted to the provider's preferred format. Compressed audio the
+ * provider cannot ingest is rejected, since it is not decoded server-side.
+ */
+export function resolveStreamAudioConfig(
+  provider: ITranscriptionProvider,
+  clientConfig: AudioConfig
+): AudioConfig {
+  if (provider.supportsAudioFormat(clientConfig)) {
+    return clientConfig;
+  }
+  if (clientConfig.isCompressed()) {
+    throw new ValidationError(
+      `Audio format ${clientConfig.format} is not supported by the transcription provider. Send raw PCM instead.`
+    );
+  }
+  return provider.getAudioConfig();
+}
@@ -0,0 +1,141 @@
+import {
+  TranscriptionSession,
+  joinTokenText,
+  type ITranslationSegment,
+} from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ITranslationProvider } from "../../domain/repositories/ITranslationProvider.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export interface ITranslationUpdate extends ITranslationSegment {
+  is_final: boolean;
+}
+
+/**
+ * Translates a session's transcript into its target languages as results
+ * arrive. Final translations are stored on the session in order; partial
+ * translations are emitted only while they are still the latest.
+ */
+export class TranslateTranscript {
+  private session: TranscriptionSession | null = null;
+  private onTranslation: ((update: ITranslationUpdate) => void) | null = null;
+  private finalChains = new Map<string, Promise<void>>();
+  private partialVersion = 0;
+
+  constructor(
+    private translationProvider: ITranslationProvider,
+    private logger: ILogger
+  ) {}
+
+  start(
+    session: TranscriptionSession,
+    onTranslation: (update: ITranslationUpdate) => void
+  ): void {
+    this.session = session;
+    this.onTranslation = onTranslation;
+    this.finalChains.clear();
+    this.partialVersion = 0;
+  }
+
+  handleResult(result: ITranscriptionResult): void {
+    const session = this.session;
+    if (!session || session.targetLanguages.length === 0) {
+      return;
+    }
+
+    const text = joinTokenText(result.tokens);
+    const first = result.tokens[0];
+    const last = result.tokens[result.tokens.length - 1];
+    if (text === "" || !first || !last) {
+      return;
+    }
+
+    // Any newer result supersedes in-flight partial translations
+    const version = ++this.partialVersion;
+
+    for (const language of session.targetLanguages) {
+      const segment = {
+        language,
+        source_text: text,
+        start_ms: first.start_ms,
+        end_ms: last.end_ms,
+      };
+
+      if (result.is_final) {
+        // Chain finals per language so they are stored in transcript order
+        const previous = this.finalChains.get(language) ?? Promise.resolve();
+        this.finalChains.set(
+          language,
+          previous.then(() => this.translateFinal(session, segment))
+        );
+      } else {
+        void this.translatePartial(session, segment, version);
+      }
+    }
+  }
+
+  /**
+   * Wait for all in-flight final translations, e.g. before persisting
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.finalChains.values());
+  }
+
+  /**
+   * Stop translating the current session; translations still in flight
+   * are dropped
+   */
+  stop(): void {
+    this.session = null;
+    this.onTranslation = null;
+    this.finalChains.clear();
+  }
+
+  private async translateFinal(
+    session: TranscriptionSession,
+    segment: Omit<ITranslationSegment, "text">
+  ): Promise<void> {
+    const text = await this.translate(segment);
+    if (text === null || this.session !== session) {
+      return;
+    }
+
+    const translation: ITranslationSegment = { ...segment, text };
+    if (session.isAcceptingResults()) {
+      session.addTranslation(translation);
+    }
+    this.onTranslation?.({ ...translation, is_final: true });
+  }
+
+  private async translatePartial(
+    session: TranscriptionSession,
+    segment: Omit<ITranslationSegment, "text">,
+    version: number
+  ): Promise<void> {
+    const text = await this.translate(segment);
+    if (text === null || this.session !== session || version !== this.partialVersion) {
+      return;
+    }
+
+    this.onTranslation?.({ ...segment, text, is_final: false });
+  }
+
+  private async translate(
+    segment: Omit<ITranslationSegment, "text">
+  ): Promise<string | null> {
+    try {
+      return await this.translationProvider.translate(
+        segment.source_text,
+        segment.language
+      );
+    } catch (error) {
+      // A failed translation must not interrupt the transcription itself
+      this.logger.warn("Translation failed", {
+        sessionId: this.session?.id.toString(),
+        language: segment.language,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { IUsageRepository, IUserUsage } from "../../domain/repositories/IUsageRepository.js";
+import type { IMembershipRepository } from "../../domain/repositories/IMembershipRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { UsagePeriod } from "../../domain/value-objects/UsagePeriod.js";
+import { UsageQuotaPolicy } from "./UsageQuotaPolicy.js";
+
+export interface IOrganizationUsageReport {
+  organizationId: string;
+  period: UsagePeriod;
+  usedMs: number;
+  limitMs: number | null;
+  users: IUserUsage[];
+}
+
+export class GetOrganizationUsage {
+  constructor(
+    private usageRepository: IUsageRepository,
+    private membershipRepository: IMembershipRepository,
+    private quotaPolicy: UsageQuotaPolicy
+  ) {}
+
+  /**
+   * Audio metered for an organization in one month (the current one by
+   * default), broken down by user; visible to its members only
+   */
+  async execute(
+    userId: string,
+    organizationId: string,
+    month?: string
+  ): Promise<IOrganizationUsageReport> {
+    const period = this.parsePeriod(month);
+
+    const memberships = await this.membershipRepository.findByUserId(userId);
+    if (!memberships.some((m) => m.organizationId === organizationId)) {
+      throw new NotFoundError("Organization not found");
+    }
+
+    const [usage, limitMs] = await Promise.all([
+      this.usageRepository.getOrganizationUsage(organizationId, period.start),
+      this.quotaPolicy.getOrganizationLimitMs(organizationId),
+    ]);
+
+    return {
+      organizationId,
+      period,
+      usedMs: usage.audioMs,
+      limitMs,
+      users: usage.users,
+    };
+  }
+
+  private parsePeriod(month?: string): UsagePeriod {
+    if (month === undefined) {
+      return UsagePeriod.containing(new Date());
+    }
+
+    try {
+      return UsagePeriod.parse(month);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
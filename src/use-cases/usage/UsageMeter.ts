@@ -0,0 +1,156 @@
+import type { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { IUsageRepository } from "../../domain/repositories/IUsageRepository.js";
+import { UsageQuotaPolicy, type IUsageQuota } from "./UsageQuotaPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+// Write metered audio, and re-read the owner's usage, at least this often
+// so concurrent sessions of the same owner see each other's audio
+const FLUSH_THRESHOLD_MS = 10_000;
+// Compressed chunks are metered by wall clock; longer gaps are not billed
+const MAX_COMPRESSED_CHUNK_MS = 5_000;
+
+interface MeteredSession {
+  session: TranscriptionSession;
+  quota: IUsageQuota;
+  unstoredMs: number; // metered but not yet counted in quota.usedMs
+  pendingMs: number; // metered but not yet queued for writing
+  lastChunkAt: number | null;
+}
+
+/**
+ * Meters the audio of one socket's session and enforces its monthly quota.
+ * Raw PCM is measured from byte counts; compressed streams carry no fixed
+ * byte rate and are measured by the time between chunks. The quota is
+ * re-read after every write, so sessions sharing it overshoot the limit
+ * by at most one flush interval each.
+ * Note: One instance per socket, shared by its start, audio and stop use cases
+ */
+export class UsageMeter {
+  private current: MeteredSession | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private usageRepository: IUsageRepository,
+    private quotaPolicy: UsageQuotaPolicy,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Start metering a session; rejects it when the quota is already used up
+   */
+  async begin(session: TranscriptionSession): Promise<void> {
+    const quota = await this.quotaPolicy.resolve({
+      userId: session.userId,
+      organizationId: session.organizationId,
+    });
+    if (this.quotaPolicy.isExhausted(quota)) {
+      throw this.quotaPolicy.toError(quota);
+    }
+
+    this.current = {
+      session,
+      quota,
+      unstoredMs: 0,
+      pendingMs: 0,
+      lastChunkAt: null,
+    };
+  }
+
+  /**
+   * Count an audio chunk before it is sent to the provider; rejects it
+   * once the quota is used up
+   */
+  record(session: TranscriptionSession, byteLength: number, now: number = Date.now()): void {
+    const metered = this.current;
+    if (!metered || metered.session !== session) {
+      return;
+    }
+    if (this.quotaPolicy.isExhausted(metered.quota, metered.unstoredMs)) {
+      throw this.quotaPolicy.toError(metered.quota);
+    }
+
+    const durationMs = session.audioConfig.isCompressed()
+      ? Math.min(now - (metered.lastChunkAt ?? now), MAX_COMPRESSED_CHUNK_MS)
+      : session.audioConfig.bytesToDurationMs(byteLength);
+    metered.lastChunkAt = now;
+    metered.unstoredMs += durationMs;
+    metered.pendingMs += durationMs;
+    session.audioDurationMs += durationMs;
+
+    if (metered.pendingMs >= FLUSH_THRESHOLD_MS) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Write metered audio that has not been stored yet
+   */
+  flush(): Promise<void> {
+    const metered = this.current;
+    if (!metered || metered.pendingMs <= 0) {
+      return this.flushing;
+    }
+
+    const audioMs = metered.pendingMs;
+    metered.pendingMs = 0;
+
+    // Writes are chained so increments never race each other
+    this.flushing = this.flushing.then(() =>
+      this.usageRepository
+        .record({
+          sessionId: metered.session.id.toString(),
+          userId: metered.session.userId,
+          organizationId: metered.session.organizationId,
+          periodStart: metered.quota.period.start,
+          audioMs,
+        })
+        .then(
+          () => this.refreshQuota(metered, audioMs),
+          (error) => {
+            metered.pendingMs += audioMs;
+            this.logger.error("Failed to store metered usage", {
+              sessionId: metered.session.id.toString(),
+              audioMs,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        )
+    );
+    return this.flushing;
+  }
+
+  /**
+   * Re-read the owner's usage once stored audio is part of it, picking up
+   * what their other sessions stored meanwhile
+   */
+  private async refreshQuota(metered: MeteredSession, storedMs: number): Promise<void> {
+    try {
+      metered.quota = await this.quotaPolicy.resolve(
+        {
+          userId: metered.session.userId,
+          organizationId: metered.session.organizationId,
+        },
+        metered.quota.period.start
+      );
+    } catch (error) {
+      metered.quota = { ...metered.quota, usedMs: metered.quota.usedMs + storedMs };
+      this.logger.warn("Failed to refresh usage quota", {
+        sessionId: metered.session.id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    metered.unstoredMs -= storedMs;
+  }
+
+  /**
+   * Store the rest of the session's usage and stop metering it
+   */
+  async end(session: TranscriptionSession): Promise<void> {
+    if (this.current?.session !== session) {
+      return;
+    }
+
+    await this.flush();
+    this.current = null;
+  }
+}
@@ -0,0 +1,74 @@
+import type { ISessionOwner } from "../../domain/entities/TranscriptionSession.js";
+import type { IUsageRepository } from "../../domain/repositories/IUsageRepository.js";
+import type { IOrganizationSettingsRepository } from "../../domain/repositories/IOrganizationSettingsRepository.js";
+import { QuotaExceededError } from "../../domain/errors/QuotaExceededError.js";
+import { UsagePeriod } from "../../domain/value-objects/UsagePeriod.js";
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Audio used so far this month and the limit it counts against
+ */
+export interface IUsageQuota {
+  scope: "organization" | "user";
+  period: UsagePeriod;
+  usedMs: number;
+  limitMs: number | null; // null when unlimited
+}
+
+/**
+ * Monthly audio limits. Sessions in an organization count against the
+ * organization's limit (its "monthlyMinuteLimit" setting, else the
+ * default); sessions outside any organization count against the user's
+ * personal usage under the default limit.
+ */
+export class UsageQuotaPolicy {
+  constructor(
+    private usageRepository: IUsageRepository,
+    private organizationSettingsRepository: IOrganizationSettingsRepository,
+    private defaultMonthlyMinutes: number | null
+  ) {}
+
+  async resolve(owner: ISessionOwner, at: Date = new Date()): Promise<IUsageQuota> {
+    const period = UsagePeriod.containing(at);
+
+    if (owner.organizationId) {
+      const [usage, limitMs] = await Promise.all([
+        this.usageRepository.getOrganizationUsage(owner.organizationId, period.start),
+        this.getOrganizationLimitMs(owner.organizationId),
+      ]);
+      return { scope: "organization", period, usedMs: usage.audioMs, limitMs };
+    }
+
+    const usedMs = await this.usageRepository.getPersonalUsageMs(
+      owner.userId,
+      period.start
+    );
+    return { scope: "user", period, usedMs, limitMs: this.toLimitMs(this.defaultMonthlyMinutes) };
+  }
+
+  async getOrganizationLimitMs(organizationId: string): Promise<number | null> {
+    const settings =
+      await this.organizationSettingsRepository.findByOrganizationId(organizationId);
+    return this.toLimitMs(settings.monthlyMinuteLimit ?? this.defaultMonthlyMinutes);
+  }
+
+  isExhausted(quota: IUsageQuota, additionalMs: number = 0): boolean {
+    return quota.limitMs !== null && quota.usedMs + additionalMs >= quota.limitMs;
+  }
+
+  /**
+   * The error reported to clients once a quota is used up
+   */
+  toError(quota: IUsageQuota): QuotaExceededError {
+    const owner = quota.scope === "organization" ? "this organization" : "your account";
+    const minutes = Math.round((quota.limitMs ?? 0) / MS_PER_MINUTE);
+    return new QuotaExceededError(
+      `The monthly transcription quota of ${minutes} minutes for ${owner} is used up. It resets on ${quota.period.end.toISOString().slice(0, 10)}.`
+    );
+  }
+
+  private toLimitMs(minutes: number | null | undefined): number | null {
+    return minutes ? minutes * MS_PER_MINUTE : null;
+  }
+}
@@ -0,0 +1,55 @@
+import type {
+  IVocabularyRepository,
+  IVocabularyTerm,
+} from "../../domain/repositories/IVocabularyRepository.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { VocabularyAccessPolicy } from "./VocabularyAccessPolicy.js";
+import { parseVocabularyTerm } from "./parseVocabularyTerm.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+// Keeps the provider's context within its size limit
+const MAX_TERMS_PER_ORGANIZATION = 500;
+
+export interface IAddVocabularyTermInput {
+  userId: string;
+  organizationId: string;
+  term: unknown;
+  misspellings?: unknown;
+}
+
+export class AddVocabularyTerm {
+  constructor(
+    private vocabularyRepository: IVocabularyRepository,
+    private accessPolicy: VocabularyAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  async execute(input: IAddVocabularyTermInput): Promise<IVocabularyTerm> {
+    await this.accessPolicy.assertCanManage(input.userId, input.organizationId);
+
+    const existing = await this.vocabularyRepository.findByOrganizationId(
+      input.organizationId
+    );
+    if (existing.length >= MAX_TERMS_PER_ORGANIZATION) {
+      throw new ValidationError(
+        `An organization can have at most ${MAX_TERMS_PER_ORGANIZATION} vocabulary terms`
+      );
+    }
+
+    const { term, misspellings } = parseVocabularyTerm(input, existing);
+    const created = await this.vocabularyRepository.create({
+      organizationId: input.organizationId,
+      term,
+      misspellings,
+      createdBy: input.userId,
+    });
+
+    this.logger.info("Vocabulary term added", {
+      termId: created.id,
+      organizationId: input.organizationId,
+      userId: input.userId,
+    });
+
+    return created;
+  }
+}
@@ -0,0 +1,25 @@
+import type { IVocabularyRepository } from "../../domain/repositories/IVocabularyRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { VocabularyAccessPolicy } from "./VocabularyAccessPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class DeleteVocabularyTerm {
+  constructor(
+    private vocabularyRepository: IVocabularyRepository,
+    private accessPolicy: VocabularyAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  async execute(userId: string, organizationId: string, termId: string): Promise<void> {
+    await this.accessPolicy.assertCanManage(userId, organizationId);
+
+    const term = await this.vocabularyRepository.findById(termId);
+    if (!term || term.organizationId !== organizationId) {
+      throw new NotFoundError("Vocabulary term not found");
+    }
+
+    await this.vocabularyRepository.delete(termId);
+
+    this.logger.info("Vocabulary term deleted", { termId, organizationId, userId });
+  }
+}
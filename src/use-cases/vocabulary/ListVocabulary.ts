@@ -0,0 +1,17 @@
+import type {
+  IVocabularyRepository,
+  IVocabularyTerm,
+} from "../../domain/repositories/IVocabularyRepository.js";
+import { VocabularyAccessPolicy } from "./VocabularyAccessPolicy.js";
+
+export class ListVocabulary {
+  constructor(
+    private vocabularyRepository: IVocabularyRepository,
+    private accessPolicy: VocabularyAccessPolicy
+  ) {}
+
+  async execute(userId: string, organizationId: string): Promise<IVocabularyTerm[]> {
+    await this.accessPolicy.assertCanView(userId, organizationId);
+    return this.vocabularyRepository.findByOrganizationId(organizationId);
+  }
+}
@@ -0,0 +1,53 @@
+import type {
+  IVocabularyRepository,
+  IVocabularyTerm,
+} from "../../domain/repositories/IVocabularyRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { VocabularyAccessPolicy } from "./VocabularyAccessPolicy.js";
+import { parseVocabularyTerm } from "./parseVocabularyTerm.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export interface IUpdateVocabularyTermInput {
+  userId: string;
+  organizationId: string;
+  termId: string;
+  term: unknown;
+  misspellings?: unknown;
+}
+
+export class UpdateVocabularyTerm {
+  constructor(
+    private vocabularyRepository: IVocabularyRepository,
+    private accessPolicy: VocabularyAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Replace a term and its misspellings; sessions already running keep
+   * the vocabulary they started with
+   */
+  async execute(input: IUpdateVocabularyTermInput): Promise<IVocabularyTerm> {
+    await this.accessPolicy.assertCanManage(input.userId, input.organizationId);
+
+    const existing = await this.vocabularyRepository.findByOrganizationId(
+      input.organizationId
+    );
+    if (!existing.some((term) => term.id === input.termId)) {
+      throw new NotFoundError("Vocabulary term not found");
+    }
+
+    const changes = parseVocabularyTerm(
+      input,
+      existing.filter((term) => term.id !== input.termId)
+    );
+    const updated = await this.vocabularyRepository.update(input.termId, changes);
+
+    this.logger.info("Vocabulary term updated", {
+      termId: input.termId,
+      organizationId: input.organizationId,
+      userId: input.userId,
+    });
+
+    return updated;
+  }
+}
@@ -0,0 +1,33 @@
+import type { IMembershipRepository } from "../../domain/repositories/IMembershipRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ORGANIZATION_MANAGER_ROLES } from "../transcription/TranscriptionAccessPolicy.js";
+
+/**
+ * Every member may read an organization's glossary; owners and admins
+ * maintain it
+ */
+export class VocabularyAccessPolicy {
+  constructor(private membershipRepository: IMembershipRepository) {}
+
+  async assertCanView(userId: string, organizationId: string): Promise<void> {
+    await this.findRole(userId, organizationId);
+  }
+
+  async assertCanManage(userId: string, organizationId: string): Promise<void> {
+    const role = await this.findRole(userId, organizationId);
+    if (!ORGANIZATION_MANAGER_ROLES.includes(role)) {
+      throw new ForbiddenError("Only organization admins can change the vocabulary");
+    }
+  }
+
+  private async findRole(userId: string, organizationId: string): Promise<string> {
+    const memberships = await this.membershipRepository.findByUserId(userId);
+    const membership = memberships.find((m) => m.organizationId === organizationId);
+
+    if (!membership) {
+      throw new NotFoundError("Organization not found");
+    }
+    return membership.role;
+  }
+}
@@ -0,0 +1,83 @@
+import { groupTokenWords } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { IVocabularyTerm } from "../../domain/repositories/IVocabularyRepository.js";
+
+type Token = ITranscriptionResult["tokens"][number];
+
+interface ICorrection {
+  words: string[]; // normalized words of the misheard phrase
+  term: string;
+}
+
+/**
+ * Replaces misheard glossary terms in final tokens, e.g. "inter call" with
+ * "Intercall". Phrases are matched word by word, a word being a token
+ * that starts with whitespace plus the word pieces that follow it,
+ * ignoring case and surrounding punctuation; the term itself is matched
+ * too so its spelling and casing are kept consistent.
+ */
+export class VocabularyCorrector {
+  private corrections: ICorrection[];
+
+  constructor(terms: IVocabularyTerm[]) {
+    this.corrections = terms
+      .flatMap(({ term, misspellings }) =>
+        [term, ...misspellings].map((phrase) => ({
+          words: phrase.split(" ").map(normalizeWord).filter((word) => word !== ""),
+          term,
+        }))
+      )
+      .filter((correction) => correction.words.length > 0)
+      // Longer phrases first, so "inter call app" wins over "inter call"
+      .sort((a, b) => b.words.length - a.words.length);
+  }
+
+  correct(tokens: Token[]): Token[] {
+    if (this.corrections.length === 0) {
+      return tokens;
+    }
+
+    const words = groupTokenWords(tokens);
+    const normalized = words.map((word) =>
+      normalizeWord(word.map((token) => token.text).join(""))
+    );
+    const corrected: Token[] = [];
+
+    for (let i = 0; i < words.length; ) {
+      const correction = this.corrections.find((candidate) =>
+        candidate.words.every((word, offset) => normalized[i + offset] === word)
+      );
+      if (!correction) {
+        corrected.push(...words[i]!);
+        i++;
+        continue;
+      }
+
+      const matched = words.slice(i, i + correction.words.length).flat();
+      const first = matched[0]!;
+      const last = matched[matched.length - 1]!;
+      // Keep the spacing before the phrase and the punctuation after it
+      const leading = /^\s*/.exec(first.text)![0];
+      const trailing = /[^\p{L}\p{N}]*$/u.exec(last.text.trimEnd())![0];
+      corrected.push({
+        ...first,
+        text:
+          leading +
+          correction.term +
+          (correction.term.endsWith(trailing) ? "" : trailing),
+        confidence: Math.min(...matched.map((token) => token.confidence)),
+        end_ms: last.end_ms,
+      });
+      i += correction.words.length;
+    }
+
+    return corrected;
+  }
+}
+
+function normalizeWord(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+}
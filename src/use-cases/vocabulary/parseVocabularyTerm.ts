@@ -0,0 +1,64 @@
+import type { IVocabularyTerm } from "../../domain/repositories/IVocabularyRepository.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+
+const MAX_TERM_LENGTH = 100;
+const MAX_MISSPELLINGS = 20;
+
+/**
+ * Validate a term and its misspellings against the rest of the glossary.
+ * A phrase may only ever be corrected to one term, so misspellings must
+ * not clash with other terms or their misspellings.
+ */
+export function parseVocabularyTerm(
+  input: { term: unknown; misspellings?: unknown },
+  others: IVocabularyTerm[]
+): { term: string; misspellings: string[] } {
+  const term = parsePhrase(input.term, "term");
+
+  const rawMisspellings = input.misspellings ?? [];
+  if (!Array.isArray(rawMisspellings) || rawMisspellings.length > MAX_MISSPELLINGS) {
+    throw new ValidationError(
+      `misspellings must be an array of at most ${MAX_MISSPELLINGS} phrases`
+    );
+  }
+
+  const misspellings = new Map<string, string>();
+  for (const value of rawMisspellings) {
+    const misspelling = parsePhrase(value, "misspellings");
+    const key = normalize(misspelling);
+    if (key !== normalize(term) && !misspellings.has(key)) {
+      misspellings.set(key, misspelling);
+    }
+  }
+
+  const taken = new Map<string, string>(); // phrase -> term it belongs to
+  for (const other of others) {
+    for (const phrase of [other.term, ...other.misspellings]) {
+      taken.set(normalize(phrase), other.term);
+    }
+  }
+  for (const phrase of [term, ...misspellings.values()]) {
+    const owner = taken.get(normalize(phrase));
+    if (owner !== undefined) {
+      throw new ValidationError(
+        `"${phrase}" is already in the vocabulary under "${owner}"`
+      );
+    }
+  }
+
+  return { term, misspellings: [...misspellings.values()] };
+}
+
+function parsePhrase(value: unknown, name: string): string {
+  const phrase = typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+  if (phrase === "" || phrase.length > MAX_TERM_LENGTH) {
+    throw new ValidationError(
+      `${name} must be non-empty text of at most ${MAX_TERM_LENGTH} characters`
+    );
+  }
+  return phrase;
+}
+
+function normalize(phrase: string): string {
+  return phrase.toLowerCase();
+}
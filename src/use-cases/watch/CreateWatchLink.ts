@@ -0,0 +1,77 @@
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { TranscriptionAccessPolicy } from "../transcription/TranscriptionAccessPolicy.js";
+import type { IWatchTokenService } from "../interfaces/IWatchTokenService.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+const DEFAULT_EXPIRY_SECONDS = 24 * 60 * 60;
+const MAX_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+export interface IWatchLink {
+  sessionId: string;
+  token: string;
+  expiresAt: Date;
+}
+
+export class CreateWatchLink {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private tokenService: IWatchTokenService,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Issue a token that lets anyone holding it follow the session read-only,
+   * without an account, until it expires
+   */
+  async execute(
+    userId: string,
+    sessionId: string,
+    expiresInSeconds?: unknown
+  ): Promise<IWatchLink> {
+    const ttlSeconds = this.parseExpiry(expiresInSeconds);
+
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Transcription session not found");
+    }
+
+    const access = await this.accessPolicy.resolve(userId);
+    if (!this.accessPolicy.canView(session, access)) {
+      throw new NotFoundError("Transcription session not found");
+    }
+    if (!this.accessPolicy.canManage(session, access)) {
+      throw new ForbiddenError(
+        "Only the session owner or an organization admin can share watch links"
+      );
+    }
+
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    const token = this.tokenService.sign({ sessionId, expiresAt });
+
+    this.logger.info("Watch link created", {
+      sessionId,
+      userId,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return { sessionId, token, expiresAt };
+  }
+
+  private parseExpiry(value: unknown): number {
+    if (value === undefined || value === null) {
+      return DEFAULT_EXPIRY_SECONDS;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isInteger(seconds) || seconds < 60 || seconds > MAX_EXPIRY_SECONDS) {
+      throw new ValidationError(
+        `expiresInSeconds must be an integer between 60 and ${MAX_EXPIRY_SECONDS}`
+      );
+    }
+    return seconds;
+  }
+}
@@ -0,0 +1,45 @@
+import type { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../../domain/repositories/ITranscriptionProvider.js";
+import type { ITranslationUpdate } from "../translation/TranslateTranscript.js";
+import type { ISessionViewerNotifier } from "../interfaces/ISessionViewerNotifier.js";
+
+/**
+ * Sessions currently streaming on this server, shared by all sockets so
+ * viewers can read the in-memory transcript before it is persisted
+ */
+export class LiveSessionRegistry {
+  private sessions = new Map<string, TranscriptionSession>();
+
+  constructor(private notifier: ISessionViewerNotifier) {}
+
+  register(session: TranscriptionSession): void {
+    this.sessions.set(session.id.toString(), session);
+  }
+
+  get(sessionId: string): TranscriptionSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Drop a finished session and tell its viewers how it ended
+   */
+  remove(session: TranscriptionSession): void {
+    const sessionId = session.id.toString();
+    if (this.sessions.get(sessionId) === session) {
+      this.sessions.delete(sessionId);
+      this.notifier.statusChanged(sessionId, session.status);
+    }
+  }
+
+  publishResult(session: TranscriptionSession, result: ITranscriptionResult): void {
+    this.notifier.transcript(session.id.toString(), result);
+  }
+
+  publishTranslation(session: TranscriptionSession, update: ITranslationUpdate): void {
+    this.notifier.translation(session.id.toString(), update);
+  }
+
+  publishStatus(session: TranscriptionSession): void {
+    this.notifier.statusChanged(session.id.toString(), session.status);
+  }
+}
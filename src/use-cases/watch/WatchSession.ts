@@ -0,0 +1,75 @@
+import { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { ITranscriptionRepository } from "../../domain/repositories/ITranscriptionRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import { TranscriptionAccessPolicy } from "../transcription/TranscriptionAccessPolicy.js";
+import { LiveSessionRegistry } from "./LiveSessionRegistry.js";
+import type { IWatchTokenService } from "../interfaces/IWatchTokenService.js";
+
+/**
+ * Who is asking to watch: a signed-in user, a watch link, or both
+ */
+export interface IWatchRequest {
+  userId?: string;
+  sessionId?: unknown;
+  token?: unknown;
+}
+
+export interface IWatchedSession {
+  session: TranscriptionSession;
+  /** False once the session has finished; no further events will follow */
+  live: boolean;
+}
+
+export class WatchSession {
+  constructor(
+    private transcriptionRepository: ITranscriptionRepository,
+    private accessPolicy: TranscriptionAccessPolicy,
+    private liveSessions: LiveSessionRegistry,
+    private tokenService: IWatchTokenService
+  ) {}
+
+  /**
+   * Resolve the session a viewer may follow. A watch link grants access on
+   * its own; otherwise the user needs read access to the session.
+   * Live sessions are returned as the in-memory instance, so its results
+   * are every final token emitted so far.
+   */
+  async execute(request: IWatchRequest): Promise<IWatchedSession> {
+    if (typeof request.token === "string" && request.token !== "") {
+      const claims = this.tokenService.verify(request.token);
+      if (!claims) {
+        throw new ForbiddenError("Watch link is invalid or has expired");
+      }
+      return this.load(claims.sessionId);
+    }
+
+    if (typeof request.sessionId !== "string" || request.sessionId === "") {
+      throw new ValidationError("sessionId or token is required");
+    }
+    if (!request.userId) {
+      throw new ForbiddenError("A watch link is required to watch without signing in");
+    }
+
+    const watched = await this.load(request.sessionId);
+    const access = await this.accessPolicy.resolve(request.userId);
+    if (!this.accessPolicy.canView(watched.session, access)) {
+      throw new NotFoundError("Transcription session not found");
+    }
+    return watched;
+  }
+
+  private async load(sessionId: string): Promise<IWatchedSession> {
+    const live = this.liveSessions.get(sessionId);
+    if (live) {
+      return { session: live, live: true };
+    }
+
+    const session = await this.transcriptionRepository.findById(sessionId);
+    if (!session) {
+      throw new NotFoundError("Transcription session not found");
+    }
+    return { session, live: false };
+  }
+}
@@ -0,0 +1,111 @@
+import { randomBytes } from "crypto";
+import type {
+  IWebhookEndpoint,
+  IWebhookRepository,
+} from "../../domain/repositories/IWebhookRepository.js";
+import { ValidationError } from "../../domain/errors/ValidationError.js";
+import {
+  WebhookUrl,
+  type IWebhookUrlRules,
+} from "../../domain/value-objects/WebhookUrl.js";
+import { WebhookAccessPolicy } from "./WebhookAccessPolicy.js";
+import { WEBHOOK_EVENTS } from "./WebhookEvents.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+const MAX_ENDPOINTS_PER_ORGANIZATION = 10;
+const MIN_SECRET_LENGTH = 16;
+
+export interface ICreateWebhookEndpointInput {
+  userId: string;
+  organizationId: string;
+  url: unknown;
+  events: unknown;
+  secret?: unknown; // generated when omitted
+}
+
+export class CreateWebhookEndpoint {
+  constructor(
+    private webhookRepository: IWebhookRepository,
+    private accessPolicy: WebhookAccessPolicy,
+    private urlRules: IWebhookUrlRules,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Register an endpoint; the returned secret is the only time it is shown
+   */
+  async execute(input: ICreateWebhookEndpointInput): Promise<IWebhookEndpoint> {
+    await this.accessPolicy.assertCanManage(input.userId, input.organizationId);
+
+    const url = this.parseUrl(input.url);
+    const events = this.parseEvents(input.events);
+    const secret = this.parseSecret(input.secret);
+
+    const existing = await this.webhookRepository.findEndpointsByOrganizationId(
+      input.organizationId
+    );
+    if (existing.length >= MAX_ENDPOINTS_PER_ORGANIZATION) {
+      throw new ValidationError(
+        `An organization can have at most ${MAX_ENDPOINTS_PER_ORGANIZATION} webhook endpoints`
+      );
+    }
+
+    const endpoint = await this.webhookRepository.createEndpoint({
+      organizationId: input.organizationId,
+      url,
+      secret,
+      events,
+      createdBy: input.userId,
+    });
+
+    this.logger.info("Webhook endpoint created", {
+      endpointId: endpoint.id,
+      organizationId: input.organizationId,
+      userId: input.userId,
+      events,
+    });
+
+    return endpoint;
+  }
+
+  private parseUrl(value: unknown): string {
+    if (typeof value !== "string") {
+      throw new ValidationError("url is required");
+    }
+
+    try {
+      return new WebhookUrl(value, this.urlRules).toString();
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private parseEvents(value: unknown): string[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new ValidationError(
+        `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(", ")}`
+      );
+    }
+
+    for (const event of value) {
+      if (typeof event !== "string" || !WEBHOOK_EVENTS.includes(event)) {
+        throw new ValidationError(
+          `Unknown webhook event ${JSON.stringify(event)}. Use one of: ${WEBHOOK_EVENTS.join(", ")}`
+        );
+      }
+    }
+    return [...new Set(value as string[])];
+  }
+
+  private parseSecret(value: unknown): string {
+    if (value === undefined || value === null) {
+      return `whsec_${randomBytes(24).toString("hex")}`;
+    }
+    if (typeof value !== "string" || value.length < MIN_SECRET_LENGTH) {
+      throw new ValidationError(
+        `secret must be a string of at least ${MIN_SECRET_LENGTH} characters`
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,28 @@
+import type { IWebhookRepository } from "../../domain/repositories/IWebhookRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { WebhookAccessPolicy } from "./WebhookAccessPolicy.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+export class DeleteWebhookEndpoint {
+  constructor(
+    private webhookRepository: IWebhookRepository,
+    private accessPolicy: WebhookAccessPolicy,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Delete an endpoint; its queued deliveries are dropped
+   */
+  async execute(userId: string, organizationId: string, endpointId: string): Promise<void> {
+    await this.accessPolicy.assertCanManage(userId, organizationId);
+
+    const endpoint = await this.webhookRepository.findEndpointById(endpointId);
+    if (!endpoint || endpoint.organizationId !== organizationId) {
+      throw new NotFoundError("Webhook endpoint not found");
+    }
+
+    await this.webhookRepository.deleteEndpoint(endpointId);
+
+    this.logger.info("Webhook endpoint deleted", { endpointId, organizationId, userId });
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  WebhookDeliveryStatus,
+  type IWebhookRepository,
+} from "../../domain/repositories/IWebhookRepository.js";
+import type { IJob } from "../../domain/repositories/IJobRepository.js";
+import { JobTypes } from "../jobs/JobTypes.js";
+import type { IJobHandler } from "../interfaces/IJobHandler.js";
+import type { IWebhookSender } from "../interfaces/IWebhookSender.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+/**
+ * Posts one queued webhook delivery and records the attempt. Anything but
+ * a 2xx response fails the job, so the worker retries it with backoff.
+ * The delivery follows its job: it fails when the job is dead-lettered and
+ * is pending again when the job is requeued.
+ */
+export class DeliverWebhook implements IJobHandler {
+  readonly type = JobTypes.WEBHOOK_DELIVER;
+
+  constructor(
+    private webhookRepository: IWebhookRepository,
+    private sender: IWebhookSender,
+    private logger: ILogger
+  ) {}
+
+  async handle(job: IJob): Promise<void> {
+    const deliveryId = String(job.payload.deliveryId);
+    const delivery = await this.webhookRepository.findDeliveryById(deliveryId);
+    if (!delivery || delivery.status !== WebhookDeliveryStatus.PENDING) {
+      return; // endpoint deleted meanwhile, or already settled
+    }
+
+    const endpoint = await this.webhookRepository.findEndpointById(delivery.endpointId);
+    if (!endpoint) {
+      return;
+    }
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await this.sender.send({
+        url: endpoint.url,
+        secret: endpoint.secret,
+        deliveryId,
+        event: delivery.event,
+        body: JSON.stringify(delivery.payload),
+      });
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint responded with status ${response.status}`;
+      }
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    const lastAttempt = job.attempts >= job.maxAttempts;
+    await this.webhookRepository.recordAttempt(deliveryId, {
+      status:
+        error === null
+          ? WebhookDeliveryStatus.SUCCEEDED
+          : lastAttempt
+            ? WebhookDeliveryStatus.FAILED
+            : WebhookDeliveryStatus.PENDING,
+      responseStatus,
+      error,
+      attemptedAt: new Date(),
+    });
+
+    if (error !== null) {
+      throw new Error(error);
+    }
+
+    this.logger.debug("Webhook delivered", {
+      deliveryId,
+      endpointId: endpoint.id,
+      event: delivery.event,
+      responseStatus,
+    });
+  }
+
+  async onDeadLetter(job: IJob, error: string): Promise<void> {
+    await this.webhookRepository.failDelivery(String(job.payload.deliveryId), error);
+  }
+
+  async onRequeue(job: IJob): Promise<void> {
+    await this.webhookRepository.resetDelivery(String(job.payload.deliveryId));
+  }
+}
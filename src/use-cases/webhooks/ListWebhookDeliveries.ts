@@ -0,0 +1,36 @@
+import type {
+  IWebhookDelivery,
+  IWebhookRepository,
+} from "../../domain/repositories/IWebhookRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { WebhookAccessPolicy } from "./WebhookAccessPolicy.js";
+
+const DELIVERY_HISTORY_SIZE = 50;
+
+export class ListWebhookDeliveries {
+  constructor(
+    private webhookRepository: IWebhookRepository,
+    private accessPolicy: WebhookAccessPolicy
+  ) {}
+
+  /**
+   * The latest deliveries to an endpoint, newest first
+   */
+  async execute(
+    userId: string,
+    organizationId: string,
+    endpointId: string
+  ): Promise<IWebhookDelivery[]> {
+    await this.accessPolicy.assertCanManage(userId, organizationId);
+
+    const endpoint = await this.webhookRepository.findEndpointById(endpointId);
+    if (!endpoint || endpoint.organizationId !== organizationId) {
+      throw new NotFoundError("Webhook endpoint not found");
+    }
+
+    return this.webhookRepository.findDeliveriesByEndpointId(
+      endpointId,
+      DELIVERY_HISTORY_SIZE
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import type {
+  IWebhookEndpoint,
+  IWebhookRepository,
+} from "../../domain/repositories/IWebhookRepository.js";
+import { WebhookAccessPolicy } from "./WebhookAccessPolicy.js";
+
+export class ListWebhookEndpoints {
+  constructor(
+    private webhookRepository: IWebhookRepository,
+    private accessPolicy: WebhookAccessPolicy
+  ) {}
+
+  async execute(userId: string, organizationId: string): Promise<IWebhookEndpoint[]> {
+    await this.accessPolicy.assertCanManage(userId, organizationId);
+    return this.webhookRepository.findEndpointsByOrganizationId(organizationId);
+  }
+}
@@ -0,0 +1,103 @@
+import type { TranscriptionSession } from "../../domain/entities/TranscriptionSession.js";
+import type { IWebhookRepository } from "../../domain/repositories/IWebhookRepository.js";
+import type { IJobRepository } from "../../domain/repositories/IJobRepository.js";
+import { JobTypes } from "../jobs/JobTypes.js";
+import { WebhookEvents, type WebhookEvent } from "./WebhookEvents.js";
+import type { ILogger } from "../interfaces/ILogger.js";
+
+// With the worker's backoff, the last attempt is about an hour after the first
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/**
+ * Queues a session event for every webhook endpoint of the session's
+ * organization that subscribed to it. Sessions outside an organization
+ * have no webhooks.
+ */
+export class PublishSessionEvent {
+  constructor(
+    private webhookRepository: IWebhookRepository,
+    private jobRepository: IJobRepository,
+    private logger: ILogger
+  ) {}
+
+  /**
+   * Failures are logged, not thrown: webhooks never break a session
+   */
+  async execute(event: WebhookEvent, session: TranscriptionSession): Promise<void> {
+    if (!session.organizationId) {
+      return;
+    }
+
+    const sessionId = session.id.toString();
+
+    try {
+      const endpoints = (
+        await this.webhookRepository.findEndpointsByOrganizationId(session.organizationId)
+      ).filter((endpoint) => endpoint.events.includes(event));
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const payload = {
+        event,
+        createdAt: new Date().toISOString(),
+        data: this.buildEventData(event, session),
+      };
+
+      for (const endpoint of endpoints) {
+        const delivery = await this.webhookRepository.createDelivery({
+          endpointId: endpoint.id,
+          event,
+          payload,
+        });
+        await this.jobRepository.enqueue({
+          type: JobTypes.WEBHOOK_DELIVER,
+          payload: { deliveryId: delivery.id },
+          maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+        });
+      }
+
+      this.logger.debug("Session event published", {
+        sessionId,
+        event,
+        endpoints: endpoints.length,
+      });
+    } catch (error) {
+      this.logger.error("Failed to publish session event", {
+        sessionId,
+        event,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private buildEventData(
+    event: WebhookEvent,
+    session: TranscriptionSession
+  ): Record<string, unknown> {
+    const data: Record<string, unknown> = {
+      sessionId: session.id.toString(),
+      userId: session.userId,
+      organizationId: session.organizationId,
+      callId: session.callId,
+      status: session.status,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: session.endedAt?.toISOString() ?? null,
+      audioDurationMs: session.audioDurationMs,
+    };
+
+    if (event === WebhookEvents.SESSION_ERROR) {
+      data.error = session.errorMessage ?? null;
+    }
+    if (event === WebhookEvents.TRANSCRIPT_READY) {
+      data.transcript = {
+        text: session.getTranscribedText(),
+        speakers: session.getSpeakers(),
+        turns: session.getSpeakerTurns(),
+        translations: session.translations,
+      };
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,24 @@
+import type { IMembershipRepository } from "../../domain/repositories/IMembershipRepository.js";
+import { NotFoundError } from "../../domain/errors/NotFoundError.js";
+import { ForbiddenError } from "../../domain/errors/ForbiddenError.js";
+import { ORGANIZATION_MANAGER_ROLES } from "../transcription/TranscriptionAccessPolicy.js";
+
+/**
+ * Webhooks carry an organization's transcripts to third parties, so only
+ * its owners and admins may see or change them
+ */
+export class WebhookAccessPolicy {
+  constructor(private membershipRepository: IMembershipRepository) {}
+
+  async assertCanManage(userId: string, organizationId: string): Promise<void> {
+    const memberships = await this.membershipRepository.findByUserId(userId);
+    const membership = memberships.find((m) => m.organizationId === organizationId);
+
+    if (!membership) {
+      throw new NotFoundError("Organization not found");
+    }
+    if (!ORGANIZATION_MANAGER_ROLES.includes(membership.role)) {
+      throw new ForbiddenError("Only organization admins can manage webhooks");
+    }
+  }
+}
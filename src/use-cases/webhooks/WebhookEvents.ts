@@ -0,0 +1,13 @@
+/**
+ * Session lifecycle events organizations can subscribe webhooks to
+ */
+export const WebhookEvents = {
+  SESSION_STARTED: "session.started",
+  SESSION_STOPPED: "session.stopped",
+  SESSION_ERROR: "session.error",
+  TRANSCRIPT_READY: "transcript.ready", // final transcript persisted
+} as const;
+
+export type WebhookEvent = (typeof WebhookEvents)[keyof typeof WebhookEvents];
+
+export const WEBHOOK_EVENTS: string[] = Object.values(WebhookEvents);
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { JobStatus } from "../src/domain/repositories/IJobRepository.js";
+import { WebhookDeliveryStatus } from "../src/domain/repositories/IWebhookRepository.js";
+import { HttpWebhookSender } from "../src/infrastructure/webhooks/HttpWebhookSender.js";
+import { AdminAccessPolicy } from "../src/use-cases/admin/AdminAccessPolicy.js";
+import { GetJob } from "../src/use-cases/jobs/GetJob.js";
+import { JobTypes } from "../src/use-cases/jobs/JobTypes.js";
+import { JobWorker } from "../src/use-cases/jobs/JobWorker.js";
+import { RetryJob } from "../src/use-cases/jobs/RetryJob.js";
+import { DeliverWebhook } from "../src/use-cases/webhooks/DeliverWebhook.js";
+import { InMemoryJobRepository } from "./support/InMemoryJobRepository.js";
+import { InMemoryWebhookRepository } from "./support/InMemoryWebhookRepository.js";
+import { StandInServer } from "./support/StandInServer.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+const RETRY_BASE_DELAY_MS = 1_000;
+const LOCK_TIMEOUT_MS = 60_000;
+
+describe("DeliverWebhook", () => {
+  let receiver: StandInServer;
+  let jobs: InMemoryJobRepository;
+  let webhooks: InMemoryWebhookRepository;
+  let handler: DeliverWebhook;
+  let worker: JobWorker;
+
+  async function setUp(statuses: number[]) {
+    receiver = new StandInServer(statuses);
+    const url = await receiver.start();
+
+    const endpoint = await webhooks.createEndpoint({
+      organizationId: "org",
+      url,
+      secret: "whsec_test_secret",
+      events: ["session.stopped"],
+      createdBy: "user",
+    });
+    const delivery = await webhooks.createDelivery({
+      endpointId: endpoint.id,
+      event: "session.stopped",
+      payload: { event: "session.stopped" },
+    });
+    const job = await jobs.enqueue({
+      type: JobTypes.WEBHOOK_DELIVER,
+      payload: { deliveryId: delivery.id },
+      maxAttempts: 3,
+    });
+    return { deliveryId: delivery.id, jobId: job.id };
+  }
+
+  // Retries are due after their backoff; run as if that time had passed
+  function later(ms = 60 * 60 * 1000): Date {
+    return new Date(Date.now() + ms);
+  }
+
+  beforeEach(() => {
+    jobs = new InMemoryJobRepository();
+    webhooks = new InMemoryWebhookRepository();
+    handler = new DeliverWebhook(
+      webhooks,
+      new HttpWebhookSender({ allowHttp: true, allowPrivateNetworks: true }),
+      silentLogger
+    );
+    worker = new JobWorker(
+      jobs,
+      [handler],
+      {
+        pollIntervalMs: 1_000,
+        lockTimeoutMs: LOCK_TIMEOUT_MS,
+        retryBaseDelayMs: RETRY_BASE_DELAY_MS,
+        retryMaxDelayMs: 3_000,
+        completedRetentionMs: 60_000,
+      },
+      silentLogger
+    );
+  });
+
+  afterEach(async () => {
+    await receiver.stop();
+  });
+
+  test("retries a failed delivery with backoff until it succeeds", async () => {
+    const { deliveryId, jobId } = await setUp([500, 503, 200]);
+
+    let before = Date.now();
+    await worker.runNext();
+    let job = (await jobs.findById(jobId))!;
+    assert.equal(job.status, JobStatus.PENDING);
+    assert.equal(job.lastError, "Endpoint responded with status 500");
+    assert.ok(job.runAt.getTime() - before >= RETRY_BASE_DELAY_MS);
+    assert.ok(job.runAt.getTime() - before < 2 * RETRY_BASE_DELAY_MS);
+
+    // Not due yet
+    assert.equal(await worker.runNext(), false);
+
+    before = Date.now();
+    await worker.runNext(later());
+    job = (await jobs.findById(jobId))!;
+    assert.ok(job.runAt.getTime() - before >= 2 * RETRY_BASE_DELAY_MS);
+
+    let delivery = (await webhooks.findDeliveryById(deliveryId))!;
+    assert.equal(delivery.status, WebhookDeliveryStatus.PENDING);
+    assert.equal(delivery.attempts, 2);
+    assert.equal(delivery.responseStatus, 503);
+
+    await worker.runNext(later());
+    delivery = (await webhooks.findDeliveryById(deliveryId))!;
+    assert.equal(delivery.status, WebhookDeliveryStatus.SUCCEEDED);
+    assert.equal(delivery.attempts, 3);
+    assert.ok(delivery.deliveredAt);
+    assert.equal((await jobs.findById(jobId))!.status, JobStatus.COMPLETED);
+    assert.equal(receiver.requests.length, 3);
+  });
+
+  test("marks the delivery failed once out of attempts", async () => {
+    const { deliveryId, jobId } = await setUp([500]);
+
+    for (let i = 0; i < 3; i++) {
+      await worker.runNext(later());
+    }
+
+    const delivery = (await webhooks.findDeliveryById(deliveryId))!;
+    assert.equal(delivery.status, WebhookDeliveryStatus.FAILED);
+    assert.equal(delivery.attempts, 3);
+    assert.equal((await jobs.findById(jobId))!.status, JobStatus.DEAD);
+    assert.equal(await worker.runNext(later()), false);
+  });
+
+  test("does not count a redirect as delivered", async () => {
+    const { deliveryId } = await setUp([301]);
+
+    await worker.runNext();
+
+    const delivery = (await webhooks.findDeliveryById(deliveryId))!;
+    assert.equal(delivery.status, WebhookDeliveryStatus.PENDING);
+    assert.equal(delivery.responseStatus, 301);
+    assert.equal(delivery.lastError, "Endpoint responded with status 301");
+  });
+
+  test("fails the delivery of a stale job that used its last attempt", async () => {
+    const { deliveryId, jobId } = await setUp([200]);
+    const job = jobs.jobs.get(jobId)!;
+    Object.assign(job, { status: JobStatus.RUNNING, attempts: 3, lockedAt: new Date(0) });
+
+    assert.equal(await worker.runNext(), false);
+
+    assert.equal((await jobs.findById(jobId))!.status, JobStatus.DEAD);
+    const delivery = (await webhooks.findDeliveryById(deliveryId))!;
+    assert.equal(delivery.status, WebhookDeliveryStatus.FAILED);
+    assert.equal(receiver.requests.length, 0);
+  });
+
+  test("sends a dead delivery again when its job is retried", async () => {
+    const { deliveryId, jobId } = await setUp([500, 500, 500, 200]);
+    for (let i = 0; i < 3; i++) {
+      await worker.runNext(later());
+    }
+    assert.equal((await webhooks.findDeliveryById(deliveryId))!.status, WebhookDeliveryStatus.FAILED);
+
+    const retryJob = new RetryJob(
+      new GetJob(jobs, new AdminAccessPolicy(["admin@example.com"])),
+      jobs,
+      [handler],
+      silentLogger
+    );
+    await retryJob.execute("admin@example.com", jobId);
+    assert.equal((await webhooks.findDeliveryById(deliveryId))!.attempts, 0);
+
+    await worker.runNext();
+
+    const delivery = (await webhooks.findDeliveryById(deliveryId))!;
+    assert.equal(delivery.status, WebhookDeliveryStatus.SUCCEEDED);
+    assert.equal(delivery.attempts, 1);
+    assert.equal(receiver.requests.length, 4);
+  });
+});
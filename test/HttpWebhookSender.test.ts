@@ -0,0 +1,77 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { HttpWebhookSender } from "../src/infrastructure/webhooks/HttpWebhookSender.js";
+import { StandInServer } from "./support/StandInServer.js";
+
+const local = { allowHttp: true, allowPrivateNetworks: true };
+
+describe("HttpWebhookSender", () => {
+  let receiver: StandInServer | null = null;
+
+  afterEach(async () => {
+    await receiver?.stop();
+    receiver = null;
+  });
+
+  test("signs the timestamp and raw body with the endpoint secret", async () => {
+    receiver = new StandInServer([204]);
+    const url = await receiver.start();
+    const body = JSON.stringify({ event: "session.started", data: { sessionId: "s1" } });
+
+    const response = await new HttpWebhookSender(local).send({
+      url,
+      secret: "whsec_test_secret",
+      deliveryId: "d1",
+      event: "session.started",
+      body,
+    });
+
+    assert.equal(response.status, 204);
+    const [received] = receiver.requests;
+    assert.equal(received?.method, "POST");
+    assert.equal(received.body, body);
+    assert.equal(received.headers["x-intercall-event"], "session.started");
+    assert.equal(received.headers["x-intercall-delivery"], "d1");
+
+    const timestamp = String(received.headers["x-intercall-timestamp"]);
+    assert.ok(Math.abs(Number(timestamp) - Date.now() / 1000) < 5);
+    const expected = createHmac("sha256", "whsec_test_secret")
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    assert.equal(received.headers["x-intercall-signature"], `sha256=${expected}`);
+  });
+
+  test("reports redirects instead of following them", async () => {
+    receiver = new StandInServer([302], { Location: "http://127.0.0.1:1/elsewhere" });
+    const url = await receiver.start();
+
+    const response = await new HttpWebhookSender(local).send({
+      url,
+      secret: "whsec_test_secret",
+      deliveryId: "d1",
+      event: "session.started",
+      body: "{}",
+    });
+
+    assert.equal(response.status, 302);
+    assert.equal(receiver.requests.length, 1);
+  });
+
+  test("refuses private hosts unless they are allowed", async () => {
+    receiver = new StandInServer([204]);
+    const url = await receiver.start();
+
+    await assert.rejects(
+      new HttpWebhookSender({ allowHttp: true, allowPrivateNetworks: false }).send({
+        url,
+        secret: "whsec_test_secret",
+        deliveryId: "d1",
+        event: "session.started",
+        body: "{}",
+      }),
+      /public host/
+    );
+    assert.equal(receiver.requests.length, 0);
+  });
+});
@@ -0,0 +1,137 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { JobStatus, type IJob } from "../src/domain/repositories/IJobRepository.js";
+import type { IJobHandler } from "../src/use-cases/interfaces/IJobHandler.js";
+import { JobWorker, type IJobWorkerOptions } from "../src/use-cases/jobs/JobWorker.js";
+import { InMemoryJobRepository } from "./support/InMemoryJobRepository.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+const OPTIONS: IJobWorkerOptions = {
+  pollIntervalMs: 1_000,
+  lockTimeoutMs: 60_000,
+  retryBaseDelayMs: 1_000,
+  retryMaxDelayMs: 3_000,
+  completedRetentionMs: 60_000,
+};
+
+/**
+ * Handler that fails while `failures` is positive and records what it saw
+ */
+class RecordingHandler implements IJobHandler {
+  readonly type = "test.job";
+  readonly handled: string[] = [];
+  readonly deadLettered: Array<[string, string]> = [];
+  failures = 0;
+
+  async handle(job: IJob): Promise<void> {
+    this.handled.push(String(job.payload.name));
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("receiver unavailable");
+    }
+  }
+
+  async onDeadLetter(job: IJob, error: string): Promise<void> {
+    this.deadLettered.push([String(job.payload.name), error]);
+  }
+}
+
+describe("JobWorker", () => {
+  let repository: InMemoryJobRepository;
+  let handler: RecordingHandler;
+  let worker: JobWorker;
+
+  beforeEach(() => {
+    repository = new InMemoryJobRepository();
+    handler = new RecordingHandler();
+    worker = new JobWorker(repository, [handler], OPTIONS, silentLogger);
+  });
+
+  test("runs due jobs in order and completes them", async () => {
+    const now = new Date();
+    await repository.enqueue({ type: "test.job", payload: { name: "second" }, runAt: new Date(now.getTime() - 1_000) });
+    await repository.enqueue({ type: "test.job", payload: { name: "first" }, runAt: new Date(now.getTime() - 2_000) });
+
+    assert.equal(await worker.runNext(now), true);
+    assert.equal(await worker.runNext(now), true);
+    assert.equal(await worker.runNext(now), false);
+
+    assert.deepEqual(handler.handled, ["first", "second"]);
+    assert.ok([...repository.jobs.values()].every((job) => job.status === JobStatus.COMPLETED));
+  });
+
+  test("leaves jobs that are not due yet or have no handler", async () => {
+    const now = new Date();
+    await repository.enqueue({ type: "test.job", payload: { name: "later" }, runAt: new Date(now.getTime() + 1_000) });
+    await repository.enqueue({ type: "other.job", payload: { name: "other" }, runAt: now });
+
+    assert.equal(await worker.runNext(now), false);
+    assert.deepEqual(handler.handled, []);
+  });
+
+  test("retries failed jobs with exponential backoff up to the maximum delay", async () => {
+    handler.failures = 3;
+    const job = await repository.enqueue({ type: "test.job", payload: { name: "flaky" } });
+
+    const delays: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      await worker.runNext(repository.jobs.get(job.id)!.runAt);
+      const stored = repository.jobs.get(job.id)!;
+      assert.equal(stored.status, JobStatus.PENDING);
+      assert.equal(stored.lastError, "receiver unavailable");
+      delays.push(stored.runAt.getTime() - Date.now());
+    }
+
+    // 1s, 2s, then capped at 3s rather than 4s
+    assertDelays(delays, [1_000, 2_000, 3_000]);
+
+    await worker.runNext(repository.jobs.get(job.id)!.runAt);
+    assert.equal(repository.jobs.get(job.id)!.status, JobStatus.COMPLETED);
+    assert.equal(repository.jobs.get(job.id)!.attempts, 4);
+  });
+
+  test("dead-letters a job once out of attempts and tells its handler", async () => {
+    handler.failures = 2;
+    const job = await repository.enqueue({ type: "test.job", payload: { name: "doomed" }, maxAttempts: 2 });
+
+    await worker.runNext(repository.jobs.get(job.id)!.runAt);
+    await worker.runNext(repository.jobs.get(job.id)!.runAt);
+
+    assert.equal(repository.jobs.get(job.id)!.status, JobStatus.DEAD);
+    assert.deepEqual(handler.deadLettered, [["doomed", "receiver unavailable"]]);
+    assert.equal(await worker.runNext(new Date(Date.now() + 60_000)), false);
+  });
+
+  test("claims a job again once its worker's lock went stale", async () => {
+    const job = await repository.enqueue({ type: "test.job", payload: { name: "abandoned" } });
+    const lockedAt = new Date();
+    await repository.claimNext(["test.job"], lockedAt, lockedAt);
+
+    // Still locked by the worker that claimed it
+    assert.equal(await worker.runNext(new Date(lockedAt.getTime() + 30_000)), false);
+
+    assert.equal(await worker.runNext(new Date(lockedAt.getTime() + 61_000)), true);
+    assert.deepEqual(handler.handled, ["abandoned"]);
+    assert.equal(repository.jobs.get(job.id)!.attempts, 2);
+  });
+
+  test("dead-letters a stale job that already used its last attempt", async () => {
+    const job = await repository.enqueue({ type: "test.job", payload: { name: "crashed" }, maxAttempts: 1 });
+    const lockedAt = new Date();
+    await repository.claimNext(["test.job"], lockedAt, lockedAt);
+
+    assert.equal(await worker.runNext(new Date(lockedAt.getTime() + 61_000)), false);
+
+    assert.deepEqual(handler.handled, []);
+    assert.equal(repository.jobs.get(job.id)!.status, JobStatus.DEAD);
+    assert.deepEqual(handler.deadLettered, [["crashed", "Worker stopped before finishing the job"]]);
+  });
+});
+
+function assertDelays(actual: number[], expected: number[]): void {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((delay, i) => {
+    // Allow for the time the test itself took
+    assert.ok(delay <= expected[i]! && delay > expected[i]! - 500, `${delay} != ${expected[i]}`);
+  });
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildMockSteps,
+  MockTranscriptionProvider,
+  parseMockScript,
+} from "../src/infrastructure/transcription/MockTranscriptionProvider.js";
+import type { ITranscriptionResult } from "../src/domain/repositories/ITranscriptionProvider.js";
+import { AudioConfig } from "../src/domain/value-objects/AudioConfig.js";
+import type { ILogger } from "../src/use-cases/interfaces/ILogger.js";
+
+const logger: ILogger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+};
+
+const audioConfig = new AudioConfig({ sampleRate: 16000, channels: 1, format: "pcm_s16le" });
+const audio = new Uint8Array([1, 2, 3, 4]);
+
+async function connect(script: unknown) {
+  const provider = new MockTranscriptionProvider("client", parseMockScript(script), logger);
+  const results: ITranscriptionResult[] = [];
+  await provider.connect(audioConfig, (result) => results.push(result), () => {});
+  return { provider, results };
+}
+
+// Steps are scheduled one after another, so time advances in small ticks
+function advance(ms: number): void {
+  for (let elapsed = 0; elapsed < ms; elapsed += 100) {
+    mock.timers.tick(100);
+  }
+}
+
+function text(result: ITranscriptionResult): string {
+  return result.tokens.map((token) => token.text).join("");
+}
+
+describe("MockTranscriptionProvider", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test("replays utterances as growing partials and a final that ends them", async () => {
+    const { provider, results } = await connect({
+      utterances: [{ text: "hello there", speaker: "1" }],
+      loop: false,
+    });
+
+    provider.sendAudio(audio);
+    advance(10_000);
+
+    assert.deepEqual(
+      results.map((result) => [text(result), result.is_final, Boolean(result.utterance_end)]),
+      [
+        [" hello", false, false],
+        [" hello there", false, false],
+        [" hello there", true, true],
+      ]
+    );
+    assert.equal(results[2]!.speaker, "1");
+  });
+
+  test("waits for audio before playing", async () => {
+    const { results } = await connect({ utterances: [{ text: "hello" }], loop: false });
+
+    advance(10_000);
+
+    assert.equal(results.length, 0);
+  });
+
+  test("halts while paused", async () => {
+    const { provider, results } = await connect({ utterances: [{ text: "one two three" }], loop: false });
+
+    provider.sendAudio(audio);
+    advance(buildMockSteps([{ text: "one" }])[0]!.delay_ms);
+    provider.pause();
+    advance(10_000);
+    assert.equal(results.length, 1);
+
+    provider.resume();
+    provider.sendAudio(audio);
+    advance(10_000);
+    assert.equal(results.at(-1)?.is_final, true);
+  });
+
+  test("finalizes the pending partial on close", async () => {
+    const { provider, results } = await connect({ utterances: [{ text: "one two" }], loop: false });
+
+    provider.sendAudio(audio);
+    advance(buildMockSteps([{ text: "one" }])[0]!.delay_ms);
+    await provider.close();
+
+    assert.equal(results.length, 2);
+    assert.equal(text(results[1]!), " one");
+    assert.equal(results[1]!.is_final, true);
+    assert.equal(results[1]!.utterance_end, true);
+  });
+
+  test("ends the utterance on close when nothing is pending", async () => {
+    const { provider, results } = await connect({ utterances: [{ text: "hi" }], loop: false });
+
+    provider.sendAudio(audio);
+    advance(10_000);
+    await provider.close();
+
+    const last = results.at(-1)!;
+    assert.deepEqual([last.tokens, last.is_final, last.utterance_end], [[], true, true]);
+  });
+
+  test("shifts timestamps forward when looping", async () => {
+    const { provider, results } = await connect({ utterances: [{ text: "hi" }], loop: true });
+
+    provider.sendAudio(audio);
+    advance(10_000);
+
+    const finals = results.filter((result) => result.is_final);
+    assert.ok(finals.length >= 2);
+    assert.ok(finals[1]!.tokens[0]!.start_ms > finals[0]!.tokens[0]!.end_ms);
+  });
+});
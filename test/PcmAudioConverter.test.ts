@@ -0,0 +1,118 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AudioConfig, type AudioEncoding } from "../src/domain/value-objects/AudioConfig.js";
+import { PcmAudioConverter } from "../src/infrastructure/audio/PcmAudioConverter.js";
+
+function config(format: AudioEncoding, sampleRate: number, channels = 1): AudioConfig {
+  return new AudioConfig({ format, sampleRate, channels });
+}
+
+function int16(samples: number[]): Uint8Array {
+  return new Uint8Array(Int16Array.from(samples).buffer);
+}
+
+function readInt16(bytes: Uint8Array): number[] {
+  return [...new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2)];
+}
+
+function float32(samples: number[]): Uint8Array {
+  return new Uint8Array(Float32Array.from(samples).buffer);
+}
+
+function readFloat32(bytes: Uint8Array): number[] {
+  return [...new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4)];
+}
+
+function assertClose(actual: number[], expected: number[], tolerance: number): void {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((value, i) => {
+    assert.ok(Math.abs(value - expected[i]!) <= tolerance, `sample ${i}: ${value} != ${expected[i]}`);
+  });
+}
+
+function sine(frequency: number, sampleRate: number, frames: number): number[] {
+  return Array.from({ length: frames }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+function rms(samples: number[]): number {
+  return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+}
+
+describe("PcmAudioConverter", () => {
+  test("passes audio through unchanged when the formats match", () => {
+    const chunk = int16([1, 2, 3]);
+    const converter = new PcmAudioConverter(config("pcm_s16le", 16000), config("pcm_s16le", 16000));
+
+    assert.equal(converter.convert(chunk), chunk);
+  });
+
+  test("downmixes stereo by averaging the channels", () => {
+    const converter = new PcmAudioConverter(config("pcm_s16le", 16000, 2), config("pcm_s16le", 16000));
+
+    assertClose(readInt16(converter.convert(int16([1000, 3000, -2000, 0]))), [2000, -1000], 1);
+  });
+
+  test("upmixes mono by duplicating the channel", () => {
+    const converter = new PcmAudioConverter(config("pcm_s16le", 16000), config("pcm_s16le", 16000, 2));
+
+    assertClose(readInt16(converter.convert(int16([1000, -500]))), [1000, 1000, -500, -500], 1);
+  });
+
+  test("keeps an incomplete frame for the next chunk", () => {
+    const converter = new PcmAudioConverter(config("pcm_s16le", 16000, 2), config("pcm_s16le", 16000));
+    const bytes = int16([1000, 3000, -2000, 0]);
+
+    const first = converter.convert(bytes.subarray(0, 5));
+    const second = converter.convert(bytes.subarray(5));
+
+    assertClose(readInt16(first), [2000], 1);
+    assertClose(readInt16(second), [-1000], 1);
+  });
+
+  test("upsamples by interpolating between samples across chunks", () => {
+    const converter = new PcmAudioConverter(config("pcm_f32le", 8000), config("pcm_f32le", 16000));
+
+    const first = readFloat32(converter.convert(float32([0, 0.1, 0.2])));
+    const second = readFloat32(converter.convert(float32([0.3, 0.4])));
+
+    assertClose([...first, ...second], [0, 0.05, 0.1, 0.15, 0.2, 0.25, 0.3, 0.35], 1e-6);
+  });
+
+  test("downsamples to the output rate over a stream of chunks", () => {
+    const converter = new PcmAudioConverter(config("pcm_f32le", 48000), config("pcm_f32le", 16000));
+    const input = sine(440, 48000, 4800);
+
+    const output: number[] = [];
+    for (let start = 0; start < input.length; start += 480) {
+      output.push(...readFloat32(converter.convert(float32(input.slice(start, start + 480)))));
+    }
+
+    assert.ok(Math.abs(output.length - 1600) <= 1, `${output.length} frames`);
+    // Speech frequencies keep their level
+    assert.ok(Math.abs(rms(output.slice(400)) - rms(input)) < 0.02);
+  });
+
+  test("filters out frequencies above the new Nyquist rate", () => {
+    const converter = new PcmAudioConverter(config("pcm_f32le", 48000), config("pcm_f32le", 16000));
+    const input = sine(15000, 48000, 4800);
+
+    const output = readFloat32(converter.convert(float32(input)));
+
+    // A 15 kHz tone would alias to 1 kHz at 16 kHz
+    assert.ok(rms(output.slice(400)) < rms(input) * 0.1);
+  });
+
+  test("encodes and decodes mu-law within its quantization error", () => {
+    const encoder = new PcmAudioConverter(config("pcm_s16le", 8000), config("mulaw", 8000));
+    const decoder = new PcmAudioConverter(config("mulaw", 8000), config("pcm_s16le", 8000));
+    const samples = [0, 100, -1000, 8000, -30000];
+
+    const encoded = encoder.convert(int16(samples));
+    assert.equal(encoded.length, samples.length);
+
+    readInt16(decoder.convert(encoded)).forEach((value, i) => {
+      const expected = samples[i]!;
+      assert.ok(Math.abs(value - expected) <= Math.max(8, Math.abs(expected) * 0.05), `${value} != ${expected}`);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { TranscriptionSession } from "../src/domain/entities/TranscriptionSession.js";
+import { ForbiddenError } from "../src/domain/errors/ForbiddenError.js";
+import { NotFoundError } from "../src/domain/errors/NotFoundError.js";
+import type { IOrganizationMembership } from "../src/domain/repositories/IMembershipRepository.js";
+import type { ITranscriptSummary } from "../src/domain/repositories/ISummaryRepository.js";
+import { RegenerateTranscriptSummary } from "../src/use-cases/summary/RegenerateTranscriptSummary.js";
+import { SummarizeSession } from "../src/use-cases/summary/SummarizeSession.js";
+import { TranscriptionAccessPolicy } from "../src/use-cases/transcription/TranscriptionAccessPolicy.js";
+import { InMemoryTranscriptionRepository } from "./support/InMemoryTranscriptionRepository.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+const MEMBERSHIPS: Record<string, IOrganizationMembership[]> = {
+  admin: [{ organizationId: "org", role: "admin" }],
+  member: [{ organizationId: "org", role: "member" }],
+};
+
+describe("RegenerateTranscriptSummary", () => {
+  let repository: InMemoryTranscriptionRepository;
+  let saved: ITranscriptSummary[];
+  let regenerate: RegenerateTranscriptSummary;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    repository = new InMemoryTranscriptionRepository();
+    saved = [];
+    regenerate = new RegenerateTranscriptSummary(
+      repository,
+      new TranscriptionAccessPolicy({
+        findByUserId: async (userId) => MEMBERSHIPS[userId] ?? [],
+      }),
+      new SummarizeSession(
+        repository,
+        {
+          findBySessionId: async () => null,
+          save: async (summary) => {
+            saved.push(summary);
+          },
+        },
+        {
+          name: "stub",
+          summarize: async () => ({ summary: "Renewal agreed", actionItems: [], decisions: [] }),
+        },
+        silentLogger
+      )
+    );
+
+    const session = TranscriptionSession.create("socket", { userId: "owner", organizationId: "org" });
+    session.markStopped();
+    sessionId = session.id.toString();
+    await repository.save(session);
+  });
+
+  test("regenerates the summary for the session owner", async () => {
+    const result = await regenerate.execute("owner", sessionId);
+
+    assert.equal(result.summary.summary, "Renewal agreed");
+    assert.deepEqual(
+      saved.map((summary) => summary.sessionId),
+      [sessionId]
+    );
+  });
+
+  test("regenerates the summary for an organization admin", async () => {
+    await regenerate.execute("admin", sessionId);
+
+    assert.equal(saved.length, 1);
+  });
+
+  test("refuses members who may only view the session", async () => {
+    await assert.rejects(regenerate.execute("member", sessionId), ForbiddenError);
+    assert.equal(saved.length, 0);
+  });
+
+  test("hides the session from users outside its organization", async () => {
+    await assert.rejects(regenerate.execute("stranger", sessionId), NotFoundError);
+    assert.equal(saved.length, 0);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  TranscriptionSession,
+  type ITranscriptionToken,
+} from "../src/domain/entities/TranscriptionSession.js";
+import { SearchTranscriptions } from "../src/use-cases/transcription/SearchTranscriptions.js";
+import { TranscriptionAccessPolicy } from "../src/use-cases/transcription/TranscriptionAccessPolicy.js";
+import { InMemoryTranscriptionRepository } from "./support/InMemoryTranscriptionRepository.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+function tokens(pieces: Array<[string, number, string?]>): ITranscriptionToken[] {
+  return pieces.map(([text, start_ms, speaker = "1"]) => ({
+    text,
+    confidence: 1,
+    start_ms,
+    end_ms: start_ms + 100,
+    speaker,
+  }));
+}
+
+describe("SearchTranscriptions", () => {
+  let repository: InMemoryTranscriptionRepository;
+  let search: SearchTranscriptions;
+
+  async function store(pieces: Array<[string, number, string?]>): Promise<string> {
+    const session = TranscriptionSession.create("socket", { userId: "user", organizationId: null });
+    const sessionId = session.id.toString();
+    await repository.save(session);
+    await repository.appendTokens(sessionId, 0, tokens(pieces));
+    return sessionId;
+  }
+
+  beforeEach(() => {
+    repository = new InMemoryTranscriptionRepository();
+    search = new SearchTranscriptions(
+      repository,
+      new TranscriptionAccessPolicy({ findByUserId: async () => [] }),
+      silentLogger
+    );
+  });
+
+  test("matches a word split over several tokens as a whole", async () => {
+    const sessionId = await store([
+      [" The", 0],
+      [" renew", 100],
+      ["al", 200],
+      [" is", 300],
+      [" due.", 400],
+      [" Re", 500, "2"],
+      ["new", 600, "2"],
+      ["al,", 700, "2"],
+      [" yes", 800, "2"],
+    ]);
+
+    const result = await search.execute({ userId: "user", query: "renewal", limit: 10, offset: 0 });
+
+    assert.equal(result.total, 1);
+    assert.equal(result.items[0]!.session.id.toString(), sessionId);
+    assert.deepEqual(result.items[0]!.matches, [
+      { text: "renewal", start_ms: 100, end_ms: 300, speaker: "1" },
+      { text: "Renewal,", start_ms: 500, end_ms: 800, speaker: "2" },
+    ]);
+  });
+
+  test("does not match a word that only contains the term", async () => {
+    await store([
+      [" renew", 0],
+      ["als", 100],
+      [" renewal", 200],
+    ]);
+
+    const result = await search.execute({ userId: "user", query: "renewal", limit: 10, offset: 0 });
+
+    assert.deepEqual(
+      result.items[0]!.matches.map((match) => [match.text, match.start_ms]),
+      [["renewal", 200]]
+    );
+  });
+});
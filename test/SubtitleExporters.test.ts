@@ -0,0 +1,86 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  ITranscriptCue,
+  ITranscriptDocument,
+} from "../src/domain/repositories/ITranscriptExporter.js";
+import { formatOffset, formatTimestamp } from "../src/infrastructure/export/formatTimestamp.js";
+import { SrtExporter } from "../src/infrastructure/export/SrtExporter.js";
+import { WebVttExporter } from "../src/infrastructure/export/WebVttExporter.js";
+
+function document(cues: ITranscriptCue[], languages: string[] = ["en"]): ITranscriptDocument {
+  return {
+    sessionId: "session",
+    startedAt: new Date("2026-01-01T00:00:00Z"),
+    durationMs: 0,
+    text: "",
+    cues,
+    turns: cues,
+    speakers: [],
+    languages,
+    segments: [],
+    tokens: [],
+  };
+}
+
+describe("formatTimestamp", () => {
+  test("pads hours, minutes, seconds and milliseconds", () => {
+    assert.equal(formatTimestamp(0, ","), "00:00:00,000");
+    assert.equal(formatTimestamp(3_723_004, ","), "01:02:03,004");
+    assert.equal(formatTimestamp(3_723_004, "."), "01:02:03.004");
+  });
+
+  test("rounds fractional milliseconds and clamps negative times", () => {
+    assert.equal(formatTimestamp(999.6, "."), "00:00:01.000");
+    assert.equal(formatTimestamp(-250, "."), "00:00:00.000");
+  });
+
+  test("keeps counting hours past a day", () => {
+    assert.equal(formatTimestamp(100 * 3_600_000, ","), "100:00:00,000");
+  });
+});
+
+describe("formatOffset", () => {
+  test("shows hours only when there are any", () => {
+    assert.equal(formatOffset(307_000), "05:07");
+    assert.equal(formatOffset(3_723_999), "1:02:03");
+  });
+});
+
+describe("SrtExporter", () => {
+  test("numbers cues and prefixes the speaker", () => {
+    const rendered = new SrtExporter().render(
+      document([
+        { start_ms: 0, end_ms: 1_500, text: "Hello there", lines: ["Hello", "there"], speaker: "Alice" },
+        { start_ms: 61_000, end_ms: 62_250, text: "Hi", lines: ["Hi"] },
+      ])
+    );
+
+    assert.equal(
+      rendered,
+      "1\n00:00:00,000 --> 00:00:01,500\nAlice: Hello\nthere\n\n" +
+        "2\n00:01:01,000 --> 00:01:02,250\nHi\n"
+    );
+  });
+});
+
+describe("WebVttExporter", () => {
+  test("writes a header, voice spans and escaped cue text", () => {
+    const rendered = new WebVttExporter().render(
+      document([{ start_ms: 500, end_ms: 2_000, text: "a < b", lines: ["a < b"], speaker: "Bob" }])
+    );
+
+    assert.equal(rendered, "WEBVTT\n\n00:00:00.500 --> 00:00:02.000\n<v Bob>a &lt; b\n");
+  });
+
+  test("marks cue languages once the transcript mixes them", () => {
+    const rendered = new WebVttExporter().render(
+      document(
+        [{ start_ms: 0, end_ms: 1_000, text: "Hola", lines: ["Hola"], language: "es" }],
+        ["en", "es"]
+      )
+    );
+
+    assert.equal(rendered, "WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<lang es>Hola</lang>\n");
+  });
+});
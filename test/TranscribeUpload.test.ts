@@ -0,0 +1,91 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  TranscriptionSession,
+  type ISessionOptions,
+  type ISessionOwner,
+} from "../src/domain/entities/TranscriptionSession.js";
+import { CapacityExceededError } from "../src/domain/errors/CapacityExceededError.js";
+import {
+  TranscribeUpload,
+  type IAudioUpload,
+  type ITranscriptionPipeline,
+} from "../src/use-cases/batch/TranscribeUpload.js";
+import { UploadProgressRegistry } from "../src/use-cases/batch/UploadProgressRegistry.js";
+import type { ProcessAudioChunk } from "../src/use-cases/transcription/ProcessAudioChunk.js";
+import type { StartTranscription } from "../src/use-cases/transcription/StartTranscription.js";
+import type { StopTranscription } from "../src/use-cases/transcription/StopTranscription.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+const OWNER: ISessionOwner = { userId: "user", organizationId: null };
+
+// 100ms of 16 kHz mono PCM16, fed as a single chunk
+const UPLOAD: IAudioUpload = {
+  data: new Uint8Array(3_200),
+  container: "raw",
+  audio: { sampleRate: "16000", channels: "1", format: "pcm_s16le" },
+};
+
+describe("TranscribeUpload", () => {
+  let releaseFeeds: () => void;
+  let feedsHeld: Promise<void>;
+  let stopped: Promise<void>;
+  let upload: TranscribeUpload;
+
+  beforeEach(() => {
+    feedsHeld = new Promise((resolve) => (releaseFeeds = resolve));
+    let markStopped: () => void;
+    stopped = new Promise((resolve) => (markStopped = resolve));
+
+    // Audio is held until the test releases it
+    const pipeline: ITranscriptionPipeline = {
+      start: {
+        execute: async (socketId: string, owner: ISessionOwner, options: ISessionOptions) => {
+          const session = TranscriptionSession.create(socketId, owner, options);
+          session.activate();
+          return session;
+        },
+      } as unknown as StartTranscription,
+      processAudioChunk: {
+        execute: () => feedsHeld,
+      } as unknown as ProcessAudioChunk,
+      stop: {
+        execute: async (session: TranscriptionSession) => {
+          session.markStopped();
+          markStopped();
+          return session;
+        },
+      } as unknown as StopTranscription,
+    };
+    upload = new TranscribeUpload(async () => pipeline, new UploadProgressRegistry(), 1, silentLogger);
+  });
+
+  test("refuses uploads beyond the limit until one finishes", async () => {
+    const progress = await upload.execute(OWNER, UPLOAD);
+    assert.equal(progress.status, "processing");
+
+    assert.throws(() => upload.assertCapacity(), CapacityExceededError);
+    await assert.rejects(upload.execute(OWNER, UPLOAD), CapacityExceededError);
+
+    releaseFeeds();
+    await stopped;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(progress.status, "completed");
+    upload.assertCapacity();
+  });
+
+  test("frees the slot of an upload that failed to start", async () => {
+    const failing = new TranscribeUpload(
+      async () => {
+        throw new Error("provider unavailable");
+      },
+      new UploadProgressRegistry(),
+      1,
+      silentLogger
+    );
+
+    await assert.rejects(failing.execute(OWNER, UPLOAD), /provider unavailable/);
+    failing.assertCapacity();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { TranscriptRedactor } from "../src/use-cases/redaction/TranscriptRedactor.js";
+import type { IRedactionSettings } from "../src/domain/repositories/IOrganizationSettingsRepository.js";
+import type { ITranscriptionResult } from "../src/domain/repositories/ITranscriptionProvider.js";
+
+const settings: IRedactionSettings = {
+  entities: ["phone_number", "email"],
+  mode: "tag",
+  keepOriginal: true,
+};
+
+let clock = 0;
+
+function result(
+  words: string[],
+  options: { is_final: boolean; utterance_end?: boolean }
+): ITranscriptionResult {
+  return {
+    tokens: words.map((text) => ({
+      text,
+      confidence: 0.9,
+      start_ms: clock,
+      end_ms: (clock += 100),
+    })),
+    speaker: "1",
+    ...options,
+  };
+}
+
+function text(result: ITranscriptionResult): string {
+  return result.tokens.map((token) => token.text).join("");
+}
+
+describe("TranscriptRedactor", () => {
+  test("redacts a phone number finalized across two results", () => {
+    const redactor = new TranscriptRedactor(settings);
+
+    const first = redactor.redactResult(
+      result([" Call", " me", " at", " 555"], { is_final: true })
+    );
+    const second = redactor.redactResult(
+      result([" 123", " 4567", " please."], { is_final: true, utterance_end: true })
+    );
+
+    // The first half is held back and shown as a partial
+    assert.equal(first.result.is_final, false);
+    assert.deepEqual(first.redactions, []);
+
+    assert.equal(second.result.is_final, true);
+    assert.equal(second.result.utterance_end, true);
+    assert.equal(text(second.result), " Call me at [PHONE_NUMBER] please.");
+    assert.deepEqual(second.redactions, [
+      { index: 3, entity: "phone_number", original_text: " 555 123 4567" },
+    ]);
+
+    const phone = second.result.tokens[3]!;
+    assert.equal(phone.redacted, "phone_number");
+    assert.equal(phone.speaker, "1");
+    assert.equal(phone.end_ms - phone.start_ms, 300);
+  });
+
+  test("hides held finals and the partial after them as one text", () => {
+    const redactor = new TranscriptRedactor(settings);
+
+    redactor.redactResult(result([" mail", " jane.doe@"], { is_final: true }));
+    const partial = redactor.redactResult(
+      result(["example.com", " now"], { is_final: false })
+    );
+
+    assert.equal(partial.result.is_final, false);
+    assert.equal(text(partial.result), " mail [EMAIL] now");
+  });
+
+  test("releases held finals when the utterance ends without tokens", () => {
+    const redactor = new TranscriptRedactor(settings);
+
+    redactor.redactResult(result([" hello", " there"], { is_final: true }));
+    const end = redactor.redactResult(result([], { is_final: true, utterance_end: true }));
+
+    assert.equal(end.result.is_final, true);
+    assert.equal(text(end.result), " hello there");
+
+    const next = redactor.redactResult(result([" bye"], { is_final: true, utterance_end: true }));
+    assert.equal(text(next.result), " bye");
+  });
+
+  test("passes results through when nothing is redacted", () => {
+    const redactor = new TranscriptRedactor(null);
+    const final = result([" 555", " 123", " 4567"], { is_final: true });
+
+    assert.deepEqual(redactor.redactResult(final), { result: final, redactions: [] });
+  });
+
+  test("masks characters but keeps separators", () => {
+    const redactor = new TranscriptRedactor({ ...settings, mode: "mask", keepOriginal: false });
+
+    const { tokens, redactions } = redactor.redact(
+      result([" call", " 555-123-4567"], { is_final: true }).tokens
+    );
+
+    assert.equal(tokens.map((token) => token.text).join(""), " call ***-***-****");
+    assert.deepEqual(redactions, [{ index: 1, entity: "phone_number", original_text: null }]);
+  });
+});
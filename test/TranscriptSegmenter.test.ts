@@ -0,0 +1,136 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { IExportToken } from "../src/domain/repositories/ITranscriptExporter.js";
+import { TranscriptSegmenter, wrapText } from "../src/use-cases/export/TranscriptSegmenter.js";
+
+function tokens(pieces: Array<[string, number, string?, number?]>): IExportToken[] {
+  return pieces.map(([text, start_ms, speaker = "1", segment = 0]) => ({
+    text,
+    start_ms,
+    end_ms: start_ms + 100,
+    speaker,
+    segment,
+  }));
+}
+
+describe("TranscriptSegmenter", () => {
+  const segmenter = new TranscriptSegmenter();
+
+  test("keeps continuous speech of one speaker in one cue", () => {
+    const cues = segmenter.segment(tokens([[" Hello", 0], [" there", 100]]));
+
+    assert.deepEqual(cues, [
+      { start_ms: 0, end_ms: 200, text: "Hello there", lines: ["Hello there"], speaker: "1", language: undefined },
+    ]);
+  });
+
+  test("starts a new cue on a speaker change and an utterance end", () => {
+    const cues = segmenter.segment(
+      tokens([
+        [" Hi", 0, "1", 0],
+        [" hello", 100, "2", 0],
+        [" again", 200, "2", 1],
+      ])
+    );
+
+    assert.deepEqual(
+      cues.map((cue) => [cue.speaker, cue.text]),
+      [
+        ["1", "Hi"],
+        ["2", "hello"],
+        ["2", "again"],
+      ]
+    );
+  });
+
+  test("starts a new cue after a pause", () => {
+    const cues = segmenter.segment(tokens([[" Before", 0], [" after", 900]]));
+
+    assert.deepEqual(
+      cues.map((cue) => cue.text),
+      ["Before", "after"]
+    );
+  });
+
+  test("never breaks a cue inside a word split over tokens", () => {
+    // "al" arrives after a pause but continues "renew"
+    const cues = segmenter.segment(tokens([[" The", 0], [" renew", 100], ["al", 1_500]]));
+
+    assert.deepEqual(
+      cues.map((cue) => cue.text),
+      ["The renewal"]
+    );
+  });
+
+  test("splits cues that would stay on screen too long", () => {
+    // Short pauses between words, 13.4s in all
+    const words = Array.from({ length: 20 }, (_, i): [string, number] => [` w${i}`, i * 700]);
+    const cues = segmenter.segment(tokens(words));
+
+    assert.deepEqual(
+      cues.map((cue) => [cue.start_ms, cue.end_ms]),
+      [
+        [0, 6_400],
+        [7_000, 13_400],
+      ]
+    );
+  });
+
+  test("splits cues longer than their lines allow and wraps them", () => {
+    const segmenter = new TranscriptSegmenter({ maxLineLength: 10, maxLinesPerCue: 2 });
+    const words = ["one", "two", "three", "four", "five", "six"].map(
+      (word, i): [string, number] => [` ${word}`, i * 100]
+    );
+    const cues = segmenter.segment(tokens(words));
+
+    assert.deepEqual(
+      cues.map((cue) => cue.lines),
+      [
+        ["one two", "three four"],
+        ["five six"],
+      ]
+    );
+  });
+
+  test("labels a cue with its most spoken language", () => {
+    const cues = segmenter.segment([
+      { text: " Hola", start_ms: 0, end_ms: 100, language: "es" },
+      { text: " amigo", start_ms: 100, end_ms: 200, language: "es" },
+      { text: " yes", start_ms: 200, end_ms: 300, language: "en" },
+    ]);
+
+    assert.equal(cues[0]!.language, "es");
+  });
+
+  test("merges consecutive cues of a speaker into turns", () => {
+    const cues = segmenter.segment(
+      tokens([
+        [" One", 0, "1", 0],
+        [" two", 100, "1", 1],
+        [" three", 200, "2", 1],
+      ])
+    );
+
+    assert.deepEqual(
+      segmenter.groupTurns(cues).map((turn) => [turn.speaker, turn.text, turn.end_ms]),
+      [
+        ["1", "One two", 200],
+        ["2", "three", 300],
+      ]
+    );
+  });
+});
+
+describe("wrapText", () => {
+  test("fills lines greedily up to the length limit", () => {
+    assert.deepEqual(wrapText("the quick brown fox jumps", 10), ["the quick", "brown fox", "jumps"]);
+  });
+
+  test("keeps a word longer than a line whole", () => {
+    assert.deepEqual(wrapText("a supercalifragilistic word", 10), ["a", "supercalifragilistic", "word"]);
+  });
+
+  test("returns no lines for empty text", () => {
+    assert.deepEqual(wrapText("", 10), []);
+  });
+});
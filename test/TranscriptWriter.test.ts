@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { TranscriptionSession } from "../src/domain/entities/TranscriptionSession.js";
+import { TranscriptWriter } from "../src/use-cases/transcription/TranscriptWriter.js";
+import { InMemoryTranscriptionRepository } from "./support/InMemoryTranscriptionRepository.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+// Lets chained writes and the appends they await settle
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("TranscriptWriter", () => {
+  let repository: InMemoryTranscriptionRepository;
+  let writer: TranscriptWriter;
+  let session: TranscriptionSession;
+
+  function speak(count: number): void {
+    for (let i = 0; i < count; i++) {
+      const start_ms = session.results.length * 100;
+      session.addResult({ text: ` w${session.results.length}`, confidence: 1, start_ms, end_ms: start_ms + 100 });
+    }
+    writer.record(session);
+  }
+
+  function appended(): Array<[number, number]> {
+    return repository.appendCalls.map((call) => [call.firstSeq, call.tokens.length]);
+  }
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    repository = new InMemoryTranscriptionRepository();
+    writer = new TranscriptWriter(repository, silentLogger);
+    session = TranscriptionSession.create("socket", { userId: "user", organizationId: null });
+    session.activate();
+    await repository.save(session);
+    writer.begin(session);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test("stores a full batch right away", async () => {
+    speak(20);
+    await settle();
+
+    assert.deepEqual(appended(), [[0, 20]]);
+  });
+
+  test("stores a partial batch once the delay has passed", async () => {
+    speak(3);
+    mock.timers.tick(1_999);
+    await settle();
+    assert.deepEqual(appended(), []);
+
+    mock.timers.tick(1);
+    await settle();
+    assert.deepEqual(appended(), [[0, 3]]);
+  });
+
+  test("chains writes so batches are stored in order", async () => {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    repository.beforeAppend = async (call) => {
+      if (call.firstSeq === 0) {
+        await held;
+      }
+    };
+
+    speak(20);
+    await settle();
+    // Tokens arriving while the first batch is being stored wait for it
+    speak(20);
+    speak(5);
+    void writer.flush();
+    await settle();
+    assert.deepEqual(appended(), []);
+
+    release();
+    await writer.flush();
+    assert.deepEqual(appended(), [
+      [0, 20],
+      [20, 25],
+    ]);
+    assert.deepEqual(
+      repository.tokens.get(session.id.toString())!.map((token) => token.text),
+      session.results.map((token) => token.text)
+    );
+  });
+
+  test("stores the remaining tokens on end and stops writing", async () => {
+    speak(3);
+    await writer.end(session);
+    assert.deepEqual(appended(), [[0, 3]]);
+
+    speak(2);
+    mock.timers.tick(2_000);
+    await settle();
+    assert.deepEqual(appended(), [[0, 3]]);
+  });
+
+  test("retries a failed batch with the next one", async () => {
+    let failures = 1;
+    repository.beforeAppend = async () => {
+      if (failures-- > 0) {
+        throw new Error("database unavailable");
+      }
+    };
+
+    speak(20);
+    await settle();
+    assert.deepEqual(appended(), []);
+
+    speak(2);
+    await writer.end(session);
+    assert.deepEqual(appended(), [[0, 22]]);
+  });
+
+  test("fails on end when tokens could not be stored", async () => {
+    repository.beforeAppend = async () => {
+      throw new Error("database unavailable");
+    };
+
+    speak(3);
+    await assert.rejects(writer.end(session), /3 transcript tokens could not be stored/);
+  });
+
+  test("stores redactions with the batch holding their tokens", async () => {
+    speak(19);
+    session.addResult({ text: " ***", confidence: 1, start_ms: 1_900, end_ms: 2_000, redacted: "phone_number" });
+    session.addRedaction({ seq: 19, entity: "phone_number", start_ms: 1_900, end_ms: 2_000, original_text: " 555" });
+    writer.record(session);
+    await settle();
+
+    assert.deepEqual(
+      repository.appendCalls.map((call) => call.redactions.map((redaction) => redaction.seq)),
+      [[19]]
+    );
+  });
+});
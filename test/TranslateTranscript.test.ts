@@ -0,0 +1,155 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { TranscriptionSession } from "../src/domain/entities/TranscriptionSession.js";
+import type { ITranscriptionResult } from "../src/domain/repositories/ITranscriptionProvider.js";
+import type { ITranslationProvider } from "../src/domain/repositories/ITranslationProvider.js";
+import { StubTranslationProvider } from "../src/infrastructure/translation/StubTranslationProvider.js";
+import {
+  TranslateTranscript,
+  type ITranslationUpdate,
+} from "../src/use-cases/translation/TranslateTranscript.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+function result(text: string, start_ms: number, is_final = true): ITranscriptionResult {
+  return {
+    tokens: [{ text, confidence: 1, start_ms, end_ms: start_ms + 100 }],
+    is_final,
+  };
+}
+
+/**
+ * Stub translations that take longer for texts listed in `delays`, and
+ * fail for texts listed in `failures`
+ */
+class ScriptedTranslationProvider implements ITranslationProvider {
+  readonly delays = new Map<string, number>();
+  readonly failures = new Set<string>();
+  private stub = new StubTranslationProvider();
+
+  async translate(text: string, targetLanguage: string): Promise<string> {
+    await sleep(this.delays.get(text) ?? 0);
+    if (this.failures.has(text)) {
+      throw new Error("Translation service unavailable");
+    }
+    return this.stub.translate(text, targetLanguage);
+  }
+}
+
+describe("StubTranslationProvider", () => {
+  test("tags the source text with the target language", async () => {
+    assert.equal(await new StubTranslationProvider().translate("hello", "es"), "[es] hello");
+  });
+});
+
+describe("TranslateTranscript", () => {
+  let provider: ScriptedTranslationProvider;
+  let translate: TranslateTranscript;
+  let session: TranscriptionSession;
+  let updates: ITranslationUpdate[];
+
+  beforeEach(() => {
+    provider = new ScriptedTranslationProvider();
+    translate = new TranslateTranscript(provider, silentLogger);
+    session = TranscriptionSession.create(
+      "socket",
+      { userId: "user", organizationId: null },
+      { targetLanguages: ["es", "fr"] }
+    );
+    session.activate();
+    updates = [];
+    translate.start(session, (update) => updates.push(update));
+  });
+
+  test("emits a final translation per target language", async () => {
+    translate.handleResult(result("hello", 0));
+    await translate.flush();
+
+    assert.deepEqual(updates, [
+      { language: "es", source_text: "hello", start_ms: 0, end_ms: 100, text: "[es] hello", is_final: true },
+      { language: "fr", source_text: "hello", start_ms: 0, end_ms: 100, text: "[fr] hello", is_final: true },
+    ]);
+    assert.deepEqual(
+      session.translations.map((translation) => translation.text),
+      ["[es] hello", "[fr] hello"]
+    );
+  });
+
+  test("stores finals in transcript order even when an earlier one is slower", async () => {
+    provider.delays.set("first", 20);
+    translate.handleResult(result("first", 0));
+    translate.handleResult(result("second", 100));
+
+    // Nothing is stored while the first translation is still in flight
+    await sleep(5);
+    assert.equal(session.translations.length, 0);
+
+    await translate.flush();
+    assert.deepEqual(
+      session.translations
+        .filter((translation) => translation.language === "es")
+        .map((translation) => translation.text),
+      ["[es] first", "[es] second"]
+    );
+  });
+
+  test("emits partials without storing them", async () => {
+    translate.handleResult(result("hel", 0, false));
+    await sleep(5);
+
+    assert.deepEqual(
+      updates.map((update) => [update.language, update.text, update.is_final]),
+      [
+        ["es", "[es] hel", false],
+        ["fr", "[fr] hel", false],
+      ]
+    );
+    assert.equal(session.translations.length, 0);
+  });
+
+  test("drops a partial translation superseded by a newer result", async () => {
+    provider.delays.set("hel", 10);
+    translate.handleResult(result("hel", 0, false));
+    translate.handleResult(result("hello", 0));
+    await translate.flush();
+    await sleep(15);
+
+    assert.deepEqual(
+      updates.map((update) => update.text),
+      ["[es] hello", "[fr] hello"]
+    );
+  });
+
+  test("skips a failed translation and keeps translating", async () => {
+    provider.failures.add("first");
+    translate.handleResult(result("first", 0));
+    translate.handleResult(result("second", 100));
+    await translate.flush();
+
+    assert.deepEqual(
+      session.translations.map((translation) => translation.text),
+      ["[es] second", "[fr] second"]
+    );
+  });
+
+  test("does nothing for sessions without target languages", async () => {
+    const untranslated = TranscriptionSession.create("socket", { userId: "user", organizationId: null });
+    untranslated.activate();
+    translate.start(untranslated, (update) => updates.push(update));
+
+    translate.handleResult(result("hello", 0));
+    await translate.flush();
+
+    assert.equal(updates.length, 0);
+  });
+
+  test("drops translations still in flight when stopped", async () => {
+    provider.delays.set("hello", 10);
+    translate.handleResult(result("hello", 0));
+    translate.stop();
+    await sleep(15);
+
+    assert.equal(updates.length, 0);
+    assert.equal(session.translations.length, 0);
+  });
+});
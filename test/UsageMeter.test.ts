@@ -0,0 +1,91 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { TranscriptionSession } from "../src/domain/entities/TranscriptionSession.js";
+import { QuotaExceededError } from "../src/domain/errors/QuotaExceededError.js";
+import { UsageMeter } from "../src/use-cases/usage/UsageMeter.js";
+import { UsageQuotaPolicy } from "../src/use-cases/usage/UsageQuotaPolicy.js";
+import { InMemoryUsageRepository } from "./support/InMemoryUsageRepository.js";
+import { silentLogger } from "./support/silentLogger.js";
+
+// The default audio config is 48 kHz mono 16-bit PCM
+const BYTES_PER_SECOND = 96_000;
+const TEN_SECONDS = 10 * BYTES_PER_SECOND;
+
+describe("UsageMeter", () => {
+  let repository: InMemoryUsageRepository;
+  let quotaPolicy: UsageQuotaPolicy;
+
+  async function startSession(): Promise<{ meter: UsageMeter; session: TranscriptionSession }> {
+    const meter = new UsageMeter(repository, quotaPolicy, silentLogger);
+    const session = TranscriptionSession.create("socket", { userId: "user", organizationId: null });
+    await meter.begin(session);
+    return { meter, session };
+  }
+
+  beforeEach(() => {
+    repository = new InMemoryUsageRepository();
+    // One minute a month, shared by all of the user's sessions
+    quotaPolicy = new UsageQuotaPolicy(
+      repository,
+      { findByOrganizationId: async () => ({}) },
+      1
+    );
+  });
+
+  test("stores audio below the flush threshold when the session ends", async () => {
+    const { meter, session } = await startSession();
+
+    meter.record(session, TEN_SECONDS / 2);
+    assert.equal(repository.increments.length, 0);
+    await meter.end(session);
+
+    assert.deepEqual(
+      repository.increments.map((increment) => increment.audioMs),
+      [5_000]
+    );
+    assert.equal(session.audioDurationMs, 5_000);
+  });
+
+  test("rejects a session's audio once the limit is used up", async () => {
+    const { meter, session } = await startSession();
+
+    for (let i = 0; i < 6; i++) {
+      meter.record(session, TEN_SECONDS);
+    }
+
+    assert.throws(() => meter.record(session, TEN_SECONDS), QuotaExceededError);
+  });
+
+  test("counts what concurrent sessions of the same owner stored", async () => {
+    // Both sessions start while nothing is used yet
+    const first = await startSession();
+    const second = await startSession();
+
+    for (let i = 0; i < 4; i++) {
+      first.meter.record(first.session, TEN_SECONDS);
+      await first.meter.flush();
+    }
+
+    // The second session sees the first one's audio after its own write
+    for (let i = 0; i < 2; i++) {
+      second.meter.record(second.session, TEN_SECONDS);
+      await second.meter.flush();
+    }
+    assert.throws(() => second.meter.record(second.session, TEN_SECONDS), QuotaExceededError);
+
+    // The first session overshoots by at most one flush before it sees that
+    first.meter.record(first.session, TEN_SECONDS);
+    await first.meter.flush();
+    assert.throws(() => first.meter.record(first.session, TEN_SECONDS), QuotaExceededError);
+  });
+
+  test("refuses to begin a session once the quota is used up", async () => {
+    const { meter, session } = await startSession();
+    for (let i = 0; i < 6; i++) {
+      meter.record(session, TEN_SECONDS);
+    }
+    await meter.end(session);
+
+    await assert.rejects(startSession(), QuotaExceededError);
+  });
+});
@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import {
+  JobStatus,
+  type IJob,
+  type IJobQuery,
+  type IJobRepository,
+  type INewJob,
+  type JobStatusCounts,
+} from "../../src/domain/repositories/IJobRepository.js";
+import type { IPaginatedResult } from "../../src/domain/repositories/ITranscriptionRepository.js";
+
+/**
+ * Job queue kept in a map, claiming jobs by the same rules as the
+ * database repository
+ */
+export class InMemoryJobRepository implements IJobRepository {
+  readonly jobs = new Map<string, IJob>();
+
+  async enqueue(newJob: INewJob): Promise<IJob> {
+    const job: IJob = {
+      id: randomUUID(),
+      type: newJob.type,
+      payload: newJob.payload,
+      status: JobStatus.PENDING,
+      attempts: 0,
+      maxAttempts: newJob.maxAttempts ?? 5,
+      runAt: newJob.runAt ?? new Date(),
+      lockedAt: null,
+      lastError: null,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async claimNext(types: string[], now: Date, staleBefore: Date): Promise<IJob | null> {
+    const next = [...this.jobs.values()]
+      .filter(
+        (job) =>
+          types.includes(job.type) &&
+          ((job.status === JobStatus.PENDING && job.runAt <= now) ||
+            (job.status === JobStatus.RUNNING &&
+              job.lockedAt !== null &&
+              job.lockedAt < staleBefore &&
+              job.attempts < job.maxAttempts))
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+    if (!next) {
+      return null;
+    }
+
+    next.status = JobStatus.RUNNING;
+    next.attempts++;
+    next.lockedAt = now;
+    return { ...next };
+  }
+
+  async complete(jobId: string): Promise<void> {
+    this.set(jobId, { status: JobStatus.COMPLETED, lockedAt: null, completedAt: new Date() });
+  }
+
+  async retry(jobId: string, runAt: Date, error: string): Promise<void> {
+    this.set(jobId, { status: JobStatus.PENDING, runAt, lockedAt: null, lastError: error });
+  }
+
+  async deadLetter(jobId: string, error: string): Promise<void> {
+    this.set(jobId, { status: JobStatus.DEAD, lockedAt: null, lastError: error });
+  }
+
+  async deadLetterStale(types: string[], staleBefore: Date, error: string): Promise<IJob[]> {
+    const stale = [...this.jobs.values()].filter(
+      (job) =>
+        types.includes(job.type) &&
+        job.status === JobStatus.RUNNING &&
+        job.lockedAt !== null &&
+        job.lockedAt < staleBefore &&
+        job.attempts >= job.maxAttempts
+    );
+    for (const job of stale) {
+      this.set(job.id, { status: JobStatus.DEAD, lockedAt: null, lastError: error });
+    }
+    return stale.map((job) => ({ ...job }));
+  }
+
+  async requeue(jobId: string, runAt: Date): Promise<void> {
+    this.set(jobId, { status: JobStatus.PENDING, attempts: 0, runAt, lockedAt: null });
+  }
+
+  async findById(jobId: string): Promise<IJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async findMany(query: IJobQuery): Promise<IPaginatedResult<IJob>> {
+    const jobs = [...this.jobs.values()].filter(
+      (job) =>
+        (!query.status || job.status === query.status) && (!query.type || job.type === query.type)
+    );
+    return {
+      items: jobs.slice(query.offset, query.offset + query.limit).map((job) => ({ ...job })),
+      total: jobs.length,
+    };
+  }
+
+  async countByStatus(): Promise<JobStatusCounts> {
+    const counts = Object.fromEntries(
+      Object.values(JobStatus).map((status) => [status, 0])
+    ) as JobStatusCounts;
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+    return counts;
+  }
+
+  async deleteCompletedBefore(completedBefore: Date): Promise<number> {
+    let deleted = 0;
+    for (const job of this.jobs.values()) {
+      if (job.status === JobStatus.COMPLETED && job.completedAt! < completedBefore) {
+        this.jobs.delete(job.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private set(jobId: string, values: Partial<IJob>): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      Object.assign(job, values);
+    }
+  }
+}
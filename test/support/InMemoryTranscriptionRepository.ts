@@ -0,0 +1,208 @@
+import {
+  groupTokenWords,
+  joinTokenText,
+  rankLanguages,
+  TranscriptionSession,
+  type ITokenRedaction,
+  type ITranscriptionToken,
+} from "../../src/domain/entities/TranscriptionSession.js";
+import type {
+  IPaginatedResult,
+  IStoredRecording,
+  IStoredRedaction,
+  ITranscriptionAccessScope,
+  ITranscriptionListItem,
+  ITranscriptionQuery,
+  ITranscriptionRepository,
+  ITranscriptSearchHit,
+  ITranscriptSearchQuery,
+} from "../../src/domain/repositories/ITranscriptionRepository.js";
+
+export interface IAppendCall {
+  sessionId: string;
+  firstSeq: number;
+  tokens: ITranscriptionToken[];
+  redactions: ITokenRedaction[];
+}
+
+/**
+ * Sessions and their stored tokens kept in maps. Search matches sessions
+ * whose stored text contains every word of the query.
+ */
+export class InMemoryTranscriptionRepository implements ITranscriptionRepository {
+  readonly sessions = new Map<string, TranscriptionSession>();
+  readonly tokens = new Map<string, ITranscriptionToken[]>();
+  readonly redactions = new Map<string, IStoredRedaction[]>();
+  readonly appendCalls: IAppendCall[] = [];
+  // Called before each append; throw to fail it, await to hold it
+  beforeAppend: (call: IAppendCall) => Promise<void> = async () => {};
+
+  async save(session: TranscriptionSession): Promise<void> {
+    this.sessions.set(session.id.toString(), session);
+  }
+
+  async update(session: TranscriptionSession): Promise<void> {
+    this.sessions.set(session.id.toString(), session);
+  }
+
+  async appendTokens(
+    sessionId: string,
+    firstSeq: number,
+    tokens: ITranscriptionToken[],
+    redactions: ITokenRedaction[] = []
+  ): Promise<void> {
+    const call = { sessionId, firstSeq, tokens, redactions };
+    await this.beforeAppend(call);
+    this.appendCalls.push(call);
+
+    const stored = this.tokens.get(sessionId) ?? [];
+    tokens.forEach((token, index) => {
+      stored[firstSeq + index] ??= { ...token };
+    });
+    this.tokens.set(sessionId, stored);
+
+    const storedRedactions = this.redactions.get(sessionId) ?? [];
+    for (const redaction of redactions) {
+      if (!storedRedactions.some((stored) => stored.seq === redaction.seq)) {
+        storedRedactions.push({ ...redaction, redactedAt: new Date() });
+      }
+    }
+    this.redactions.set(sessionId, storedRedactions);
+  }
+
+  async findRedactions(sessionId: string): Promise<IStoredRedaction[]> {
+    return [...(this.redactions.get(sessionId) ?? [])].sort((a, b) => a.seq - b.seq);
+  }
+
+  async findById(sessionId: string): Promise<TranscriptionSession | null> {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  async findBySocketId(socketId: string): Promise<TranscriptionSession | null> {
+    return [...this.sessions.values()].find((session) => session.socketId === socketId) ?? null;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.tokens.delete(sessionId);
+    this.redactions.delete(sessionId);
+  }
+
+  async findByUserId(userId: string): Promise<TranscriptionSession[]> {
+    return [...this.sessions.values()].filter((session) => session.userId === userId);
+  }
+
+  async findByCallId(callId: string): Promise<TranscriptionSession[]> {
+    return [...this.sessions.values()].filter((session) => session.callId === callId);
+  }
+
+  async findMany(query: ITranscriptionQuery): Promise<IPaginatedResult<ITranscriptionListItem>> {
+    const sessions = this.visible(query.scope, query.organizationId).filter(
+      (session) => !query.status || session.status === query.status
+    );
+    return {
+      items: sessions.slice(query.offset, query.offset + query.limit).map((session) => this.toListItem(session)),
+      total: sessions.length,
+    };
+  }
+
+  async search(query: ITranscriptSearchQuery): Promise<IPaginatedResult<ITranscriptSearchHit>> {
+    const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+    const hits = this.visible(query.scope, query.organizationId)
+      .map((session) => ({ session, text: this.storedText(session.id.toString()) }))
+      .filter(({ text }) => words.every((word) => text.toLowerCase().includes(word)));
+
+    return {
+      items: hits
+        .slice(query.offset, query.offset + query.limit)
+        .map(({ session, text }) => ({ ...this.toListItem(session), snippet: text })),
+      total: hits.length,
+    };
+  }
+
+  async findMatchingWords(
+    sessionIds: string[],
+    words: string[],
+    limit: number
+  ): Promise<Map<string, ITranscriptionToken[]>> {
+    const matches = new Map<string, ITranscriptionToken[]>();
+    for (const sessionId of sessionIds) {
+      const matched = groupTokenWords(this.tokens.get(sessionId) ?? [])
+        .filter((word) =>
+          joinTokenText(word)
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .some((part) => words.includes(part))
+        )
+        .slice(0, limit);
+      if (matched.length > 0) {
+        matches.set(sessionId, matched.flat());
+      }
+    }
+    return matches;
+  }
+
+  async saveSpeakerName(sessionId: string, speakerId: string, name: string | null): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    if (name === null) {
+      delete session.speakerNames[speakerId];
+    } else {
+      session.speakerNames[speakerId] = name;
+    }
+  }
+
+  async findRecordingOrganizationIds(): Promise<(string | null)[]> {
+    return [
+      ...new Set(
+        [...this.sessions.values()]
+          .filter((session) => session.recordingKey !== null)
+          .map((session) => session.organizationId)
+      ),
+    ];
+  }
+
+  async findRecordingsEndedBefore(
+    organizationId: string | null,
+    endedBefore: Date,
+    limit: number
+  ): Promise<IStoredRecording[]> {
+    return [...this.sessions.values()]
+      .filter(
+        (session) =>
+          session.recordingKey !== null &&
+          session.organizationId === organizationId &&
+          session.endedAt !== undefined &&
+          session.endedAt < endedBefore
+      )
+      .slice(0, limit)
+      .map((session) => ({ sessionId: session.id.toString(), recordingKey: session.recordingKey! }));
+  }
+
+  async clearRecording(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.recordingKey = null;
+    }
+  }
+
+  private visible(scope: ITranscriptionAccessScope, organizationId?: string): TranscriptionSession[] {
+    return [...this.sessions.values()].filter(
+      (session) =>
+        (organizationId === undefined || session.organizationId === organizationId) &&
+        (session.userId === scope.userId ||
+          (session.organizationId !== null && scope.organizationIds.includes(session.organizationId)))
+    );
+  }
+
+  private storedText(sessionId: string): string {
+    return joinTokenText(this.tokens.get(sessionId) ?? []);
+  }
+
+  private toListItem(session: TranscriptionSession): ITranscriptionListItem {
+    const tokens = this.tokens.get(session.id.toString()) ?? [];
+    return { session, tokenCount: tokens.length, detectedLanguages: rankLanguages(tokens) };
+  }
+}
@@ -0,0 +1,45 @@
+import type {
+  IOrganizationUsage,
+  IUsageIncrement,
+  IUsageRepository,
+} from "../../src/domain/repositories/IUsageRepository.js";
+
+/**
+ * Keeps every recorded increment; totals are summed on read
+ */
+export class InMemoryUsageRepository implements IUsageRepository {
+  readonly increments: IUsageIncrement[] = [];
+
+  async record(increment: IUsageIncrement): Promise<void> {
+    this.increments.push(increment);
+  }
+
+  async getOrganizationUsage(organizationId: string, periodStart: Date): Promise<IOrganizationUsage> {
+    const byUser = new Map<string, number>();
+    for (const increment of this.inPeriod(periodStart)) {
+      if (increment.organizationId === organizationId) {
+        byUser.set(increment.userId, (byUser.get(increment.userId) ?? 0) + increment.audioMs);
+      }
+    }
+    const users = [...byUser]
+      .map(([userId, audioMs]) => ({ userId, audioMs }))
+      .sort((a, b) => b.audioMs - a.audioMs);
+    return {
+      organizationId,
+      audioMs: users.reduce((sum, user) => sum + user.audioMs, 0),
+      users,
+    };
+  }
+
+  async getPersonalUsageMs(userId: string, periodStart: Date): Promise<number> {
+    return this.inPeriod(periodStart)
+      .filter((increment) => increment.userId === userId && increment.organizationId === null)
+      .reduce((sum, increment) => sum + increment.audioMs, 0);
+  }
+
+  private inPeriod(periodStart: Date): IUsageIncrement[] {
+    return this.increments.filter(
+      (increment) => increment.periodStart.getTime() === periodStart.getTime()
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto";
+import {
+  WebhookDeliveryStatus,
+  type INewWebhookDelivery,
+  type INewWebhookEndpoint,
+  type IWebhookAttempt,
+  type IWebhookDelivery,
+  type IWebhookEndpoint,
+  type IWebhookRepository,
+} from "../../src/domain/repositories/IWebhookRepository.js";
+
+export class InMemoryWebhookRepository implements IWebhookRepository {
+  readonly endpoints = new Map<string, IWebhookEndpoint>();
+  readonly deliveries = new Map<string, IWebhookDelivery>();
+
+  async createEndpoint(endpoint: INewWebhookEndpoint): Promise<IWebhookEndpoint> {
+    const created = { ...endpoint, id: randomUUID(), createdAt: new Date() };
+    this.endpoints.set(created.id, created);
+    return created;
+  }
+
+  async findEndpointById(endpointId: string): Promise<IWebhookEndpoint | null> {
+    return this.endpoints.get(endpointId) ?? null;
+  }
+
+  async findEndpointsByOrganizationId(organizationId: string): Promise<IWebhookEndpoint[]> {
+    return [...this.endpoints.values()].filter(
+      (endpoint) => endpoint.organizationId === organizationId
+    );
+  }
+
+  async deleteEndpoint(endpointId: string): Promise<void> {
+    this.endpoints.delete(endpointId);
+  }
+
+  async createDelivery(delivery: INewWebhookDelivery): Promise<IWebhookDelivery> {
+    const created: IWebhookDelivery = {
+      ...delivery,
+      id: randomUUID(),
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      responseStatus: null,
+      lastError: null,
+      lastAttemptAt: null,
+      createdAt: new Date(),
+      deliveredAt: null,
+    };
+    this.deliveries.set(created.id, created);
+    return { ...created };
+  }
+
+  async findDeliveryById(deliveryId: string): Promise<IWebhookDelivery | null> {
+    const delivery = this.deliveries.get(deliveryId);
+    return delivery ? { ...delivery } : null;
+  }
+
+  async recordAttempt(deliveryId: string, attempt: IWebhookAttempt): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (delivery) {
+      Object.assign(delivery, {
+        status: attempt.status,
+        attempts: delivery.attempts + 1,
+        responseStatus: attempt.responseStatus,
+        lastError: attempt.error,
+        lastAttemptAt: attempt.attemptedAt,
+        deliveredAt:
+          attempt.status === WebhookDeliveryStatus.SUCCEEDED ? attempt.attemptedAt : null,
+      });
+    }
+  }
+
+  async failDelivery(deliveryId: string, error: string): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (delivery?.status === WebhookDeliveryStatus.PENDING) {
+      Object.assign(delivery, { status: WebhookDeliveryStatus.FAILED, lastError: error });
+    }
+  }
+
+  async resetDelivery(deliveryId: string): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (delivery) {
+      Object.assign(delivery, {
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        deliveredAt: null,
+      });
+    }
+  }
+
+  async findDeliveriesByEndpointId(endpointId: string, limit: number): Promise<IWebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter((delivery) => delivery.endpointId === endpointId)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,48 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+
+export interface IReceivedRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP server standing in for a webhook receiver; answers each
+ * request with the next scripted status (the last one repeats)
+ */
+export class StandInServer {
+  readonly requests: IReceivedRequest[] = [];
+  private server: Server;
+
+  constructor(private statuses: number[], private headers: Record<string, string> = {}) {
+    this.server = createServer((request, response) => {
+      let body = "";
+      request.setEncoding("utf8");
+      request.on("data", (chunk: string) => (body += chunk));
+      request.on("end", () => {
+        this.requests.push({
+          method: request.method ?? "",
+          url: request.url ?? "",
+          headers: request.headers,
+          body,
+        });
+        const status =
+          this.statuses[Math.min(this.requests.length, this.statuses.length) - 1] ?? 200;
+        response.writeHead(status, this.headers).end();
+      });
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/hooks`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,8 @@
+import type { ILogger } from "../../src/use-cases/interfaces/ILogger.js";
+
+export const silentLogger: ILogger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+};